@@ -20,4 +20,5 @@ CREATE INDEX tag_name_index IF NOT EXISTS FOR (t:Tag) ON (t.name);
 
 // Create indexes for temporal queries
 CREATE INDEX content_version_created_at_index IF NOT EXISTS FOR (v:ContentNodeVersion) ON (v.createdAt);
+CREATE INDEX content_version_hash_index IF NOT EXISTS FOR (v:ContentNodeVersion) ON (v.contentHash);
 CREATE INDEX test_run_created_at_index IF NOT EXISTS FOR (tr:TestRun) ON (tr.createdAt);
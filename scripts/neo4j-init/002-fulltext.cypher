@@ -0,0 +1,2 @@
+// Full-text index for content search over version text and node descriptions
+CREATE FULLTEXT INDEX content_search IF NOT EXISTS FOR (n:ContentNodeVersion|ContentNode) ON EACH [n.content, n.description];
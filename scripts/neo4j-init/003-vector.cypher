@@ -0,0 +1,3 @@
+// Vector index for semantic search over version embeddings
+// Dimensions must match the embedding model; 256 is the hashed n-gram default
+CREATE VECTOR INDEX content_embedding IF NOT EXISTS FOR (v:ContentNodeVersion) ON (v.embedding) OPTIONS {indexConfig: {`vector.dimensions`: 256, `vector.similarity_function`: 'cosine'}};
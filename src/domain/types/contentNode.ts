@@ -1,5 +1,12 @@
 import { Schema, Chunk, HashMap } from 'effect';
-import { Slug, TagId, ContentNodeId, ContentNodeVersionId } from './branded';
+import {
+  Slug,
+  TagId,
+  ContentNodeId,
+  ContentNodeVersionId,
+  DataPointId,
+  TestCaseId,
+} from './branded';
 
 // Re-export ContentNodeId and ContentNodeVersionId for convenience
 export { ContentNodeId, ContentNodeVersionId };
@@ -18,11 +25,64 @@ export type AssistantRole = typeof AssistantRole.Type;
 export const ContentRole = Schema.Union(SystemRole, UserRole, AssistantRole);
 export type ContentRole = typeof ContentRole.Type;
 
+// Insert parameter types to avoid primitive obsession
+export const InsertKey = Schema.String.pipe(
+  Schema.pattern(/^[a-zA-Z][a-zA-Z0-9_]*$/),
+  Schema.brand('InsertKey'),
+);
+export type InsertKey = typeof InsertKey.Type;
+
+// Parameter values: text, or JSON-like data templates can loop over and format
+export type InsertValue =
+  | string
+  | number
+  | boolean
+  | ReadonlyArray<InsertValue>
+  | { readonly [key: string]: InsertValue };
+export const InsertValue: Schema.Schema<InsertValue> = Schema.Union(
+  Schema.String,
+  Schema.Number,
+  Schema.Boolean,
+  Schema.Array(Schema.suspend(() => InsertValue)),
+  Schema.Record({
+    key: Schema.String,
+    value: Schema.suspend(() => InsertValue),
+  }),
+);
+
+// The kinds of value a content node can declare for a parameter
+export const ParameterType = Schema.Literal(
+  'string',
+  'number',
+  'boolean',
+  'list',
+  'object',
+);
+export type ParameterType = typeof ParameterType.Type;
+
+// A parameter a content node's templates expect
+export const ParameterDeclaration = Schema.Struct({
+  name: InsertKey,
+  type: ParameterType,
+  required: Schema.optional(Schema.Boolean), // Missing values are an error when set
+  default: Schema.optional(InsertValue), // Used when the parameter is not supplied
+});
+export type ParameterDeclaration = typeof ParameterDeclaration.Type;
+
+// A node's declarations as stored on it: JSON text, since Neo4j properties
+// cannot hold maps
+export const StoredParameterDeclarations = Schema.parseJson(
+  Schema.Array(ParameterDeclaration),
+);
+
 // ContentNode - unified container type
 export const ContentNode = Schema.Struct({
   id: ContentNodeId,
   name: Slug,
   description: Schema.String,
+  archivedAt: Schema.optional(Schema.DateTimeUtc), // Hidden from listings and slot selection while set
+  aliases: Schema.optional(Schema.Array(Slug)), // Former names, oldest first
+  parameters: Schema.optional(StoredParameterDeclarations), // Parameters its templates expect
 });
 export type ContentNode = typeof ContentNode.Type;
 
@@ -32,6 +92,7 @@ export const ContentNodeVersion = Schema.Struct({
   content: Schema.optional(Schema.String), // Optional - branches may not have content
   createdAt: Schema.DateTimeUtc,
   commitMessage: Schema.String, // Align with existing convention
+  contentHash: Schema.optional(Schema.String), // sha256 of content and the outgoing edges it was created with; absent on versions created before hashing
 });
 export type ContentNodeVersion = typeof ContentNodeVersion.Type;
 
@@ -52,29 +113,229 @@ export type EdgeOperation = typeof EdgeOperation.Type;
 export const IncludesEdgeProperties = Schema.Struct({
   operation: EdgeOperation,
   key: Schema.optional(Schema.String), // Only for insert operations
+  // Concatenate position among siblings; unordered edges sort after, by name
+  order: Schema.optional(Schema.Number),
+  // Text placed before a concatenated child; defaults to a newline
+  separator: Schema.optional(Schema.String),
 });
 export type IncludesEdgeProperties = typeof IncludesEdgeProperties.Type;
 
-// Insert parameter types to avoid primitive obsession
-export const InsertKey = Schema.String.pipe(
-  Schema.pattern(/^[a-zA-Z][a-zA-Z0-9_]*$/),
-  Schema.brand('InsertKey'),
+// One page of a node's versions, newest first
+export const VersionHistoryPage = Schema.Struct({
+  versions: Schema.Array(ContentNodeVersion),
+  total: Schema.Number,
+  hasMore: Schema.Boolean,
+});
+export type VersionHistoryPage = typeof VersionHistoryPage.Type;
+
+// An outgoing INCLUDES edge and what it points at
+export const IncludesEdgeSummary = Schema.Struct({
+  targetId: Schema.Union(ContentNodeVersionId, ContentNodeId),
+  targetName: Slug,
+  floating: Schema.Boolean, // Targets a ContentNode rather than a version
+  properties: IncludesEdgeProperties,
+});
+export type IncludesEdgeSummary = typeof IncludesEdgeSummary.Type;
+
+// An outgoing INCLUDES edge as it contributes to a version's content hash
+export const ContentHashEdge = IncludesEdgeSummary.pipe(
+  Schema.pick('targetId', 'floating', 'properties'),
 );
-export type InsertKey = typeof InsertKey.Type;
+export type ContentHashEdge = typeof ContentHashEdge.Type;
 
-export const InsertValue = Schema.String.pipe(Schema.brand('InsertValue'));
-export type InsertValue = typeof InsertValue.Type;
+// A version whose content hash matched a lookup, with the node it belongs to
+export const ContentHashMatch = Schema.Struct({
+  nodeId: ContentNodeId,
+  nodeName: Slug,
+  version: ContentNodeVersion,
+});
+export type ContentHashMatch = typeof ContentHashMatch.Type;
+
+// A character range [start, end) within a piece of text
+export const TextRange = Schema.Struct({
+  start: Schema.Number,
+  end: Schema.Number,
+});
+export type TextRange = typeof TextRange.Type;
+
+// An excerpt of matched text with the matched words marked
+export const SearchSnippet = Schema.Struct({
+  text: Schema.String,
+  highlights: Schema.Array(TextRange),
+});
+export type SearchSnippet = typeof SearchSnippet.Type;
+
+export const SearchField = Schema.Literal('content', 'description');
+export type SearchField = typeof SearchField.Type;
+
+// One full-text search result; description hits carry the node's latest version
+export const ContentSearchHit = Schema.Struct({
+  nodeId: ContentNodeId,
+  nodeName: Slug,
+  version: ContentNodeVersion,
+  score: Schema.Number,
+  field: SearchField,
+  snippet: SearchSnippet,
+});
+export type ContentSearchHit = typeof ContentSearchHit.Type;
+
+// One semantic search result; score is the cosine similarity to the query
+export const SemanticSearchHit = Schema.Struct({
+  nodeId: ContentNodeId,
+  nodeName: Slug,
+  version: ContentNodeVersion,
+  score: Schema.Number,
+});
+export type SemanticSearchHit = typeof SemanticSearchHit.Type;
+
+// A version that includes a node, directly or through other versions
+export const DependentVersion = Schema.Struct({
+  nodeId: ContentNodeId,
+  nodeName: Slug,
+  version: ContentNodeVersion,
+});
+export type DependentVersion = typeof DependentVersion.Type;
+
+// A message slot that would select some of the affected nodes
+export const DependentSlot = Schema.Struct({
+  sequence: Schema.Number,
+  role: ContentRole,
+  nodeNames: Schema.Array(Slug),
+});
+export type DependentSlot = typeof DependentSlot.Type;
+
+export const DependentTestCase = Schema.Struct({
+  id: TestCaseId,
+  name: Schema.String,
+  slots: Schema.Array(DependentSlot),
+});
+export type DependentTestCase = typeof DependentTestCase.Type;
+
+// A recorded result that used some of the affected versions
+export const DependentDataPoint = Schema.Struct({
+  id: DataPointId,
+  versionIds: Schema.Array(ContentNodeVersionId),
+});
+export type DependentDataPoint = typeof DependentDataPoint.Type;
+
+// A stored test case that could not be read, so its slots were not checked
+export const UnreadableTestCase = Schema.Struct({
+  id: Schema.String,
+  reason: Schema.String,
+});
+export type UnreadableTestCase = typeof UnreadableTestCase.Type;
+
+// Everything a change to a content node can reach
+export const ContentDependents = Schema.Struct({
+  nodeId: ContentNodeId,
+  versions: Schema.Array(DependentVersion),
+  nodes: Schema.Array(ContentNode),
+  testCases: Schema.Array(DependentTestCase),
+  unreadableTestCases: Schema.Array(UnreadableTestCase),
+  dataPoints: Schema.Array(DependentDataPoint),
+});
+export type ContentDependents = typeof ContentDependents.Type;
+
+export const LintSeverity = Schema.Literal('error', 'warning', 'info');
+export type LintSeverity = typeof LintSeverity.Type;
+
+export const LintRule = Schema.Literal(
+  'template-syntax',
+  'insert-without-key',
+  'unmatched-placeholder',
+  'unused-insert-key',
+  'empty-branch',
+  'duplicate-content',
+  'untagged-node',
+);
+export type LintRule = typeof LintRule.Type;
+
+// One problem found by lintContent, located by node and, where it applies,
+// version, placeholder or edge key, and edge target
+export const LintFinding = Schema.Struct({
+  rule: LintRule,
+  severity: LintSeverity,
+  message: Schema.String,
+  nodeId: ContentNodeId,
+  nodeName: Slug,
+  versionId: Schema.optional(ContentNodeVersionId),
+  key: Schema.optional(Schema.String),
+  targetId: Schema.optional(Schema.Union(ContentNodeId, ContentNodeVersionId)),
+});
+export type LintFinding = typeof LintFinding.Type;
+
+// Differences between two versions; unified diffs are empty when unchanged
+export const ContentVersionDiff = Schema.Struct({
+  from: ContentNodeVersionId,
+  to: ContentNodeVersionId,
+  content: Schema.String,
+  edges: Schema.String,
+  addedEdges: Schema.Array(IncludesEdgeSummary),
+  removedEdges: Schema.Array(IncludesEdgeSummary),
+});
+export type ContentVersionDiff = typeof ContentVersionDiff.Type;
 
 // Using type alias instead of Schema for HashMap since it's used with HashMap functions
 export type InsertHashMap = HashMap.HashMap<InsertKey, InsertValue>;
 
+// Which child edges tag filters apply to
+export const TagFilterScope = Schema.Literal('insert', 'concatenate', 'both');
+export type TagFilterScope = typeof TagFilterScope.Type;
+
 // Processing options for filtering
 export const ProcessingOptions = Schema.Struct({
+  // Keep only descendants whose node has at least one of these tags
   includeTags: Schema.optional(Schema.Array(Schema.String)),
+  // Drop descendants whose node has any of these tags
+  excludeTags: Schema.optional(Schema.Array(Schema.String)),
+  // Defaults to 'concatenate'; the render root is never filtered
+  tagFilterScope: Schema.optional(TagFilterScope),
   excludeVersionIds: Schema.optional(Schema.Array(ContentNodeVersionId)),
+  // Resolve floating references to the latest version at this time
+  resolveAsOf: Schema.optional(Schema.DateTimeUtc),
+  // Fail instead of leaving unresolved placeholders in the output
+  strict: Schema.optional(Schema.Boolean),
 });
 export type ProcessingOptions = typeof ProcessingOptions.Type;
 
+// A placeholder that rendered without a value, and the version it came from
+export const UnresolvedPlaceholder = Schema.Struct({
+  key: Schema.String,
+  placeholder: Schema.String,
+  versionId: ContentNodeVersionId,
+  nodeName: Slug,
+});
+export type UnresolvedPlaceholder = typeof UnresolvedPlaceholder.Type;
+
+// Rendered text together with the parameters it did and did not use
+export const RenderReport = Schema.Struct({
+  text: Schema.String,
+  unresolved: Schema.Array(UnresolvedPlaceholder),
+  unusedParameters: Schema.Array(InsertKey),
+});
+export type RenderReport = typeof RenderReport.Type;
+
+// A character range [start, end) of rendered text and the version it came from
+export const RenderSegment = Schema.Struct({
+  start: Schema.Number,
+  end: Schema.Number,
+  versionId: ContentNodeVersionId,
+  nodeName: Slug,
+  // How the version was reached: the render root or the edge that included it
+  operation: Schema.Union(Schema.Literal('root'), EdgeOperation),
+  key: Schema.optional(Schema.String), // Only for insert operations
+  // Set when the edge targets a node and this version was resolved from it
+  floating: Schema.optional(Schema.Boolean),
+});
+export type RenderSegment = typeof RenderSegment.Type;
+
+// Rendered text with the provenance of each span
+export const RenderTrace = Schema.Struct({
+  text: Schema.String,
+  segments: Schema.Array(RenderSegment),
+});
+export type RenderTrace = typeof RenderTrace.Type;
+
 // Type-safe child node structure
 export type ChildNode = {
   node: ContentNodeVersion;
@@ -1,5 +1,6 @@
 import { Data, Schema } from 'effect';
-import { AnyId, Slug } from './branded';
+import { AnyId, ContentNodeVersionId, DataPointId, Slug } from './branded';
+import { UnresolvedPlaceholder } from './contentNode';
 
 /**
  * Base error class for all Janus errors
@@ -121,6 +122,184 @@ export class Neo4jError extends Schema.TaggedError<Neo4jError>()('Neo4jError', {
   }
 }
 
+/**
+ * Content cycle error for INCLUDES edges that loop back on themselves
+ * Includes the version path that forms the cycle, starting and ending
+ * with the same version
+ */
+export class ContentCycleError extends Schema.TaggedError<ContentCycleError>()(
+  'ContentCycleError',
+  {
+    path: Schema.Array(ContentNodeVersionId),
+  },
+) {
+  get message() {
+    return `Content cycle detected: ${this.path.join(' -> ')}`;
+  }
+}
+
+/**
+ * Tag cycle error for CHILD_OF links that would make a tag its own ancestor
+ * The path starts and ends with the same tag, each one a child of the next
+ */
+export class TagCycleError extends Schema.TaggedError<TagCycleError>()(
+  'TagCycleError',
+  {
+    path: Schema.Array(Slug),
+  },
+) {
+  get message() {
+    return `Tag cycle detected: ${this.path.join(' -> ')}`;
+  }
+}
+
+/**
+ * Template parse error for content versions whose text is not a valid template
+ * Includes the version, the character offset and the reason
+ */
+export class TemplateParseError extends Schema.TaggedError<TemplateParseError>()(
+  'TemplateParseError',
+  {
+    versionId: Schema.optional(ContentNodeVersionId),
+    position: Schema.Number,
+    reason: Schema.String,
+  },
+) {
+  get message() {
+    const location = this.versionId ? ` in version ${this.versionId}` : '';
+    return `Template parse error${location} at offset ${this.position}: ${this.reason}`;
+  }
+}
+
+/**
+ * Tag expression parse error for slot tag expressions that are not valid
+ * Includes the expression, the character offset and the reason
+ */
+export class TagExpressionParseError extends Schema.TaggedError<TagExpressionParseError>()(
+  'TagExpressionParseError',
+  {
+    expression: Schema.String,
+    position: Schema.Number,
+    reason: Schema.String,
+  },
+) {
+  get message() {
+    return `Tag expression parse error at offset ${this.position}: ${this.reason}`;
+  }
+}
+
+/**
+ * Slot parameter error for a message slot filter whose parameter reference
+ * has no value, or a value that is not a valid tag or node name
+ */
+export class SlotParameterError extends Schema.TaggedError<SlotParameterError>()(
+  'SlotParameterError',
+  {
+    sequence: Schema.Number,
+    reference: Schema.String,
+    reason: Schema.String,
+  },
+) {
+  get message() {
+    return `Cannot resolve ${this.reference} in slot ${this.sequence}: ${this.reason}`;
+  }
+}
+
+/**
+ * Parameter values, or declared defaults, that break a content node's
+ * parameter declarations
+ */
+export class ParameterValidationError extends Schema.TaggedError<ParameterValidationError>()(
+  'ParameterValidationError',
+  {
+    nodeName: Slug,
+    issues: Schema.Array(
+      Schema.Struct({ parameter: Schema.String, reason: Schema.String }),
+    ),
+  },
+) {
+  get message() {
+    return `Invalid parameters for ${this.nodeName}: ${this.issues
+      .map((issue) => `${issue.parameter} ${issue.reason}`)
+      .join('; ')}`;
+  }
+}
+
+/**
+ * Unresolved placeholder error for strict renders that left placeholders unfilled
+ * Lists every placeholder with the version and node it came from
+ */
+export class UnresolvedPlaceholderError extends Schema.TaggedError<UnresolvedPlaceholderError>()(
+  'UnresolvedPlaceholderError',
+  {
+    placeholders: Schema.Array(UnresolvedPlaceholder),
+  },
+) {
+  get message() {
+    const listed = this.placeholders
+      .map((p) => `${p.placeholder} in ${p.nodeName} (${p.versionId})`)
+      .join(', ');
+    return `Unresolved placeholders: ${listed}`;
+  }
+}
+
+/**
+ * Embedding error for failures from an Embeddings implementation
+ * Includes the embedding model and the original error message
+ */
+export class EmbeddingError extends Schema.TaggedError<EmbeddingError>()(
+  'EmbeddingError',
+  {
+    model: Schema.String,
+    originalMessage: Schema.String,
+  },
+) {
+  get message() {
+    return `Embedding with ${this.model} failed: ${this.originalMessage}`;
+  }
+}
+
+/**
+ * Content in use error for deletes refused because other content or
+ * recorded results still reference the target
+ * Lists the versions that include it and the data points that used it
+ */
+export class ContentInUseError extends Schema.TaggedError<ContentInUseError>()(
+  'ContentInUseError',
+  {
+    id: AnyId,
+    includedBy: Schema.Array(ContentNodeVersionId),
+    dataPoints: Schema.Array(DataPointId),
+  },
+) {
+  get message() {
+    const reasons = [
+      ...(this.includedBy.length > 0
+        ? [`included by ${this.includedBy.join(', ')}`]
+        : []),
+      ...(this.dataPoints.length > 0
+        ? [`used by data points ${this.dataPoints.join(', ')}`]
+        : []),
+    ];
+    return `Cannot delete ${this.id}: ${reasons.join('; ')}`;
+  }
+}
+
+/**
+ * A slug that is already the name or a former name of another entity
+ */
+export class SlugInUseError extends Schema.TaggedError<SlugInUseError>()(
+  'SlugInUseError',
+  {
+    slug: Slug,
+    existingId: AnyId,
+  },
+) {
+  get message() {
+    return `Slug already in use: ${this.slug} (by ${this.existingId})`;
+  }
+}
+
 /**
  * Union type for all Janus errors
  */
@@ -131,4 +310,14 @@ export type JanusErrors =
   | FileSystemError
   | NotFoundError
   | ConflictError
-  | Neo4jError;
+  | Neo4jError
+  | ContentCycleError
+  | TemplateParseError
+  | TagExpressionParseError
+  | SlotParameterError
+  | ParameterValidationError
+  | UnresolvedPlaceholderError
+  | EmbeddingError
+  | ContentInUseError
+  | SlugInUseError
+  | TagCycleError;
@@ -11,3 +11,12 @@ export const Tag = Schema.Struct({
   description: Schema.String,
 });
 export type Tag = typeof Tag.Type;
+
+/**
+ * A tag with the tags that are CHILD_OF it, recursively
+ * A tag with several parents appears under each of them.
+ */
+export interface TagTree {
+  readonly tag: Tag;
+  readonly children: ReadonlyArray<TagTree>;
+}
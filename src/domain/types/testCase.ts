@@ -6,12 +6,19 @@
  */
 
 import { Schema, HashMap, Chunk } from 'effect';
-import { Slug, ContentNodeId, TagId, TestCaseId } from './branded';
+import {
+  Slug,
+  ContentNodeId,
+  ContentNodeVersionId,
+  TagId,
+  TestCaseId,
+} from './branded';
 import {
   InsertKey,
   InsertValue,
   InsertHashMap,
   ContentRole,
+  RenderSegment,
 } from './contentNode';
 
 // LLM Model validation
@@ -25,16 +32,114 @@ export type LLMModel = typeof LLMModel.Type;
 export const TestCaseTagName = Slug; // Tags use slug format
 export type TestCaseTagName = typeof TestCaseTagName.Type;
 
+// A slot parameter standing in for a tag or node name, e.g. "{{persona}}"
+export const SlotParameterReference = Schema.String.pipe(
+  Schema.pattern(/^\{\{[a-zA-Z][a-zA-Z0-9_]*\}\}$/),
+  Schema.brand('SlotParameterReference'),
+);
+export type SlotParameterReference = typeof SlotParameterReference.Type;
+
+// Boolean expression over tags for selecting slot content
+export type TagExpression =
+  | {
+      readonly _tag: 'Tag';
+      readonly name: TagId | TestCaseTagName | SlotParameterReference;
+    }
+  | { readonly _tag: 'And'; readonly operands: ReadonlyArray<TagExpression> }
+  | { readonly _tag: 'Or'; readonly operands: ReadonlyArray<TagExpression> }
+  | { readonly _tag: 'Not'; readonly operand: TagExpression };
+
+type TagExpressionEncoded =
+  | { readonly _tag: 'Tag'; readonly name: string }
+  | {
+      readonly _tag: 'And';
+      readonly operands: ReadonlyArray<TagExpressionEncoded>;
+    }
+  | {
+      readonly _tag: 'Or';
+      readonly operands: ReadonlyArray<TagExpressionEncoded>;
+    }
+  | { readonly _tag: 'Not'; readonly operand: TagExpressionEncoded };
+
+export const TagExpression: Schema.Schema<TagExpression, TagExpressionEncoded> =
+  Schema.Union(
+    Schema.Struct({
+      _tag: Schema.Literal('Tag'),
+      name: Schema.Union(TagId, TestCaseTagName, SlotParameterReference),
+    }),
+    Schema.Struct({
+      _tag: Schema.Literal('And'),
+      operands: Schema.Array(Schema.suspend(() => TagExpression)),
+    }),
+    Schema.Struct({
+      _tag: Schema.Literal('Or'),
+      operands: Schema.Array(Schema.suspend(() => TagExpression)),
+    }),
+    Schema.Struct({
+      _tag: Schema.Literal('Not'),
+      operand: Schema.suspend(() => TagExpression),
+    }),
+  );
+
+// How a message slot picks versions among the nodes it matches
+// Every strategy but All takes one version per node: the latest, or the
+// latest created at or before asOf.
+export const SlotSelection = Schema.Union(
+  Schema.Struct({ _tag: Schema.Literal('Latest') }),
+  Schema.Struct({ _tag: Schema.Literal('All') }),
+  Schema.Struct({ _tag: Schema.Literal('AsOf'), asOf: Schema.DateTimeUtc }),
+  // The first count nodes, by name or by version creation time
+  Schema.Struct({
+    _tag: Schema.Literal('First'),
+    count: Schema.Number.pipe(Schema.int(), Schema.positive()),
+    orderBy: Schema.Literal('name', 'createdAt'),
+    descending: Schema.optional(Schema.Boolean),
+  }),
+  // count nodes drawn at random; the same seed draws the same nodes
+  Schema.Struct({
+    _tag: Schema.Literal('Sample'),
+    count: Schema.Number.pipe(Schema.int(), Schema.positive()),
+    seed: Schema.Number.pipe(Schema.int()),
+  }),
+);
+export type SlotSelection = typeof SlotSelection.Type;
+
+// A content version a message slot selected
+export const SelectedVersion = Schema.Struct({
+  nodeId: ContentNodeId,
+  nodeName: Slug,
+  versionId: ContentNodeVersionId,
+  createdAt: Schema.DateTimeUtc,
+});
+export type SelectedVersion = typeof SelectedVersion.Type;
+
 // Message slot definition for test cases
 export const MessageSlot = Schema.Struct({
   role: ContentRole,
-  tags: Schema.optional(Schema.Array(Schema.Union(TagId, TestCaseTagName))),
+  // Shorthand for an AND of tags; combined with tagExpression when both are set
+  tags: Schema.optional(
+    Schema.Array(Schema.Union(TagId, TestCaseTagName, SlotParameterReference)),
+  ),
+  tagExpression: Schema.optional(TagExpression),
   excludeNodes: Schema.optional(
-    Schema.Array(Schema.Union(ContentNodeId, Slug)),
+    Schema.Array(Schema.Union(ContentNodeId, Slug, SlotParameterReference)),
   ),
   includeNodes: Schema.optional(
-    Schema.Array(Schema.Union(ContentNodeId, Slug)),
+    Schema.Array(Schema.Union(ContentNodeId, Slug, SlotParameterReference)),
+  ),
+  // Let a tag also match content tagged with any of its descendant tags
+  matchDescendantTags: Schema.optional(Schema.Boolean),
+  // Defaults to Latest
+  selection: Schema.optional(SlotSelection),
+  // Overrides for the test case parameters, for this slot only
+  parameters: Schema.optional(
+    Schema.HashMap({
+      key: InsertKey,
+      value: InsertValue,
+    }),
   ),
+  // Placed between the contents of the versions the slot selects; "\n" by default
+  separator: Schema.optional(Schema.String),
   sequence: Schema.Number.pipe(Schema.int(), Schema.nonNegative()),
 });
 export type MessageSlot = typeof MessageSlot.Type;
@@ -56,6 +161,22 @@ export const TestCase = Schema.Struct({
 });
 export type TestCase = typeof TestCase.Type;
 
+// A TestCase as stored on a Neo4j node, which cannot hold lists of maps:
+// messageSlots and parameters are JSON text of their encoded form
+export const StoredTestCase = Schema.Struct({
+  ...TestCase.fields,
+  messageSlots: Schema.parseJson(TestCase.fields.messageSlots),
+  parameters: Schema.optionalWith(
+    Schema.parseJson(
+      Schema.HashMap({
+        key: InsertKey,
+        value: InsertValue,
+      }),
+    ),
+    { nullable: true },
+  ),
+});
+
 // Message type for conversations
 export const Message = Schema.Struct({
   role: ContentRole,
@@ -65,3 +186,15 @@ export type Message = typeof Message.Type;
 
 // Conversation type
 export type Conversation = Chunk.Chunk<Message>;
+
+// Message with the versions its slot selected and the content version
+// behind each span of its content
+export const TracedMessage = Schema.Struct({
+  ...Message.fields,
+  versions: Schema.Array(SelectedVersion),
+  segments: Schema.Array(RenderSegment),
+});
+export type TracedMessage = typeof TracedMessage.Type;
+
+// Conversation with per-message provenance
+export type TracedConversation = Chunk.Chunk<TracedMessage>;
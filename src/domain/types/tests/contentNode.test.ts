@@ -39,6 +39,32 @@ describe('ContentNode', () => {
     }),
   );
 
+  it.effect('should decode parameter declarations from JSON text', () =>
+    Effect.gen(function* () {
+      const result = yield* Schema.decode(ContentNode)({
+        id: '123e4567-e89b-42d3-a456-426614174000',
+        name: 'summary',
+        description: 'Summary instructions',
+        parameters: JSON.stringify([
+          { name: 'topic', type: 'string', required: true },
+          { name: 'length', type: 'number', default: 3 },
+        ]),
+      });
+      expect(result.parameters).toEqual([
+        { name: 'topic', type: 'string', required: true },
+        { name: 'length', type: 'number', default: 3 },
+      ]);
+
+      const unknownType = yield* Effect.either(
+        Schema.decode(ContentNode)({
+          ...result,
+          parameters: '[{"name":"topic","type":"date"}]',
+        }),
+      );
+      expect(unknownType._tag).toBe('Left');
+    }),
+  );
+
   it.effect('should reject ContentNode with invalid name', () =>
     Effect.gen(function* () {
       const invalidNode = {
@@ -205,6 +231,31 @@ describe('InsertKey', () => {
   );
 });
 
+describe('InsertValue', () => {
+  it.effect('should decode text, numbers, booleans, lists and objects', () =>
+    Effect.gen(function* () {
+      const value = {
+        title: 'Report',
+        lengths: [3, 5],
+        draft: false,
+        sections: [{ heading: 'Intro', bullets: ['a', 'b'] }],
+      };
+      expect(yield* Schema.decode(InsertValue)(value)).toEqual(value);
+      expect(yield* Schema.decode(InsertValue)('TypeScript')).toBe(
+        'TypeScript',
+      );
+    }),
+  );
+
+  it.effect('should reject null and nested undefined values', () =>
+    Effect.gen(function* () {
+      const decode = Schema.decodeUnknown(InsertValue);
+      expect((yield* Effect.either(decode(null)))._tag).toBe('Left');
+      expect((yield* Effect.either(decode([1, undefined])))._tag).toBe('Left');
+    }),
+  );
+});
+
 describe('Message', () => {
   it.effect('should decode system message', () =>
     Effect.gen(function* () {
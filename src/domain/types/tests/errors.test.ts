@@ -7,6 +7,16 @@ import {
   FileSystemError,
   NotFoundError,
   ConflictError,
+  ContentCycleError,
+  TemplateParseError,
+  TagExpressionParseError,
+  SlotParameterError,
+  ParameterValidationError,
+  UnresolvedPlaceholderError,
+  EmbeddingError,
+  ContentInUseError,
+  SlugInUseError,
+  TagCycleError,
 } from '../errors';
 import { ContentNodeId, ContentNodeVersionId, TagId, Slug } from '../branded';
 
@@ -348,6 +358,208 @@ describe('Error Types', () => {
     );
   });
 
+  describe('ContentCycleError', () => {
+    it.effect('should render the cycle path in the message', () =>
+      Effect.gen(function* () {
+        const first = yield* Schema.decode(ContentNodeVersionId)(
+          '550e8400-e29b-41d4-a716-446655440001',
+        );
+        const second = yield* Schema.decode(ContentNodeVersionId)(
+          '550e8400-e29b-41d4-a716-446655440002',
+        );
+        const error = new ContentCycleError({ path: [first, second, first] });
+
+        expect(error._tag).toBe('ContentCycleError');
+        expect(error.path).toEqual([first, second, first]);
+        expect(error.message).toBe(
+          `Content cycle detected: ${first} -> ${second} -> ${first}`,
+        );
+      }),
+    );
+
+    it.effect('should reject non-version IDs in the path', () =>
+      Effect.gen(function* () {
+        const result = yield* Effect.either(
+          Schema.decodeUnknown(ContentCycleError)({
+            _tag: 'ContentCycleError',
+            path: ['not-a-uuid'],
+          }),
+        );
+        expect(result._tag).toBe('Left');
+      }),
+    );
+  });
+
+  describe('TemplateParseError', () => {
+    it.effect('should include the version and offset in the message', () =>
+      Effect.gen(function* () {
+        const versionId = yield* Schema.decode(ContentNodeVersionId)(
+          '550e8400-e29b-41d4-a716-446655440001',
+        );
+        const error = new TemplateParseError({
+          versionId,
+          position: 6,
+          reason: 'Unclosed tag',
+        });
+
+        expect(error._tag).toBe('TemplateParseError');
+        expect(error.message).toBe(
+          `Template parse error in version ${versionId} at offset 6: Unclosed tag`,
+        );
+      }),
+    );
+
+    it('should omit the version when it is unknown', () => {
+      const error = new TemplateParseError({
+        position: 0,
+        reason: 'Missing parameter name',
+      });
+      expect(error.message).toBe(
+        'Template parse error at offset 0: Missing parameter name',
+      );
+    });
+  });
+
+  describe('UnresolvedPlaceholderError', () => {
+    it.effect('should list each placeholder with its origin', () =>
+      Effect.gen(function* () {
+        const versionId = yield* Schema.decode(ContentNodeVersionId)(
+          '550e8400-e29b-41d4-a716-446655440001',
+        );
+        const nodeName = yield* Schema.decode(Slug)('greeting');
+        const error = new UnresolvedPlaceholderError({
+          placeholders: [
+            { key: 'name', placeholder: '{{name}}', versionId, nodeName },
+            { key: 'topic', placeholder: '{{topic}}', versionId, nodeName },
+          ],
+        });
+
+        expect(error._tag).toBe('UnresolvedPlaceholderError');
+        expect(error.message).toBe(
+          `Unresolved placeholders: {{name}} in greeting (${versionId}), {{topic}} in greeting (${versionId})`,
+        );
+      }),
+    );
+  });
+
+  describe('EmbeddingError', () => {
+    it('should name the model in the message', () => {
+      const error = new EmbeddingError({
+        model: 'hashed-ngram-256',
+        originalMessage: 'rate limited',
+      });
+
+      expect(error._tag).toBe('EmbeddingError');
+      expect(error.message).toBe(
+        'Embedding with hashed-ngram-256 failed: rate limited',
+      );
+    });
+  });
+
+  describe('ContentInUseError', () => {
+    it.effect('should list what still references the content', () =>
+      Effect.gen(function* () {
+        const id = yield* Schema.decode(ContentNodeId)(
+          '550e8400-e29b-41d4-a716-446655440001',
+        );
+        const parent = yield* Schema.decode(ContentNodeVersionId)(
+          '550e8400-e29b-41d4-a716-446655440002',
+        );
+        const error = new ContentInUseError({
+          id,
+          includedBy: [parent],
+          dataPoints: [],
+        });
+
+        expect(error._tag).toBe('ContentInUseError');
+        expect(error.message).toBe(
+          `Cannot delete ${id}: included by ${parent}`,
+        );
+      }),
+    );
+  });
+
+  describe('SlugInUseError', () => {
+    it.effect('should name the slug and its holder', () =>
+      Effect.gen(function* () {
+        const slug = yield* Schema.decode(Slug)('be-concise');
+        const existingId = yield* Schema.decode(ContentNodeId)(
+          '550e8400-e29b-41d4-a716-446655440001',
+        );
+        const error = new SlugInUseError({ slug, existingId });
+
+        expect(error._tag).toBe('SlugInUseError');
+        expect(error.message).toBe(
+          `Slug already in use: be-concise (by ${existingId})`,
+        );
+      }),
+    );
+  });
+
+  describe('TagExpressionParseError', () => {
+    it('should report the offset and reason', () => {
+      const error = new TagExpressionParseError({
+        expression: 'formal AND',
+        position: 10,
+        reason: 'Unexpected end of expression',
+      });
+
+      expect(error._tag).toBe('TagExpressionParseError');
+      expect(error.message).toBe(
+        'Tag expression parse error at offset 10: Unexpected end of expression',
+      );
+    });
+  });
+
+  describe('SlotParameterError', () => {
+    it('should name the slot, the reference and the reason', () => {
+      const error = new SlotParameterError({
+        sequence: 1,
+        reference: '{{persona}}',
+        reason: 'no such parameter',
+      });
+
+      expect(error._tag).toBe('SlotParameterError');
+      expect(error.message).toBe(
+        'Cannot resolve {{persona}} in slot 1: no such parameter',
+      );
+    });
+  });
+
+  describe('ParameterValidationError', () => {
+    it.effect('should list every issue in the message', () =>
+      Effect.gen(function* () {
+        const error = new ParameterValidationError({
+          nodeName: yield* Schema.decode(Slug)('summary'),
+          issues: [
+            { parameter: 'topic', reason: 'is required' },
+            { parameter: 'length', reason: 'must be a number, not a string' },
+          ],
+        });
+
+        expect(error._tag).toBe('ParameterValidationError');
+        expect(error.message).toBe(
+          'Invalid parameters for summary: topic is required; length must be a number, not a string',
+        );
+      }),
+    );
+  });
+
+  describe('TagCycleError', () => {
+    it.effect('should render the cycle path in the message', () =>
+      Effect.gen(function* () {
+        const formal = yield* Schema.decode(Slug)('formal');
+        const polite = yield* Schema.decode(Slug)('polite');
+        const error = new TagCycleError({ path: [formal, polite, formal] });
+
+        expect(error._tag).toBe('TagCycleError');
+        expect(error.message).toBe(
+          'Tag cycle detected: formal -> polite -> formal',
+        );
+      }),
+    );
+  });
+
   describe('Error Composition', () => {
     it('should have distinct tags for each error type', () => {
       const errors = [
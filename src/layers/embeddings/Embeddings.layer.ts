@@ -0,0 +1,74 @@
+import { Effect, Layer } from 'effect';
+import { Embeddings, EmbeddingsImpl } from '../../services/embeddings';
+
+export const DEFAULT_EMBEDDING_DIMENSIONS = 256;
+
+const WORD = /[\p{L}\p{N}_]+/gu;
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+const fnv1a = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Words and the character trigrams of each word, padded with spaces so that
+ * word starts and ends are features of their own
+ */
+const features = (text: string): string[] =>
+  (text.toLowerCase().match(WORD) ?? []).flatMap((word) => {
+    const padded = ` ${word} `;
+    const trigrams = Array.from({ length: padded.length - 2 }, (_, i) =>
+      padded.slice(i, i + 3),
+    );
+    return [`w:${word}`, ...trigrams.map((trigram) => `t:${trigram}`)];
+  });
+
+/**
+ * Embed text by hashing its features into a fixed number of buckets
+ * A second hash bit picks the sign, so colliding features tend to cancel
+ * rather than add up. The result is L2-normalized; text without words
+ * embeds as the zero vector.
+ */
+export const hashedNgramEmbedding = (
+  text: string,
+  dimensions: number,
+): number[] => {
+  const vector = new Array<number>(dimensions).fill(0);
+  for (const feature of features(text)) {
+    const hash = fnv1a(feature);
+    vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+  }
+  const norm = Math.hypot(...vector);
+  return norm === 0 ? vector : vector.map((value) => value / norm);
+};
+
+/**
+ * Creates a deterministic, offline Embeddings implementation
+ * Similar wording, not similar meaning, brings vectors close; good enough to
+ * find near-duplicate and related prompts without an embedding provider.
+ */
+export const makeHashedEmbeddings = (
+  dimensions: number = DEFAULT_EMBEDDING_DIMENSIONS,
+): EmbeddingsImpl => ({
+  model: `hashed-ngram-${dimensions}`,
+  dimensions,
+  embed: (texts) =>
+    Effect.sync(() =>
+      texts.map((text) => hashedNgramEmbedding(text, dimensions)),
+    ),
+});
+
+/**
+ * Hashed n-gram embeddings layer
+ */
+export const HashedEmbeddingsLive = (
+  dimensions: number = DEFAULT_EMBEDDING_DIMENSIONS,
+): Layer.Layer<Embeddings> =>
+  Layer.succeed(Embeddings, makeHashedEmbeddings(dimensions));
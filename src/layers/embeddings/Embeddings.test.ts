@@ -0,0 +1,40 @@
+import { describe, expect, it } from '@effect/vitest';
+import { Effect } from 'effect';
+import { Embeddings } from '../../services/embeddings';
+import { HashedEmbeddingsLive, hashedNgramEmbedding } from './Embeddings.layer';
+
+const cosine = (a: ReadonlyArray<number>, b: ReadonlyArray<number>) =>
+  a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+describe('HashedEmbeddings', () => {
+  it('should return unit vectors of the configured length', () => {
+    const vector = hashedNgramEmbedding('Be concise and direct', 64);
+    expect(vector).toHaveLength(64);
+    expect(cosine(vector, vector)).toBeCloseTo(1);
+  });
+
+  it('should embed text without words as the zero vector', () => {
+    expect(hashedNgramEmbedding(' -- ', 8)).toEqual(new Array(8).fill(0));
+  });
+
+  it('should place similar wording closer than unrelated text', () => {
+    const base = hashedNgramEmbedding('Be concise in your answers', 256);
+    const similar = hashedNgramEmbedding('Keep answers concise', 256);
+    const unrelated = hashedNgramEmbedding('Hello Alice, welcome!', 256);
+    expect(cosine(base, similar)).toBeGreaterThan(cosine(base, unrelated));
+  });
+
+  it.effect('should be deterministic and name its model', () =>
+    Effect.gen(function* () {
+      const embeddings = yield* Embeddings;
+      const [first, second] = yield* embeddings.embed([
+        'same text',
+        'same text',
+      ]);
+
+      expect(first).toEqual(second);
+      expect(embeddings.model).toBe('hashed-ngram-32');
+      expect(embeddings.dimensions).toBe(32);
+    }).pipe(Effect.provide(HashedEmbeddingsLive(32))),
+  );
+});
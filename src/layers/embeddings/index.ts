@@ -0,0 +1,6 @@
+export {
+  HashedEmbeddingsLive,
+  makeHashedEmbeddings,
+  hashedNgramEmbedding,
+  DEFAULT_EMBEDDING_DIMENSIONS,
+} from './Embeddings.layer';
@@ -1,12 +1,19 @@
 import { Layer } from 'effect';
 import { ConfigServiceLive } from './configuration';
 import { Neo4jLive } from './neo4j';
+import { RenderCacheLive } from './render-cache';
+import { HashedEmbeddingsLive } from './embeddings';
 
 /**
  * Main application layer that combines all service layers
- * This provides both ConfigService and Neo4jService
+ * This provides Neo4jService (configured through ConfigService), RenderCache
+ * and Embeddings
  */
-export const MainLive = Neo4jLive.pipe(Layer.provide(ConfigServiceLive));
+export const MainLive = Layer.mergeAll(
+  Neo4jLive.pipe(Layer.provide(ConfigServiceLive)),
+  RenderCacheLive(),
+  HashedEmbeddingsLive(),
+);
 
 /**
  * All services layer - alias for MainLive
@@ -57,6 +64,16 @@ export {
   Neo4jTestPartial,
   fromEnv as Neo4jFromEnv,
 } from './neo4j';
+export {
+  RenderCacheLive,
+  makeRenderCache,
+  DEFAULT_RENDER_CACHE_CAPACITY,
+} from './render-cache';
+export {
+  HashedEmbeddingsLive,
+  makeHashedEmbeddings,
+  DEFAULT_EMBEDDING_DIMENSIONS,
+} from './embeddings';
 
 // Re-export test utilities
 export {
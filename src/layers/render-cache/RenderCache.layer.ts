@@ -0,0 +1,73 @@
+import { Effect, Layer, Metric, Option } from 'effect';
+import {
+  CachedRender,
+  RenderCache,
+  RenderCacheImpl,
+} from '../../services/render-cache';
+
+export const DEFAULT_RENDER_CACHE_CAPACITY = 1000;
+
+/**
+ * Process-wide counters, summed over every RenderCache instance
+ */
+export const renderCacheHits = Metric.counter('render_cache_hits');
+export const renderCacheMisses = Metric.counter('render_cache_misses');
+export const renderCacheEvictions = Metric.counter('render_cache_evictions');
+
+/**
+ * Creates a least-recently-used render cache holding up to `capacity` entries
+ * A Map keeps insertion order, so re-inserting on every hit leaves the least
+ * recently used entry first.
+ */
+export const makeRenderCache = (capacity: number): RenderCacheImpl => {
+  const entries = new Map<string, CachedRender>();
+  const counts = { hits: 0, misses: 0, evictions: 0 };
+  const keyOf = (versionId: string, fingerprint: string) =>
+    `${versionId}:${fingerprint}`;
+
+  return {
+    get: (versionId, fingerprint) =>
+      Effect.suspend(() => {
+        const key = keyOf(versionId, fingerprint);
+        const render = entries.get(key);
+        if (render === undefined) {
+          counts.misses++;
+          return Metric.increment(renderCacheMisses).pipe(
+            Effect.as(Option.none()),
+          );
+        }
+        entries.delete(key);
+        entries.set(key, render);
+        counts.hits++;
+        return Metric.increment(renderCacheHits).pipe(
+          Effect.as(Option.some(render)),
+        );
+      }),
+    set: (versionId, fingerprint, render) =>
+      Effect.suspend(() => {
+        if (capacity <= 0) return Effect.void;
+        const key = keyOf(versionId, fingerprint);
+        entries.delete(key);
+        entries.set(key, render);
+        if (entries.size <= capacity) return Effect.void;
+        const oldest = entries.keys().next();
+        if (!oldest.done) entries.delete(oldest.value);
+        counts.evictions++;
+        return Metric.increment(renderCacheEvictions);
+      }),
+    clear: Effect.sync(() => entries.clear()),
+    stats: Effect.sync(() => ({
+      ...counts,
+      size: entries.size,
+      capacity,
+    })),
+  };
+};
+
+/**
+ * Render cache layer; each build of the layer gets its own empty cache
+ */
+export const RenderCacheLive = (
+  capacity: number = DEFAULT_RENDER_CACHE_CAPACITY,
+): Layer.Layer<RenderCache> =>
+  Layer.sync(RenderCache, () => makeRenderCache(capacity));
@@ -0,0 +1,137 @@
+import { describe, expect, it } from '@effect/vitest';
+import { DateTime, Effect, HashMap, Metric, Option, Schema } from 'effect';
+import { RenderCache, renderFingerprint } from '../../services/render-cache';
+import { RenderCacheLive, renderCacheHits } from './RenderCache.layer';
+import {
+  ContentNodeVersionId,
+  InsertKey,
+  InsertValue,
+} from '../../domain/types/contentNode';
+
+const versionId = (n: number) =>
+  Schema.decodeSync(ContentNodeVersionId)(
+    `650e8400-e29b-41d4-a716-44665544070${n}`,
+  );
+const rendered = (text: string) => ({
+  trace: { text, segments: [] },
+  unresolved: [],
+  usedParameters: [],
+});
+const parameters = (entries: Array<[string, string]>) =>
+  HashMap.fromIterable(
+    entries.map(
+      ([k, v]) =>
+        [
+          Schema.decodeSync(InsertKey)(k),
+          Schema.decodeSync(InsertValue)(v),
+        ] as const,
+    ),
+  );
+
+describe('RenderCache', () => {
+  describe('renderFingerprint', () => {
+    it('should not depend on parameter or list order', () => {
+      expect(
+        renderFingerprint(
+          parameters([
+            ['a', '1'],
+            ['b', '2'],
+          ]),
+          { includeTags: ['x', 'y'] },
+        ),
+      ).toBe(
+        renderFingerprint(
+          parameters([
+            ['b', '2'],
+            ['a', '1'],
+          ]),
+          { includeTags: ['y', 'x'] },
+        ),
+      );
+    });
+
+    it('should not depend on key order inside object values', () => {
+      const withValue = (value: unknown) =>
+        renderFingerprint(
+          HashMap.make([
+            Schema.decodeSync(InsertKey)('user'),
+            Schema.decodeSync(InsertValue)(value),
+          ]),
+          {},
+        );
+      expect(withValue({ name: 'Ada', tags: [{ a: 1, b: 2 }] })).toBe(
+        withValue({ tags: [{ b: 2, a: 1 }], name: 'Ada' }),
+      );
+      expect(withValue({ name: 'Ada' })).not.toBe(withValue({ name: 'Bob' }));
+    });
+
+    it('should treat defaults and spelled-out defaults alike', () => {
+      expect(renderFingerprint(HashMap.empty(), {})).toBe(
+        renderFingerprint(HashMap.empty(), {
+          tagFilterScope: 'concatenate',
+          strict: false,
+          includeTags: [],
+        }),
+      );
+    });
+
+    it('should change with parameter values and options', () => {
+      const base = renderFingerprint(parameters([['a', '1']]), {});
+      expect(renderFingerprint(parameters([['a', '2']]), {})).not.toBe(base);
+      expect(
+        renderFingerprint(parameters([['a', '1']]), { strict: true }),
+      ).not.toBe(base);
+      expect(
+        renderFingerprint(parameters([['a', '1']]), {
+          resolveAsOf: DateTime.unsafeMake('2024-01-01T00:00:00.000Z'),
+        }),
+      ).not.toBe(base);
+    });
+  });
+
+  describe('RenderCacheLive', () => {
+    it.effect('should count hits and misses', () =>
+      Effect.gen(function* () {
+        const cache = yield* RenderCache;
+        const hitsBefore = (yield* Metric.value(renderCacheHits)).count;
+
+        expect(Option.isNone(yield* cache.get(versionId(1), 'f'))).toBe(true);
+        yield* cache.set(versionId(1), 'f', rendered('one'));
+        expect(yield* cache.get(versionId(1), 'f')).toEqual(
+          Option.some(rendered('one')),
+        );
+        expect(Option.isNone(yield* cache.get(versionId(1), 'g'))).toBe(true);
+
+        expect(yield* cache.stats).toEqual({
+          hits: 1,
+          misses: 2,
+          evictions: 0,
+          size: 1,
+          capacity: 2,
+        });
+        expect((yield* Metric.value(renderCacheHits)).count).toBe(
+          hitsBefore + 1,
+        );
+      }).pipe(Effect.provide(RenderCacheLive(2))),
+    );
+
+    it.effect('should evict the least recently used entry', () =>
+      Effect.gen(function* () {
+        const cache = yield* RenderCache;
+        yield* cache.set(versionId(1), 'f', rendered('one'));
+        yield* cache.set(versionId(2), 'f', rendered('two'));
+        // Reading the first entry makes the second the oldest
+        yield* cache.get(versionId(1), 'f');
+        yield* cache.set(versionId(3), 'f', rendered('three'));
+
+        expect(Option.isSome(yield* cache.get(versionId(1), 'f'))).toBe(true);
+        expect(Option.isNone(yield* cache.get(versionId(2), 'f'))).toBe(true);
+        expect(Option.isSome(yield* cache.get(versionId(3), 'f'))).toBe(true);
+        expect((yield* cache.stats).evictions).toBe(1);
+
+        yield* cache.clear;
+        expect((yield* cache.stats).size).toBe(0);
+      }).pipe(Effect.provide(RenderCacheLive(2))),
+    );
+  });
+});
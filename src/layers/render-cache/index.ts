@@ -0,0 +1,8 @@
+export {
+  RenderCacheLive,
+  makeRenderCache,
+  DEFAULT_RENDER_CACHE_CAPACITY,
+  renderCacheHits,
+  renderCacheMisses,
+  renderCacheEvictions,
+} from './RenderCache.layer';
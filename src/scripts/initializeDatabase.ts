@@ -1,18 +1,23 @@
 import { Effect, Console, Schema, HashMap } from 'effect';
 import { Neo4jService } from '../services/neo4j';
+import { Embeddings } from '../services/embeddings';
+import { backfillTagIds } from '../services/tag';
 import {
+  backfillEmbeddings,
   createContentNode,
   createContentNodeVersion,
+  createTestCase,
   tagContent,
 } from '../services/content';
 import {
   Slug,
   ContentNodeId,
   ContentNodeVersionId,
+  TestCaseId,
 } from '../domain/types/branded';
 import { TestCase, LLMModel } from '../domain/types/testCase';
 import { InsertKey, InsertValue } from '../domain/types/contentNode';
-import { cypher, queryParams } from '../domain/types/database';
+import { cypher } from '../domain/types/database';
 
 /**
  * Initialize database with sample content for the unified content types
@@ -163,13 +168,9 @@ const createSampleContent = Effect.gen(function* () {
 const createSampleTestCases = Effect.gen(function* () {
   yield* Console.log('Creating sample test cases...');
 
-  const neo4j = yield* Neo4jService;
-
   // Create a basic conversation test case
   const basicConversationTest: TestCase = {
-    id: Schema.decodeSync(Schema.String.pipe(Schema.brand('TestCaseId')))(
-      'test-basic-conversation-001',
-    ),
+    id: Schema.decodeSync(TestCaseId)('7a1c2e5d-3b4f-4c6a-8d9e-0f1a2b3c4d01'),
     name: 'Basic Support Conversation',
     description: 'Test basic user-assistant interaction with parameters',
     createdAt: Schema.decodeSync(Schema.DateTimeUtc)(new Date().toISOString()),
@@ -210,17 +211,11 @@ const createSampleTestCases = Effect.gen(function* () {
   };
 
   // Store test case in database
-  const createTestCaseQuery = cypher`
-    CREATE (t:TestCase $props)
-  `;
-  const testCaseParams = yield* queryParams({ props: basicConversationTest });
-  yield* neo4j.runQuery(createTestCaseQuery, testCaseParams);
+  yield* createTestCase(basicConversationTest);
 
   // Create an A/B testing scenario
   const abTestCaseA: TestCase = {
-    id: Schema.decodeSync(Schema.String.pipe(Schema.brand('TestCaseId')))(
-      'test-ab-concise-system-002',
-    ),
+    id: Schema.decodeSync(TestCaseId)('7a1c2e5d-3b4f-4c6a-8d9e-0f1a2b3c4d02'),
     name: 'A/B Test - Concise System Prompt',
     description: 'Test with conciseness instruction in system role',
     createdAt: Schema.decodeSync(Schema.DateTimeUtc)(new Date().toISOString()),
@@ -242,9 +237,7 @@ const createSampleTestCases = Effect.gen(function* () {
   };
 
   const abTestCaseB: TestCase = {
-    id: Schema.decodeSync(Schema.String.pipe(Schema.brand('TestCaseId')))(
-      'test-ab-concise-user-003',
-    ),
+    id: Schema.decodeSync(TestCaseId)('7a1c2e5d-3b4f-4c6a-8d9e-0f1a2b3c4d03'),
     name: 'A/B Test - Concise User Prompt',
     description: 'Test with conciseness instruction in user role',
     createdAt: Schema.decodeSync(Schema.DateTimeUtc)(new Date().toISOString()),
@@ -266,11 +259,8 @@ const createSampleTestCases = Effect.gen(function* () {
   };
 
   // Store A/B test cases
-  const testCaseAParams = yield* queryParams({ props: abTestCaseA });
-  yield* neo4j.runQuery(createTestCaseQuery, testCaseAParams);
-
-  const testCaseBParams = yield* queryParams({ props: abTestCaseB });
-  yield* neo4j.runQuery(createTestCaseQuery, testCaseBParams);
+  yield* createTestCase(abTestCaseA);
+  yield* createTestCase(abTestCaseB);
 
   yield* Console.log('Sample test cases created successfully!');
 });
@@ -287,6 +277,7 @@ const createConstraints = Effect.gen(function* () {
     'CREATE CONSTRAINT content_version_id IF NOT EXISTS FOR (v:ContentNodeVersion) REQUIRE v.id IS UNIQUE',
     'CREATE CONSTRAINT test_case_id IF NOT EXISTS FOR (t:TestCase) REQUIRE t.id IS UNIQUE',
     'CREATE CONSTRAINT tag_name IF NOT EXISTS FOR (tag:Tag) REQUIRE tag.name IS UNIQUE',
+    'CREATE CONSTRAINT tag_id IF NOT EXISTS FOR (tag:Tag) REQUIRE tag.id IS UNIQUE',
   ];
 
   for (const constraint of constraints) {
@@ -308,22 +299,30 @@ const createIndexes = Effect.gen(function* () {
   yield* Console.log('Creating database indexes...');
 
   const neo4j = yield* Neo4jService;
+  const embeddings = yield* Embeddings;
 
   // Create indexes for better query performance
   const indexes = [
     'CREATE INDEX content_node_description IF NOT EXISTS FOR (n:ContentNode) ON (n.description)',
     'CREATE INDEX content_version_created_at IF NOT EXISTS FOR (v:ContentNodeVersion) ON (v.createdAt)',
+    'CREATE INDEX content_version_hash IF NOT EXISTS FOR (v:ContentNodeVersion) ON (v.contentHash)',
     'CREATE INDEX test_case_name IF NOT EXISTS FOR (t:TestCase) ON (t.name)',
     'CREATE INDEX test_case_model IF NOT EXISTS FOR (t:TestCase) ON (t.llmModel)',
+    // Full-text index behind ContentService.searchContent
+    'CREATE FULLTEXT INDEX content_search IF NOT EXISTS FOR (n:ContentNodeVersion|ContentNode) ON EACH [n.content, n.description]',
+    // Vector index behind ContentService.semanticSearch, sized for the
+    // configured embedding model
+    `CREATE VECTOR INDEX content_embedding IF NOT EXISTS FOR (v:ContentNodeVersion) ON (v.embedding) OPTIONS {indexConfig: {\`vector.dimensions\`: ${embeddings.dimensions}, \`vector.similarity_function\`: 'cosine'}}`,
   ];
 
   for (const index of indexes) {
+    const name = index.match(/INDEX (\S+)/)?.[1];
     try {
       yield* neo4j.runQuery(cypher`${index}`, {});
-      yield* Console.log(`✓ Created index: ${index.split(' ')[2]}`);
+      yield* Console.log(`✓ Created index: ${name}`);
     } catch (error) {
       // Index might already exist, that's okay
-      yield* Console.log(`• Index may already exist: ${index.split(' ')[2]}`);
+      yield* Console.log(`• Index may already exist: ${name}`);
     }
   }
 
@@ -344,6 +343,14 @@ export const initializeDatabase = Effect.gen(function* () {
   yield* createConstraints;
   yield* createIndexes;
 
+  // Tags used to be created by name alone
+  const repaired = yield* backfillTagIds();
+  yield* Console.log(`Gave ${repaired} existing tags an id`);
+
+  // Embed versions that predate embeddings or the current model
+  const embedded = yield* backfillEmbeddings();
+  yield* Console.log(`Embedded ${embedded} existing content versions`);
+
   // Create sample content
   yield* createSampleContent;
   yield* createSampleTestCases;
@@ -0,0 +1,253 @@
+import { Effect, Either, HashMap, Schema } from 'effect';
+import { Neo4jService } from '../neo4j';
+import { NotFoundError, PersistenceError } from '../../domain/types/errors';
+import { cypher, queryParams } from '../../domain/types/database';
+import {
+  ContentDependents,
+  ContentNode,
+  ContentNodeId,
+  ContentNodeVersionId,
+  DependentDataPoint,
+  DependentSlot,
+  DependentTestCase,
+  DependentVersion,
+  UnreadableTestCase,
+} from '../../domain/types/contentNode';
+import { StoredTestCase } from '../../domain/types/testCase';
+import {
+  resolveSlotParameters,
+  slotSelectsNode,
+  withSlotParameters,
+} from './TestCaseBuilder';
+
+// The parts of a stored TestCase that decide which content it selects
+const TestCaseSlots = StoredTestCase.pipe(
+  Schema.pick('id', 'name', 'messageSlots', 'parameters'),
+);
+
+const NodeWithTags = Schema.Struct({
+  node: ContentNode,
+  tags: Schema.Array(Schema.String),
+  ancestorTags: Schema.Array(Schema.String),
+});
+
+/**
+ * Helper to keep typed errors and wrap anything else as a read failure
+ */
+const mapToReadError = <A, E, R>(
+  effect: Effect.Effect<A, E, R>,
+): Effect.Effect<A, PersistenceError | NotFoundError, R> =>
+  effect.pipe(
+    Effect.mapError((error) => {
+      if (error instanceof PersistenceError || error instanceof NotFoundError) {
+        return error;
+      }
+      return new PersistenceError({
+        originalMessage: String(error),
+        operation: 'read',
+      });
+    }),
+  );
+
+/**
+ * Find everything a change to a content node can reach
+ * Walks INCLUDES edges in reverse from every version of the node, one query
+ * per level, nearest ancestors first. A floating reference to a node counts
+ * as soon as any version of that node is affected. Test cases are listed
+ * with the slots that would select the node or one of its unarchived
+ * ancestors, and data points with the affected versions they used. Slot
+ * filters that refer to parameters are resolved as the test case would
+ * resolve them, from its parameters overridden by the slot's own.
+ * Test cases are read as stored by StoredTestCase, with message slots as
+ * JSON text. One that does not decode is listed as unreadable rather than
+ * failing the whole search.
+ */
+export const findDependents = (
+  nodeId: ContentNodeId,
+): Effect.Effect<
+  ContentDependents,
+  PersistenceError | NotFoundError,
+  Neo4jService
+> =>
+  Effect.gen(function* () {
+    const neo4j = yield* Neo4jService;
+
+    const targetQuery = cypher`
+      MATCH (n:ContentNode {id: $nodeId})
+      OPTIONAL MATCH (n)<-[:VERSION_OF]-(v:ContentNodeVersion)
+      RETURN n.id as id, collect(v.id) as versionIds
+    `;
+    const parentsQuery = cypher`
+      CALL {
+        UNWIND $versionIds as childId
+        MATCH (parent:ContentNodeVersion)-[:INCLUDES]->(:ContentNodeVersion {id: childId})
+        RETURN parent
+        UNION
+        UNWIND $nodeIds as childNodeId
+        MATCH (parent:ContentNodeVersion)-[:INCLUDES]->(:ContentNode {id: childNodeId})
+        RETURN parent
+      }
+      MATCH (parent)-[:VERSION_OF]->(owner:ContentNode)
+      RETURN owner.id as nodeId, owner.name as nodeName, parent as version
+    `;
+    const nodesQuery = cypher`
+      UNWIND $nodeIds as nodeId
+      MATCH (node:ContentNode {id: nodeId})
+      OPTIONAL MATCH (node)-[:HAS_TAG]->(tag:Tag)
+      OPTIONAL MATCH (tag)-[:CHILD_OF*1..]->(ancestor:Tag)
+      RETURN node, collect(DISTINCT tag.name) as tags,
+        collect(DISTINCT ancestor.name) as ancestorTags
+    `;
+    const testCasesQuery = cypher`
+      MATCH (t:TestCase)
+      RETURN t.id as id, t.name as name, t.messageSlots as messageSlots,
+        t.parameters as parameters
+      ORDER BY t.name
+    `;
+    const dataPointsQuery = cypher`
+      UNWIND $versionIds as versionId
+      MATCH (dp:DataPoint)-[:USED_CONTENT]->(:ContentNodeVersion {id: versionId})
+      RETURN dp.id as id, collect(versionId) as versionIds
+      ORDER BY id
+    `;
+
+    const targetParams = yield* queryParams({ nodeId });
+    const target = yield* neo4j.runQuery<{ versionIds: unknown }>(
+      targetQuery,
+      targetParams,
+    );
+    if (target.length === 0) {
+      return yield* Effect.fail(
+        new NotFoundError({ entityType: 'content node', id: nodeId }),
+      );
+    }
+    const targetVersionIds = yield* Schema.decodeUnknown(
+      Schema.Array(ContentNodeVersionId),
+    )(target[0].versionIds);
+
+    const seenVersions = new Set<string>(targetVersionIds);
+    const seenNodes = new Set<string>([nodeId]);
+    const versions: DependentVersion[] = [];
+    let levelVersionIds: ReadonlyArray<ContentNodeVersionId> = targetVersionIds;
+    let levelNodeIds: ReadonlyArray<ContentNodeId> = [nodeId];
+
+    while (levelVersionIds.length > 0 || levelNodeIds.length > 0) {
+      const parentsParams = yield* queryParams({
+        versionIds: levelVersionIds,
+        nodeIds: levelNodeIds,
+      });
+      const rows = yield* neo4j.runQuery<unknown>(parentsQuery, parentsParams);
+      const parents = yield* Schema.decodeUnknown(
+        Schema.Array(DependentVersion),
+      )(rows);
+
+      const nextVersionIds: ContentNodeVersionId[] = [];
+      const nextNodeIds: ContentNodeId[] = [];
+      for (const parent of parents) {
+        if (seenVersions.has(parent.version.id)) continue;
+        seenVersions.add(parent.version.id);
+        versions.push(parent);
+        nextVersionIds.push(parent.version.id);
+        if (!seenNodes.has(parent.nodeId)) {
+          seenNodes.add(parent.nodeId);
+          nextNodeIds.push(parent.nodeId);
+        }
+      }
+      levelVersionIds = nextVersionIds;
+      levelNodeIds = nextNodeIds;
+    }
+
+    // The node itself and its ancestors, with the tags slots select by
+    const nodesParams = yield* queryParams({ nodeIds: [...seenNodes] });
+    const nodeRows = yield* neo4j.runQuery<unknown>(nodesQuery, nodesParams);
+    const affected = yield* Schema.decodeUnknown(Schema.Array(NodeWithTags))(
+      nodeRows,
+    );
+
+    const testCaseRows = yield* neo4j.runQuery<{ id: unknown }>(
+      testCasesQuery,
+      {},
+    );
+    const decodedTestCases = testCaseRows.map((row) =>
+      Schema.decodeUnknownEither(TestCaseSlots)(row).pipe(
+        Either.mapLeft((error): UnreadableTestCase => ({
+          id: String(row.id),
+          reason: error.message,
+        })),
+      ),
+    );
+    const testCases = decodedTestCases.flatMap(
+      Either.match({
+        onLeft: () => [],
+        onRight: (testCase) => [testCase],
+      }),
+    );
+    const unreadableTestCases = decodedTestCases.flatMap(
+      Either.match({
+        onLeft: (unreadable) => [unreadable],
+        onRight: () => [],
+      }),
+    );
+    if (unreadableTestCases.length > 0) {
+      yield* Effect.logWarning(
+        `Skipped unreadable test cases: ${unreadableTestCases.map(({ id }) => id).join(', ')}`,
+      );
+    }
+    const dependentTestCases = testCases.flatMap(
+      (testCase): DependentTestCase[] => {
+        const slots = testCase.messageSlots.flatMap((slot): DependentSlot[] => {
+          const resolved = Either.getOrElse(
+            resolveSlotParameters(
+              slot,
+              withSlotParameters(testCase.parameters ?? HashMap.empty(), slot),
+            ),
+            () => slot,
+          );
+          const nodeNames = affected
+            .filter(
+              ({ node, tags, ancestorTags }) =>
+                node.archivedAt === undefined &&
+                slotSelectsNode(resolved, node, tags, ancestorTags),
+            )
+            .map(({ node }) => node.name);
+          return nodeNames.length > 0
+            ? [{ sequence: slot.sequence, role: slot.role, nodeNames }]
+            : [];
+        });
+        return slots.length > 0
+          ? [{ id: testCase.id, name: testCase.name, slots }]
+          : [];
+      },
+    );
+
+    const dataPointsParams = yield* queryParams({
+      versionIds: [...seenVersions],
+    });
+    const dataPointRows = yield* neo4j.runQuery<unknown>(
+      dataPointsQuery,
+      dataPointsParams,
+    );
+    const dataPoints = yield* Schema.decodeUnknown(
+      Schema.Array(DependentDataPoint),
+    )(dataPointRows);
+
+    yield* Effect.annotateCurrentSpan({
+      nodeId,
+      versionCount: versions.length,
+      testCaseCount: dependentTestCases.length,
+      dataPointCount: dataPoints.length,
+    });
+
+    return {
+      nodeId,
+      versions,
+      nodes: affected
+        .map(({ node }) => node)
+        .filter((node) => node.id !== nodeId),
+      testCases: dependentTestCases,
+      unreadableTestCases,
+      dataPoints,
+    };
+  })
+    .pipe(mapToReadError)
+    .pipe(Effect.withSpan('ContentService.findDependents'));
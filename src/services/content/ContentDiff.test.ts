@@ -0,0 +1,67 @@
+import { describe, it, expect } from '@effect/vitest';
+import { diffLines, toLines, unifiedDiff } from './ContentDiff';
+
+const labels = { from: 'a/prompt', to: 'b/prompt' };
+
+describe('ContentDiff', () => {
+  describe('toLines', () => {
+    it('should treat missing and empty content as no lines', () => {
+      expect(toLines(undefined)).toEqual([]);
+      expect(toLines('')).toEqual([]);
+      expect(toLines('a\nb')).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('diffLines', () => {
+    it('should keep common lines and mark the rest', () => {
+      expect(diffLines(['a', 'b', 'c'], ['a', 'x', 'c'])).toEqual([
+        { _tag: 'Keep', line: 'a' },
+        { _tag: 'Remove', line: 'b' },
+        { _tag: 'Add', line: 'x' },
+        { _tag: 'Keep', line: 'c' },
+      ]);
+    });
+  });
+
+  describe('unifiedDiff', () => {
+    it('should be empty for identical input', () => {
+      expect(unifiedDiff(['a', 'b'], ['a', 'b'], labels)).toBe('');
+    });
+
+    it('should produce a hunk with context and line ranges', () => {
+      expect(
+        unifiedDiff(
+          ['one', 'two', 'three', 'four', 'five'],
+          ['one', 'two', 'THREE', 'four', 'five'],
+          labels,
+          1,
+        ),
+      ).toBe(
+        [
+          '--- a/prompt',
+          '+++ b/prompt',
+          '@@ -2,3 +2,3 @@',
+          ' two',
+          '-three',
+          '+THREE',
+          ' four',
+        ].join('\n'),
+      );
+    });
+
+    it('should split distant changes into separate hunks', () => {
+      const before = ['a', 'b', 'c', 'd', 'e', 'f', 'g'];
+      const after = ['A', 'b', 'c', 'd', 'e', 'f', 'G'];
+      const hunks = unifiedDiff(before, after, labels, 1)
+        .split('\n')
+        .filter((line) => line.startsWith('@@'));
+      expect(hunks).toEqual(['@@ -1,2 +1,2 @@', '@@ -6,2 +6,2 @@']);
+    });
+
+    it('should point an empty side at the preceding line', () => {
+      expect(unifiedDiff([], ['new'], labels)).toBe(
+        ['--- a/prompt', '+++ b/prompt', '@@ -0,0 +1,1 @@', '+new'].join('\n'),
+      );
+    });
+  });
+});
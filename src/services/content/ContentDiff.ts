@@ -0,0 +1,115 @@
+/**
+ * Line-level unified diffs for content versions
+ *
+ * Pure functions; the longest common subsequence of the two line lists
+ * decides which lines are kept, removed and added.
+ */
+
+export type DiffLine =
+  | { readonly _tag: 'Keep'; readonly line: string }
+  | { readonly _tag: 'Remove'; readonly line: string }
+  | { readonly _tag: 'Add'; readonly line: string };
+
+const DIFF_PREFIX: Record<DiffLine['_tag'], string> = {
+  Keep: ' ',
+  Remove: '-',
+  Add: '+',
+};
+
+/**
+ * Split text into lines; empty or missing text has no lines
+ */
+export const toLines = (text: string | undefined): string[] =>
+  text ? text.split('\n') : [];
+
+/**
+ * Diff two line lists, removals before additions within a change
+ */
+export const diffLines = (
+  before: ReadonlyArray<string>,
+  after: ReadonlyArray<string>,
+): DiffLine[] => {
+  // lcs[i][j] = length of the LCS of before[i..] and after[j..]
+  const lcs = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0),
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        before[i] === after[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      lines.push({ _tag: 'Keep', line: before[i] });
+      i++;
+      j++;
+    } else if (
+      i < before.length &&
+      (j >= after.length || lcs[i + 1][j] >= lcs[i][j + 1])
+    ) {
+      lines.push({ _tag: 'Remove', line: before[i] });
+      i++;
+    } else {
+      lines.push({ _tag: 'Add', line: after[j] });
+      j++;
+    }
+  }
+  return lines;
+};
+
+/**
+ * Render a unified diff with `context` lines around each change
+ * Returns an empty string when both sides are identical
+ */
+export const unifiedDiff = (
+  before: ReadonlyArray<string>,
+  after: ReadonlyArray<string>,
+  labels: { readonly from: string; readonly to: string },
+  context: number = 3,
+): string => {
+  const lines = diffLines(before, after);
+  const changed = lines.flatMap((line, index) =>
+    line._tag === 'Keep' ? [] : [index],
+  );
+  if (changed.length === 0) {
+    return '';
+  }
+
+  // Group changes whose context windows touch into one hunk
+  const ranges: Array<{ start: number; end: number }> = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length, index + context + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last.end) {
+      last.end = end;
+    } else {
+      ranges.push({ start, end });
+    }
+  }
+
+  const output = [`--- ${labels.from}`, `+++ ${labels.to}`];
+  for (const { start, end } of ranges) {
+    const preceding = lines.slice(0, start);
+    const hunk = lines.slice(start, end);
+    const fromBefore = preceding.filter((l) => l._tag !== 'Add').length;
+    const toBefore = preceding.filter((l) => l._tag !== 'Remove').length;
+    const fromLength = hunk.filter((l) => l._tag !== 'Add').length;
+    const toLength = hunk.filter((l) => l._tag !== 'Remove').length;
+    // An empty side points at the line before the hunk, as diff -u does
+    const fromStart = fromLength > 0 ? fromBefore + 1 : fromBefore;
+    const toStart = toLength > 0 ? toBefore + 1 : toBefore;
+    output.push(
+      `@@ -${fromStart},${fromLength} +${toStart},${toLength} @@`,
+      ...hunk.map((l) => DIFF_PREFIX[l._tag] + l.line),
+    );
+  }
+  return output.join('\n');
+};
@@ -0,0 +1,235 @@
+import { Effect, Option, Schema } from 'effect';
+import { Neo4jService } from '../neo4j';
+import { Embedding, Embeddings } from '../embeddings';
+import { EmbeddingError, PersistenceError } from '../../domain/types/errors';
+import { cypher, queryParams } from '../../domain/types/database';
+import {
+  ContentNodeVersion,
+  SemanticSearchHit,
+} from '../../domain/types/contentNode';
+import { ContentNodeId, Slug } from '../../domain/types/branded';
+
+/**
+ * Name of the vector index over ContentNodeVersion.embedding
+ */
+export const CONTENT_EMBEDDING_INDEX = 'content_embedding';
+
+const DEFAULT_SEMANTIC_LIMIT = 10;
+const DEFAULT_BACKFILL_BATCH_SIZE = 100;
+
+/**
+ * Helper to keep typed errors and wrap anything else as a read failure
+ */
+const mapToPersistenceError =
+  (operation: 'read' | 'update') =>
+  <A, E, R>(
+    effect: Effect.Effect<A, E, R>,
+  ): Effect.Effect<A, PersistenceError | EmbeddingError, R> =>
+    effect.pipe(
+      Effect.mapError((error) => {
+        if (
+          error instanceof PersistenceError ||
+          error instanceof EmbeddingError
+        ) {
+          return error;
+        }
+        return new PersistenceError({
+          originalMessage: String(error),
+          operation,
+        });
+      }),
+    );
+
+/**
+ * Embed version content with the Embeddings service if one is provided
+ * None when there is no service or no content; an embedding failure is
+ * logged and left for backfillEmbeddings rather than failing the write.
+ */
+export const embedContent = (
+  content: string | undefined,
+): Effect.Effect<Option.Option<Embedding>> =>
+  content === undefined
+    ? Effect.succeedNone
+    : Effect.serviceOption(Embeddings).pipe(
+        Effect.flatMap(
+          Option.match({
+            onNone: () => Effect.succeedNone,
+            onSome: (embeddings) =>
+              embeddings.embed([content]).pipe(
+                Effect.map(([vector]) =>
+                  Option.some({ model: embeddings.model, vector }),
+                ),
+                Effect.catchAll((error) =>
+                  Effect.logWarning(error.message).pipe(
+                    Effect.as(Option.none()),
+                  ),
+                ),
+              ),
+          }),
+        ),
+      );
+
+/**
+ * Embed every version with content that has no embedding from the current
+ * model, in batches; returns the number of versions embedded
+ * Versions are visited in id order, so a run always finishes even if some
+ * writes are lost.
+ */
+export const backfillEmbeddings = (
+  options: { batchSize?: number } = {},
+): Effect.Effect<
+  number,
+  PersistenceError | EmbeddingError,
+  Neo4jService | Embeddings
+> =>
+  Effect.gen(function* () {
+    const neo4j = yield* Neo4jService;
+    const embeddings = yield* Embeddings;
+    const batchSize = Math.max(
+      1,
+      options.batchSize ?? DEFAULT_BACKFILL_BATCH_SIZE,
+    );
+
+    const pendingQuery = cypher`
+      MATCH (v:ContentNodeVersion)
+      WHERE v.content IS NOT NULL
+        AND coalesce(v.embeddingModel, '') <> $model
+        AND v.id > $after
+      RETURN v.id as versionId, v.content as content
+      ORDER BY v.id
+      LIMIT toInteger($batchSize)
+    `;
+    const storeQuery = cypher`
+      UNWIND $rows as row
+      MATCH (v:ContentNodeVersion {id: row.versionId})
+      SET v.embedding = row.embedding, v.embeddingModel = $model
+    `;
+
+    let after = '';
+    let embedded = 0;
+    while (true) {
+      const pendingParams = yield* queryParams({
+        model: embeddings.model,
+        after,
+        batchSize,
+      });
+      const pending = yield* neo4j.runQuery<{
+        versionId: string;
+        content: string;
+      }>(pendingQuery, pendingParams);
+      if (pending.length === 0) {
+        break;
+      }
+
+      const vectors = yield* embeddings.embed(
+        pending.map((row) => row.content),
+      );
+      const storeParams = yield* queryParams({
+        model: embeddings.model,
+        rows: pending.map((row, i) => ({
+          versionId: row.versionId,
+          embedding: vectors[i],
+        })),
+      });
+      yield* neo4j.runQuery(storeQuery, storeParams);
+
+      embedded += pending.length;
+      after = pending[pending.length - 1].versionId;
+      if (pending.length < batchSize) {
+        break;
+      }
+    }
+
+    yield* Effect.annotateCurrentSpan({ model: embeddings.model, embedded });
+    return embedded;
+  })
+    .pipe(mapToPersistenceError('update'))
+    .pipe(Effect.withSpan('ContentService.backfillEmbeddings'));
+
+/**
+ * Find the k versions whose content is most similar to the query, best first
+ * Only versions embedded by the current model are considered; run
+ * backfillEmbeddings after switching models. A query that embeds as the zero
+ * vector, such as one without words, has no direction and matches nothing.
+ */
+export const semanticSearch = (
+  query: string,
+  k: number = DEFAULT_SEMANTIC_LIMIT,
+): Effect.Effect<
+  ReadonlyArray<SemanticSearchHit>,
+  PersistenceError | EmbeddingError,
+  Neo4jService | Embeddings
+> =>
+  Effect.gen(function* () {
+    const neo4j = yield* Neo4jService;
+    const embeddings = yield* Embeddings;
+    const limit = Math.max(0, k);
+
+    yield* Effect.annotateCurrentSpan({ model: embeddings.model, k: limit });
+
+    if (limit === 0 || query.trim() === '') {
+      return [];
+    }
+
+    const [embedding] = yield* embeddings.embed([query]);
+    if (embedding.every((value) => value === 0)) {
+      return [];
+    }
+
+    // The embedding is dropped from the returned version; callers never
+    // need the vector and it dwarfs the rest of the node
+    const searchQuery = cypher`
+      CALL db.index.vector.queryNodes($index, toInteger($k), $embedding) YIELD node, score
+      MATCH (node)-[:VERSION_OF]->(owner:ContentNode)
+      RETURN owner.id as nodeId, owner.name as nodeName,
+        node {.*, embedding: null} as version, node.embeddingModel as model,
+        score
+      ORDER BY score DESC
+    `;
+
+    // The index holds every model's vectors, so neighbours from other models
+    // take up places among the k nearest. Ask for more until k are from the
+    // current model or the index has no more to give.
+    let fetch = limit;
+    let results: ReadonlyArray<{
+      nodeId: unknown;
+      nodeName: unknown;
+      version: unknown;
+      model: unknown;
+      score: number;
+    }> = [];
+    while (true) {
+      const params = yield* queryParams({
+        index: CONTENT_EMBEDDING_INDEX,
+        k: fetch,
+        embedding,
+      });
+      const rows = yield* neo4j.runQuery<{
+        nodeId: unknown;
+        nodeName: unknown;
+        version: unknown;
+        model: unknown;
+        score: number;
+      }>(searchQuery, params);
+      results = rows
+        .filter((row) => row.model === embeddings.model)
+        .slice(0, limit);
+      if (results.length === limit || rows.length < fetch) {
+        break;
+      }
+      fetch *= 4;
+    }
+
+    return yield* Effect.forEach(results, (row) =>
+      Effect.gen(function* () {
+        return {
+          nodeId: yield* Schema.decodeUnknown(ContentNodeId)(row.nodeId),
+          nodeName: yield* Schema.decodeUnknown(Slug)(row.nodeName),
+          version: yield* Schema.decodeUnknown(ContentNodeVersion)(row.version),
+          score: Number(row.score),
+        } satisfies SemanticSearchHit;
+      }),
+    );
+  })
+    .pipe(mapToPersistenceError('read'))
+    .pipe(Effect.withSpan('ContentService.semanticSearch'));
@@ -0,0 +1,197 @@
+import { Effect, Schema } from 'effect';
+import { Neo4jService } from '../neo4j';
+import { NotFoundError, PersistenceError } from '../../domain/types/errors';
+import { cypher, queryParams } from '../../domain/types/database';
+import {
+  ContentNodeId,
+  ContentNodeVersion,
+  ContentNodeVersionId,
+  ContentVersionDiff,
+  IncludesEdgeSummary,
+  VersionHistoryPage,
+} from '../../domain/types/contentNode';
+import { Slug } from '../../domain/types/branded';
+import { toLines, unifiedDiff } from './ContentDiff';
+
+const DEFAULT_HISTORY_LIMIT = 20;
+
+/**
+ * Helper to keep typed errors and wrap anything else as a read failure
+ */
+const mapToReadError = <A, E, R>(
+  effect: Effect.Effect<A, E, R>,
+): Effect.Effect<A, PersistenceError | NotFoundError, R> =>
+  effect.pipe(
+    Effect.mapError((error) => {
+      if (error instanceof PersistenceError || error instanceof NotFoundError) {
+        return error;
+      }
+      return new PersistenceError({
+        originalMessage: String(error),
+        operation: 'read',
+      });
+    }),
+  );
+
+/**
+ * Get a page of a ContentNode's versions, newest first
+ */
+export const getVersionHistory = (
+  nodeId: ContentNodeId,
+  options: { limit?: number; offset?: number } = {},
+): Effect.Effect<
+  VersionHistoryPage,
+  PersistenceError | NotFoundError,
+  Neo4jService
+> =>
+  Effect.gen(function* () {
+    const neo4j = yield* Neo4jService;
+    const limit = Math.max(0, options.limit ?? DEFAULT_HISTORY_LIMIT);
+    const offset = Math.max(0, options.offset ?? 0);
+
+    yield* Effect.annotateCurrentSpan({ nodeId, limit, offset });
+
+    const query = cypher`
+      MATCH (p:ContentNode {id: $nodeId})
+      OPTIONAL MATCH (p)<-[:VERSION_OF]-(v:ContentNodeVersion)
+      WITH p, v ORDER BY v.createdAt DESC
+      WITH p, collect(v) as versions
+      RETURN size(versions) as total,
+        versions[toInteger($offset)..toInteger($offset) + toInteger($limit)] as page
+    `;
+    const params = yield* queryParams({ nodeId, limit, offset });
+    const results = yield* neo4j.runQuery<{ total: number; page: unknown[] }>(
+      query,
+      params,
+    );
+
+    if (results.length === 0) {
+      return yield* Effect.fail(
+        new NotFoundError({ entityType: 'content node', id: nodeId }),
+      );
+    }
+
+    const { total, page } = results[0];
+    const versions = yield* Schema.decodeUnknown(
+      Schema.Array(ContentNodeVersion),
+    )(page);
+    return {
+      versions,
+      total: Number(total),
+      hasMore: offset + versions.length < Number(total),
+    };
+  })
+    .pipe(mapToReadError)
+    .pipe(Effect.withSpan('ContentService.getVersionHistory'));
+
+/**
+ * Fetch a version with its node name, failing if it does not exist
+ */
+const findVersionWithName = (versionId: ContentNodeVersionId) =>
+  Effect.gen(function* () {
+    const neo4j = yield* Neo4jService;
+    const query = cypher`
+      MATCH (node:ContentNodeVersion {id: $versionId})-[:VERSION_OF]->(owner:ContentNode)
+      RETURN node, owner.name as nodeName
+    `;
+    const params = yield* queryParams({ versionId });
+    const results = yield* neo4j.runQuery<{ node: unknown; nodeName: unknown }>(
+      query,
+      params,
+    );
+    if (results.length === 0) {
+      return yield* Effect.fail(
+        new NotFoundError({ entityType: 'content node', id: versionId }),
+      );
+    }
+    const version = yield* Schema.decodeUnknown(ContentNodeVersion)(
+      results[0].node,
+    );
+    const nodeName = yield* Schema.decodeUnknown(Slug)(results[0].nodeName);
+    return { version, nodeName };
+  });
+
+/**
+ * List a version's outgoing INCLUDES edges, pinned and floating
+ */
+const findOutgoingEdges = (versionId: ContentNodeVersionId) =>
+  Effect.gen(function* () {
+    const neo4j = yield* Neo4jService;
+    const query = cypher`
+      MATCH (parent:ContentNodeVersion {id: $versionId})-[r:INCLUDES]->(target)
+      OPTIONAL MATCH (target)-[:VERSION_OF]->(owner:ContentNode)
+      RETURN target.id as targetId,
+        coalesce(owner.name, target.name) as targetName,
+        owner IS NULL as floating,
+        properties(r) as properties
+    `;
+    const params = yield* queryParams({ versionId });
+    const results = yield* neo4j.runQuery<unknown>(query, params);
+    return yield* Schema.decodeUnknown(Schema.Array(IncludesEdgeSummary))(
+      results,
+    );
+  });
+
+/**
+ * One diffable line per edge; identical lines mean identical edges
+ */
+const describeEdge = (edge: IncludesEdgeSummary): string => {
+  const { operation, key, order, separator } = edge.properties;
+  return [
+    operation,
+    `${edge.targetName}@${edge.targetId}`,
+    ...(edge.floating ? ['floating'] : []),
+    ...(key !== undefined ? [`key=${key}`] : []),
+    ...(order !== undefined ? [`order=${order}`] : []),
+    ...(separator !== undefined
+      ? [`separator=${JSON.stringify(separator)}`]
+      : []),
+  ].join(' ');
+};
+
+/**
+ * Diff two versions: a line-level unified diff of their content, and of
+ * their INCLUDES edge sets
+ */
+export const diffContentNodeVersions = (
+  fromId: ContentNodeVersionId,
+  toId: ContentNodeVersionId,
+): Effect.Effect<
+  ContentVersionDiff,
+  PersistenceError | NotFoundError,
+  Neo4jService
+> =>
+  Effect.gen(function* () {
+    yield* Effect.annotateCurrentSpan({ fromId, toId });
+
+    const from = yield* findVersionWithName(fromId);
+    const to = yield* findVersionWithName(toId);
+    const fromEdges = yield* findOutgoingEdges(fromId);
+    const toEdges = yield* findOutgoingEdges(toId);
+
+    const labels = {
+      from: `a/${from.nodeName}@${fromId}`,
+      to: `b/${to.nodeName}@${toId}`,
+    };
+    const fromEdgeLines = new Set(fromEdges.map(describeEdge));
+    const toEdgeLines = new Set(toEdges.map(describeEdge));
+
+    return {
+      from: fromId,
+      to: toId,
+      content: unifiedDiff(
+        toLines(from.version.content),
+        toLines(to.version.content),
+        labels,
+      ),
+      edges: unifiedDiff(
+        [...fromEdgeLines].sort(),
+        [...toEdgeLines].sort(),
+        labels,
+      ),
+      addedEdges: toEdges.filter((e) => !fromEdgeLines.has(describeEdge(e))),
+      removedEdges: fromEdges.filter((e) => !toEdgeLines.has(describeEdge(e))),
+    };
+  })
+    .pipe(mapToReadError)
+    .pipe(Effect.withSpan('ContentService.diffContentNodeVersions'));
@@ -0,0 +1,295 @@
+import { Effect, Either, Schema } from 'effect';
+import { Neo4jService } from '../neo4j';
+import { PersistenceError } from '../../domain/types/errors';
+import { cypher, queryParams } from '../../domain/types/database';
+import {
+  ContentNodeId,
+  ContentNodeVersionId,
+  LintFinding,
+  LintSeverity,
+} from '../../domain/types/contentNode';
+import { Slug } from '../../domain/types/branded';
+import {
+  Template,
+  TemplateNode,
+  parseTemplate,
+  templateParameters,
+} from './ContentTemplate';
+
+// Each node with its latest version, if any, and how many tags it has
+const LatestVersionRow = Schema.Struct({
+  nodeId: ContentNodeId,
+  nodeName: Slug,
+  archived: Schema.Boolean,
+  versionId: Schema.NullOr(ContentNodeVersionId),
+  content: Schema.NullOr(Schema.String),
+  tagCount: Schema.Number,
+});
+type LatestVersionRow = typeof LatestVersionRow.Type;
+
+// An INCLUDES edge; targetId is a ContentNode id for floating edges
+const EdgeRow = Schema.Struct({
+  parentId: ContentNodeVersionId,
+  parentNodeId: ContentNodeId,
+  targetId: Schema.Union(ContentNodeId, ContentNodeVersionId),
+  operation: Schema.String,
+  key: Schema.NullOr(Schema.String),
+});
+type EdgeRow = typeof EdgeRow.Type;
+
+const SEVERITY_ORDER: Record<LintSeverity, number> = {
+  error: 0,
+  warning: 1,
+  info: 2,
+};
+
+/**
+ * Group edges by one of their ids
+ */
+const indexEdges = (
+  edges: ReadonlyArray<EdgeRow>,
+  by: (edge: EdgeRow) => string,
+): Map<string, EdgeRow[]> => {
+  const index = new Map<string, EdgeRow[]>();
+  for (const edge of edges) {
+    index.set(by(edge), [...(index.get(by(edge)) ?? []), edge]);
+  }
+  return index;
+};
+
+/**
+ * A template without the placeholders that have a default, which render
+ * whether or not their parameter is provided
+ */
+const withoutDefaulted = (template: Template): Template =>
+  template.flatMap((node): TemplateNode[] => {
+    switch (node._tag) {
+      case 'Variable':
+        return node.pipe.some((step) => step._tag === 'Default') ? [] : [node];
+      case 'If':
+        return [
+          {
+            ...node,
+            then: withoutDefaulted(node.then),
+            otherwise: withoutDefaulted(node.otherwise),
+          },
+        ];
+      case 'Each':
+        return [{ ...node, body: withoutDefaulted(node.body) }];
+      default:
+        return [node];
+    }
+  });
+
+/**
+ * Scan the content graph for problems, errors first
+ * Checks the latest version of every node that is not archived: template
+ * syntax, placeholders without a default that no insert edge on the version
+ * or on a version including it provides, insert edges without a key or whose key the parent
+ * content never uses, branches with neither content nor children, text
+ * shared with another node, and nodes without tags.
+ */
+export const lintContent = (): Effect.Effect<
+  ReadonlyArray<LintFinding>,
+  PersistenceError,
+  Neo4jService
+> =>
+  Effect.gen(function* () {
+    const neo4j = yield* Neo4jService;
+
+    const latestQuery = cypher`
+      MATCH (n:ContentNode)
+      OPTIONAL MATCH (n)<-[:VERSION_OF]-(v:ContentNodeVersion)
+      WITH n, v ORDER BY v.createdAt DESC
+      WITH n, collect(v)[0] as latest
+      OPTIONAL MATCH (n)-[:HAS_TAG]->(tag:Tag)
+      RETURN n.id as nodeId, n.name as nodeName,
+        n.archivedAt IS NOT NULL as archived,
+        latest.id as versionId, latest.content as content,
+        count(tag) as tagCount
+      ORDER BY nodeName
+    `;
+    // Every version's edges, so placeholders can be matched against the
+    // inserts of old versions that still include the latest ones
+    const edgesQuery = cypher`
+      MATCH (parentNode:ContentNode)<-[:VERSION_OF]-(parent:ContentNodeVersion)-[r:INCLUDES]->(target)
+      RETURN parent.id as parentId, parentNode.id as parentNodeId,
+        target.id as targetId, r.operation as operation, r.key as key
+    `;
+    const params = yield* queryParams({});
+
+    const latestRows = yield* neo4j.runQuery<Record<string, unknown>>(
+      latestQuery,
+      params,
+    );
+    const nodes = yield* Schema.decodeUnknown(Schema.Array(LatestVersionRow))(
+      latestRows.map((row) => ({ ...row, tagCount: Number(row.tagCount) })),
+    );
+    const edgeRows = yield* neo4j.runQuery<unknown>(edgesQuery, params);
+    const edges = yield* Schema.decodeUnknown(Schema.Array(EdgeRow))(edgeRows);
+
+    const latestOfNode = new Map<string, ContentNodeVersionId>(
+      nodes.flatMap((n) => (n.versionId ? [[n.nodeId, n.versionId]] : [])),
+    );
+    const nodeOfVersion = new Map<string, ContentNodeId>([
+      ...nodes.flatMap((n) =>
+        n.versionId ? [[n.versionId, n.nodeId] as const] : [],
+      ),
+      ...edges.map((e) => [e.parentId, e.parentNodeId] as const),
+    ]);
+    const outgoing = indexEdges(edges, (e) => e.parentId);
+    const incoming = indexEdges(edges, (e) => e.targetId);
+
+    // Insert keys in scope for a version: its own and those of every version
+    // that includes it, pinned or through a floating edge to its node
+    const providedKeys = (versionId: ContentNodeVersionId): Set<string> => {
+      const keys = new Set<string>();
+      const seen = new Set<string>([versionId]);
+      const queue: string[] = [versionId];
+      for (const id of queue) {
+        for (const edge of outgoing.get(id) ?? []) {
+          if (edge.operation === 'insert' && edge.key) {
+            keys.add(edge.key);
+          }
+        }
+        const nodeId = nodeOfVersion.get(id);
+        const parents = [
+          ...(incoming.get(id) ?? []),
+          ...(nodeId && latestOfNode.get(nodeId) === id
+            ? (incoming.get(nodeId) ?? [])
+            : []),
+        ];
+        for (const { parentId } of parents) {
+          if (!seen.has(parentId)) {
+            seen.add(parentId);
+            queue.push(parentId);
+          }
+        }
+      }
+      return keys;
+    };
+
+    const findings: LintFinding[] = [];
+    const linted = nodes.filter((n) => !n.archived);
+    const at = (node: LatestVersionRow) => ({
+      nodeId: node.nodeId,
+      nodeName: node.nodeName,
+      ...(node.versionId ? { versionId: node.versionId } : {}),
+    });
+
+    for (const node of linted) {
+      if (node.tagCount === 0) {
+        findings.push({
+          rule: 'untagged-node',
+          severity: 'info',
+          message: `${node.nodeName} has no tags`,
+          ...at(node),
+        });
+      }
+      if (!node.versionId) {
+        continue;
+      }
+
+      const children = outgoing.get(node.versionId) ?? [];
+      if (!node.content && children.length === 0) {
+        findings.push({
+          rule: 'empty-branch',
+          severity: 'warning',
+          message: `${node.nodeName} has neither content nor children`,
+          ...at(node),
+        });
+      }
+
+      const template = parseTemplate(node.content ?? '');
+      if (Either.isLeft(template)) {
+        findings.push({
+          rule: 'template-syntax',
+          severity: 'error',
+          message: `Invalid template at position ${template.left.position}: ${template.left.reason}`,
+          ...at(node),
+        });
+      }
+      const parameters = Either.isRight(template)
+        ? templateParameters(template.right)
+        : [];
+
+      const provided = providedKeys(node.versionId);
+      const required = Either.isRight(template)
+        ? templateParameters(withoutDefaulted(template.right))
+        : [];
+      for (const name of required.filter((p) => !provided.has(p))) {
+        findings.push({
+          rule: 'unmatched-placeholder',
+          severity: 'warning',
+          message: `{{${name}}} is not provided by any insert edge`,
+          ...at(node),
+          key: name,
+        });
+      }
+
+      for (const edge of children.filter((e) => e.operation === 'insert')) {
+        if (!edge.key) {
+          findings.push({
+            rule: 'insert-without-key',
+            severity: 'error',
+            message: `Insert edge to ${edge.targetId} has no key and is skipped when rendering`,
+            ...at(node),
+            targetId: edge.targetId,
+          });
+        } else if (Either.isRight(template) && !parameters.includes(edge.key)) {
+          findings.push({
+            rule: 'unused-insert-key',
+            severity: 'warning',
+            message: `Insert key '${edge.key}' does not appear in the content`,
+            ...at(node),
+            key: edge.key,
+            targetId: edge.targetId,
+          });
+        }
+      }
+    }
+
+    const byContent = new Map<string, LatestVersionRow[]>();
+    for (const node of linted) {
+      if (node.content) {
+        byContent.set(node.content, [
+          ...(byContent.get(node.content) ?? []),
+          node,
+        ]);
+      }
+    }
+    for (const same of byContent.values()) {
+      for (const node of same.length > 1 ? same : []) {
+        const others = same.filter((n) => n !== node).map((n) => n.nodeName);
+        findings.push({
+          rule: 'duplicate-content',
+          severity: 'info',
+          message: `Same content as ${others.join(', ')}`,
+          ...at(node),
+        });
+      }
+    }
+
+    yield* Effect.annotateCurrentSpan({
+      nodeCount: linted.length,
+      findingCount: findings.length,
+    });
+
+    return findings.sort(
+      (a, b) =>
+        SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] ||
+        a.nodeName.localeCompare(b.nodeName),
+    );
+  })
+    .pipe(
+      Effect.mapError((error) => {
+        if (error instanceof PersistenceError) {
+          return error;
+        }
+        return new PersistenceError({
+          originalMessage: String(error),
+          operation: 'read',
+        });
+      }),
+    )
+    .pipe(Effect.withSpan('ContentService.lintContent'));
@@ -1,63 +1,547 @@
-import { Effect, Option } from 'effect';
+import { Effect, Either, Option, Schema } from 'effect';
 import { Neo4jService } from '../neo4j';
-import { NotFoundError, PersistenceError } from '../../domain/types/errors';
+import {
+  ContentInUseError,
+  NotFoundError,
+  ParameterValidationError,
+  PersistenceError,
+  SlugInUseError,
+} from '../../domain/types/errors';
 import { cypher, queryParams } from '../../domain/types/database';
-import { ContentNode, ContentNodeId } from '../../domain/types/contentNode';
+import {
+  ContentNode,
+  ContentNodeId,
+  ContentNodeVersionId,
+  ParameterDeclaration,
+} from '../../domain/types/contentNode';
 import { TestCaseTagName } from '../../domain/types/testCase';
 import { Slug } from '../../domain/types/branded';
 import {
   createNamedEntity,
   findEntityByName,
-  mustFindByName,
-  listAll,
 } from '../persistence/GenericPersistence';
+import { clearRenderCache } from '../render-cache';
+import { createTag, findTagByName } from '../tag';
+import {
+  ContentReferences,
+  findContentReferences,
+} from './ContentVersionHelpers';
+import { validateParameterDeclarations } from './ContentParameters';
+
+/**
+ * Find the ContentNodes that were renamed away from a name
+ */
+const findContentNodesWithAlias = (
+  name: Slug,
+): Effect.Effect<ReadonlyArray<ContentNode>, PersistenceError, Neo4jService> =>
+  Effect.gen(function* () {
+    const neo4j = yield* Neo4jService;
+    const query = cypher`
+      MATCH (n:ContentNode)
+      WHERE $name IN n.aliases
+      RETURN n
+    `;
+    const params = yield* queryParams({ name });
+    const results = yield* neo4j.runQuery<{ n: unknown }>(query, params);
+    return yield* Schema.decodeUnknown(Schema.Array(ContentNode))(
+      results.map(({ n }) => n),
+    );
+  }).pipe(
+    Effect.mapError((error) => {
+      if (error instanceof PersistenceError) {
+        return error;
+      }
+      return new PersistenceError({
+        originalMessage: String(error),
+        operation: 'read',
+      });
+    }),
+  );
 
 /**
  * Create a new ContentNode
+ * Fails with SlugInUseError when another node was renamed away from the
+ * name, so the old name keeps resolving to that node.
  */
 export const createContentNode = (
   name: Slug,
   description: string,
-): Effect.Effect<ContentNode, PersistenceError, Neo4jService> =>
-  createNamedEntity('ContentNode', ContentNode, {
-    name,
-    description,
+): Effect.Effect<
+  ContentNode,
+  PersistenceError | SlugInUseError,
+  Neo4jService
+> =>
+  Effect.gen(function* () {
+    const [formerOwner] = yield* findContentNodesWithAlias(name);
+    if (formerOwner) {
+      return yield* Effect.fail(
+        new SlugInUseError({ slug: name, existingId: formerOwner.id }),
+      );
+    }
+    return yield* createNamedEntity('ContentNode', ContentNode, {
+      name,
+      description,
+    });
   }).pipe(Effect.withSpan('ContentService.createContentNode'));
 
 /**
- * Find a ContentNode by name
+ * Find the ContentNode that was renamed away from a name, with a
+ * deprecation warning
+ * Fails when more than one node has the name as an alias, rather than
+ * picking one of them.
+ */
+const findContentNodeByAlias = (
+  name: Slug,
+): Effect.Effect<Option.Option<ContentNode>, PersistenceError, Neo4jService> =>
+  Effect.gen(function* () {
+    const nodes = yield* findContentNodesWithAlias(name);
+    if (nodes.length === 0) {
+      return Option.none();
+    }
+    if (nodes.length > 1) {
+      return yield* Effect.fail(
+        new PersistenceError({
+          originalMessage: `Content node name '${name}' is a former name of ${nodes.map((n) => `'${n.name}'`).join(', ')}`,
+          operation: 'read',
+        }),
+      );
+    }
+    const [node] = nodes;
+    yield* Effect.logWarning(
+      `Content node name '${name}' is deprecated, use '${node.name}'`,
+    );
+    return Option.some(node);
+  });
+
+/**
+ * Find a ContentNode by name, or by a name it had before a rename
  */
 export const findContentNodeByName = (
   name: Slug,
 ): Effect.Effect<Option.Option<ContentNode>, PersistenceError, Neo4jService> =>
   findEntityByName('ContentNode', ContentNode, name).pipe(
+    Effect.flatMap((node) =>
+      Option.isSome(node) ? Effect.succeed(node) : findContentNodeByAlias(name),
+    ),
     Effect.withSpan('ContentService.findContentNodeByName'),
   );
 
 /**
- * Get a ContentNode by name (fails if not found)
+ * Get a ContentNode by name or former name (fails if not found)
  */
 export const mustFindContentNodeByName = (
   name: Slug,
 ): Effect.Effect<ContentNode, NotFoundError | PersistenceError, Neo4jService> =>
-  mustFindByName('ContentNode', 'content node', ContentNode, name).pipe(
+  findContentNodeByName(name).pipe(
+    Effect.flatMap(
+      Option.match({
+        onNone: () =>
+          Effect.fail(
+            new NotFoundError({ entityType: 'content node', slug: name }),
+          ),
+        onSome: Effect.succeed,
+      }),
+    ),
     Effect.withSpan('ContentService.mustFindContentNodeByName'),
   );
 
 /**
- * List all ContentNodes
+ * Map the given names that are former names of a ContentNode to its
+ * current name, logging a deprecation warning for each
+ * Names still in use by a node are never treated as aliases. Fails when a
+ * name is a former name of more than one node.
  */
-export const listContentNodes = (): Effect.Effect<
-  readonly ContentNode[],
-  PersistenceError,
+export const resolveContentNodeAliases = (
+  names: ReadonlyArray<string>,
+): Effect.Effect<ReadonlyMap<string, Slug>, PersistenceError, Neo4jService> =>
+  Effect.gen(function* () {
+    const renamed = new Map<string, Slug>();
+    if (names.length === 0) {
+      return renamed;
+    }
+
+    const neo4j = yield* Neo4jService;
+    const query = cypher`
+      UNWIND $names as alias
+      MATCH (n:ContentNode)
+      WHERE alias IN n.aliases
+        AND NOT EXISTS { MATCH (:ContentNode {name: alias}) }
+      RETURN alias, n.name as name
+    `;
+    const params = yield* queryParams({ names: [...new Set(names)] });
+    const results = yield* neo4j.runQuery<{ alias: string; name: unknown }>(
+      query,
+      params,
+    );
+    for (const row of results) {
+      const name = yield* Schema.decodeUnknown(Slug)(row.name);
+      const other = renamed.get(row.alias);
+      if (other !== undefined && other !== name) {
+        return yield* Effect.fail(
+          new PersistenceError({
+            originalMessage: `Content node name '${row.alias}' is a former name of '${other}', '${name}'`,
+            operation: 'read',
+          }),
+        );
+      }
+      yield* Effect.logWarning(
+        `Content node name '${row.alias}' is deprecated, use '${name}'`,
+      );
+      renamed.set(row.alias, name);
+    }
+    return renamed;
+  }).pipe(
+    Effect.mapError((error) => {
+      if (error instanceof PersistenceError) {
+        return error;
+      }
+      return new PersistenceError({
+        originalMessage: String(error),
+        operation: 'read',
+      });
+    }),
+  );
+
+/**
+ * Rename a ContentNode, keeping its old name as an alias
+ * Lookups by an old name keep resolving to the node. Fails with
+ * SlugInUseError when another node has the new name, now or as an alias.
+ * Any other node that still lists the old name as an alias loses it, so
+ * the name answers to one node only.
+ */
+export const renameContentNode = (
+  oldName: Slug,
+  newName: Slug,
+): Effect.Effect<
+  ContentNode,
+  NotFoundError | PersistenceError | SlugInUseError,
   Neo4jService
 > =>
-  listAll('ContentNode', ContentNode).pipe(
-    Effect.withSpan('ContentService.listContentNodes'),
+  Effect.gen(function* () {
+    const neo4j = yield* Neo4jService;
+    const node = yield* mustFindContentNodeByName(oldName);
+
+    yield* Effect.annotateCurrentSpan({ nodeId: node.id, oldName, newName });
+
+    if (node.name === newName) {
+      return node;
+    }
+
+    const conflictQuery = cypher`
+      MATCH (n:ContentNode)
+      WHERE n.id <> $nodeId
+        AND (n.name = $newName OR $newName IN coalesce(n.aliases, []))
+      RETURN n.id as id
+      LIMIT 1
+    `;
+    const clearAliasQuery = cypher`
+      MATCH (other:ContentNode)
+      WHERE other.id <> $nodeId AND $name IN coalesce(other.aliases, [])
+      SET other.aliases = [alias IN other.aliases WHERE alias <> $name]
+    `;
+    // Taking back a former name drops it from the aliases
+    const renameQuery = cypher`
+      MATCH (n:ContentNode {id: $nodeId})
+      SET n.aliases = [alias IN coalesce(n.aliases, []) WHERE alias <> $newName] + n.name,
+        n.name = $newName
+      RETURN n
+    `;
+    const params = yield* queryParams({ nodeId: node.id, newName });
+    const clearAliasParams = yield* queryParams({
+      nodeId: node.id,
+      name: node.name,
+    });
+
+    const renamed = yield* neo4j.runInTransaction((tx) =>
+      Effect.gen(function* () {
+        const conflicts = yield* tx.run<{ id: ContentNodeId }>(
+          conflictQuery,
+          params,
+        );
+        if (conflicts.length > 0) {
+          return Either.left(conflicts[0].id);
+        }
+        yield* tx.run(clearAliasQuery, clearAliasParams);
+        const results = yield* tx.run<{ n: unknown }>(renameQuery, params);
+        return Either.right(results[0]?.n);
+      }),
+    );
+
+    if (Either.isLeft(renamed)) {
+      return yield* Effect.fail(
+        new SlugInUseError({ slug: newName, existingId: renamed.left }),
+      );
+    }
+    // Concatenated children are ordered by node name
+    yield* clearRenderCache;
+    return yield* Schema.decodeUnknown(ContentNode)(renamed.right);
+  })
+    .pipe(
+      Effect.mapError((error) => {
+        if (
+          error instanceof PersistenceError ||
+          error instanceof NotFoundError ||
+          error instanceof SlugInUseError
+        ) {
+          return error;
+        }
+        return new PersistenceError({
+          originalMessage: String(error),
+          operation: 'update',
+        });
+      }),
+    )
+    .pipe(Effect.withSpan('ContentService.renameContentNode'));
+
+/**
+ * List ContentNodes by name; archived nodes only with includeArchived
+ */
+export const listContentNodes = (
+  options: { includeArchived?: boolean } = {},
+): Effect.Effect<readonly ContentNode[], PersistenceError, Neo4jService> =>
+  Effect.gen(function* () {
+    const neo4j = yield* Neo4jService;
+    const query = cypher`
+      MATCH (n:ContentNode)
+      WHERE $includeArchived OR n.archivedAt IS NULL
+      RETURN n ORDER BY n.name
+    `;
+    const params = yield* queryParams({
+      includeArchived: !!options.includeArchived,
+    });
+    const results = yield* neo4j.runQuery<{ n: unknown }>(query, params);
+    return yield* Schema.decodeUnknown(Schema.Array(ContentNode))(
+      results.map((result) => result.n),
+    );
+  })
+    .pipe(
+      Effect.mapError((error) => {
+        if (error instanceof PersistenceError) {
+          return error;
+        }
+        return new PersistenceError({
+          originalMessage: String(error),
+          operation: 'read',
+        });
+      }),
+    )
+    .pipe(Effect.withSpan('ContentService.listContentNodes'));
+
+/**
+ * Set or clear a node's archivedAt and return the node
+ */
+const updateArchivedAt = (
+  nodeId: ContentNodeId,
+  archive: boolean,
+): Effect.Effect<ContentNode, NotFoundError | PersistenceError, Neo4jService> =>
+  Effect.gen(function* () {
+    const neo4j = yield* Neo4jService;
+    const query = archive
+      ? cypher`
+        MATCH (n:ContentNode {id: $nodeId})
+        SET n.archivedAt = coalesce(n.archivedAt, $archivedAt)
+        RETURN n
+      `
+      : cypher`
+        MATCH (n:ContentNode {id: $nodeId})
+        REMOVE n.archivedAt
+        RETURN n
+      `;
+    const params = yield* queryParams({
+      nodeId,
+      archivedAt: new Date().toISOString(),
+    });
+    const results = yield* neo4j.runQuery<{ n: unknown }>(query, params);
+    if (results.length === 0) {
+      return yield* Effect.fail(
+        new NotFoundError({ entityType: 'content node', id: nodeId }),
+      );
+    }
+    return yield* Schema.decodeUnknown(ContentNode)(results[0].n);
+  }).pipe(
+    Effect.mapError((error) => {
+      if (error instanceof PersistenceError || error instanceof NotFoundError) {
+        return error;
+      }
+      return new PersistenceError({
+        originalMessage: String(error),
+        operation: 'update',
+      });
+    }),
   );
 
+/**
+ * Archive a ContentNode
+ * Archived nodes are left out of listContentNodes and slot selection, but
+ * their versions still render wherever they are included. Archiving an
+ * archived node keeps its original archivedAt.
+ */
+export const archiveContentNode = (
+  nodeId: ContentNodeId,
+): Effect.Effect<ContentNode, NotFoundError | PersistenceError, Neo4jService> =>
+  updateArchivedAt(nodeId, true).pipe(
+    Effect.withSpan('ContentService.archiveContentNode'),
+  );
+
+/**
+ * Unarchive a ContentNode
+ */
+export const unarchiveContentNode = (
+  nodeId: ContentNodeId,
+): Effect.Effect<ContentNode, NotFoundError | PersistenceError, Neo4jService> =>
+  updateArchivedAt(nodeId, false).pipe(
+    Effect.withSpan('ContentService.unarchiveContentNode'),
+  );
+
+/**
+ * Replace the parameters a ContentNode declares; an empty list clears them
+ * Fails with ParameterValidationError when a name is declared twice or a
+ * default does not have its declared type.
+ */
+export const setContentParameters = (
+  name: Slug,
+  declarations: ReadonlyArray<ParameterDeclaration>,
+): Effect.Effect<
+  ContentNode,
+  NotFoundError | ParameterValidationError | PersistenceError,
+  Neo4jService
+> =>
+  Effect.gen(function* () {
+    const neo4j = yield* Neo4jService;
+    const node = yield* mustFindContentNodeByName(name);
+
+    yield* Effect.annotateCurrentSpan({
+      nodeId: node.id,
+      parameterCount: declarations.length,
+    });
+
+    yield* validateParameterDeclarations(node.name, declarations);
+
+    // Nested maps are not valid Neo4j properties, so the list is JSON
+    const query = cypher`
+      MATCH (n:ContentNode {id: $nodeId})
+      SET n.parameters = $parameters
+      RETURN n
+    `;
+    const params = yield* queryParams({
+      nodeId: node.id,
+      parameters: declarations.length > 0 ? JSON.stringify(declarations) : null,
+    });
+    const results = yield* neo4j.runQuery<{ n: unknown }>(query, params);
+    if (results.length === 0) {
+      return yield* Effect.fail(
+        new NotFoundError({ entityType: 'content node', id: node.id }),
+      );
+    }
+    return yield* Schema.decodeUnknown(ContentNode)(results[0].n);
+  })
+    .pipe(
+      Effect.mapError((error) => {
+        if (
+          error instanceof PersistenceError ||
+          error instanceof NotFoundError ||
+          error instanceof ParameterValidationError
+        ) {
+          return error;
+        }
+        return new PersistenceError({
+          originalMessage: String(error),
+          operation: 'update',
+        });
+      }),
+    )
+    .pipe(Effect.withSpan('ContentService.setContentParameters'));
+
+/**
+ * Permanently delete a ContentNode with all of its versions and their edges
+ * Refused with ContentInUseError while a version of another node includes
+ * the node or one of its versions, or a DataPoint used one of its versions;
+ * nothing is deleted in that case.
+ */
+export const deleteContentNode = (
+  nodeId: ContentNodeId,
+): Effect.Effect<
+  void,
+  NotFoundError | PersistenceError | ContentInUseError,
+  Neo4jService
+> =>
+  Effect.gen(function* () {
+    const neo4j = yield* Neo4jService;
+
+    yield* Effect.annotateCurrentSpan({ nodeId });
+
+    const versionsQuery = cypher`
+      MATCH (n:ContentNode {id: $nodeId})
+      OPTIONAL MATCH (n)<-[:VERSION_OF]-(v:ContentNodeVersion)
+      RETURN n.id as id, collect(v.id) as versionIds
+    `;
+    const deleteQuery = cypher`
+      MATCH (n:ContentNode {id: $nodeId})
+      OPTIONAL MATCH (n)<-[:VERSION_OF]-(v:ContentNodeVersion)
+      DETACH DELETE v, n
+    `;
+    const params = yield* queryParams({ nodeId });
+
+    // Check and delete in one transaction so nothing can start
+    // referencing the node in between
+    const references = yield* neo4j.runInTransaction((tx) =>
+      Effect.gen(function* () {
+        const found = yield* tx.run<{ versionIds: ContentNodeVersionId[] }>(
+          versionsQuery,
+          params,
+        );
+        if (found.length === 0) {
+          return Option.none<ContentReferences>();
+        }
+        const references = yield* findContentReferences(
+          tx,
+          nodeId,
+          found[0].versionIds,
+        );
+        if (
+          references.includedBy.length === 0 &&
+          references.dataPoints.length === 0
+        ) {
+          yield* tx.run(deleteQuery, params);
+        }
+        return Option.some(references);
+      }),
+    );
+
+    if (Option.isNone(references)) {
+      return yield* Effect.fail(
+        new NotFoundError({ entityType: 'content node', id: nodeId }),
+      );
+    }
+    const { includedBy, dataPoints } = references.value;
+    if (includedBy.length > 0 || dataPoints.length > 0) {
+      return yield* Effect.fail(
+        new ContentInUseError({ id: nodeId, includedBy, dataPoints }),
+      );
+    }
+    yield* clearRenderCache;
+  })
+    .pipe(
+      Effect.mapError((error) => {
+        if (
+          error instanceof PersistenceError ||
+          error instanceof NotFoundError ||
+          error instanceof ContentInUseError
+        ) {
+          return error;
+        }
+        return new PersistenceError({
+          originalMessage: String(error),
+          operation: 'delete',
+        });
+      }),
+    )
+    .pipe(Effect.withSpan('ContentService.deleteContentNode'));
+
 /**
  * Tag content for organization
+ * Links existing tags by name and creates the missing ones with an empty
+ * description.
  */
 export const tagContent = (
   nodeId: ContentNodeId,
@@ -68,17 +552,24 @@ export const tagContent = (
 
     yield* Effect.forEach(tagNames, (tagName) =>
       Effect.gen(function* () {
+        const existing = yield* findTagByName(tagName);
+        const tag = Option.isSome(existing)
+          ? existing.value
+          : yield* createTag(tagName, '');
+
         const query = cypher`
-          MERGE (t:Tag {name: $tagName})
-          WITH t
+          MATCH (t:Tag {id: $tagId})
           MATCH (n:ContentNode {id: $nodeId})
           MERGE (n)-[:HAS_TAG]->(t)
         `;
 
-        const params = yield* queryParams({ tagName, nodeId });
+        const params = yield* queryParams({ tagId: tag.id, nodeId });
         yield* neo4j.runQuery(query, params);
       }),
     );
+
+    // Tag filters may now keep or drop this node differently
+    yield* clearRenderCache;
   })
     .pipe(
       Effect.mapError((error) => {
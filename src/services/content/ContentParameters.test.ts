@@ -0,0 +1,70 @@
+import { describe, it, expect } from '@effect/vitest';
+import { Either, HashMap, Schema } from 'effect';
+import {
+  applyParameterDeclarations,
+  parameterTypeOf,
+} from './ContentParameters';
+import { Slug } from '../../domain/types/branded';
+import {
+  InsertHashMap,
+  InsertKey,
+  InsertValue,
+  ParameterDeclaration,
+} from '../../domain/types/contentNode';
+
+const key = Schema.decodeSync(InsertKey);
+const nodeName = Schema.decodeSync(Slug)('report');
+const parameters = (values: Record<string, InsertValue>): InsertHashMap =>
+  HashMap.fromIterable(
+    Object.entries(values).map(([name, value]) => [key(name), value]),
+  );
+
+describe('ContentParameters', () => {
+  describe('parameterTypeOf', () => {
+    it('should tell lists from objects', () => {
+      expect(parameterTypeOf([1, 2])).toBe('list');
+      expect(parameterTypeOf({ a: [1] })).toBe('object');
+      expect(parameterTypeOf(false)).toBe('boolean');
+      expect(parameterTypeOf(0)).toBe('number');
+      expect(parameterTypeOf('')).toBe('string');
+    });
+  });
+
+  describe('applyParameterDeclarations', () => {
+    const declarations: ReadonlyArray<ParameterDeclaration> = [
+      { name: key('sections'), type: 'list', required: true, default: [] },
+      { name: key('meta'), type: 'object', default: { draft: true } },
+      { name: key('verbose'), type: 'boolean' },
+    ];
+
+    it('should keep supplied values and add missing defaults', () => {
+      const applied = applyParameterDeclarations(
+        nodeName,
+        declarations,
+        parameters({ sections: ['intro'], extra: 'unchecked' }),
+      );
+      expect(
+        Object.fromEntries(HashMap.toEntries(Either.getOrThrow(applied))),
+      ).toEqual({
+        sections: ['intro'],
+        meta: { draft: true },
+        extra: 'unchecked',
+      });
+    });
+
+    it('should report every mistyped value', () => {
+      const applied = applyParameterDeclarations(
+        nodeName,
+        declarations,
+        parameters({ meta: ['draft'], verbose: 'yes' }),
+      );
+      expect(Either.isLeft(applied) && applied.left).toMatchObject({
+        nodeName: 'report',
+        issues: [
+          { parameter: 'meta', reason: 'must be an object, not a list' },
+          { parameter: 'verbose', reason: 'must be a boolean, not a string' },
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { Either, HashMap, Option } from 'effect';
+import { ParameterValidationError } from '../../domain/types/errors';
+import {
+  InsertHashMap,
+  InsertValue,
+  ParameterDeclaration,
+  ParameterType,
+} from '../../domain/types/contentNode';
+import { Slug } from '../../domain/types/branded';
+
+type ParameterIssue = { parameter: string; reason: string };
+
+/**
+ * The declarable type of a parameter value
+ */
+export const parameterTypeOf = (value: InsertValue): ParameterType => {
+  if (Array.isArray(value)) return 'list';
+  switch (typeof value) {
+    case 'string':
+      return 'string';
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    default:
+      return 'object';
+  }
+};
+
+const described = (type: ParameterType) =>
+  type === 'object' ? 'an object' : `a ${type}`;
+
+const typeIssue = (
+  parameter: string,
+  declared: ParameterType,
+  value: InsertValue,
+): ReadonlyArray<ParameterIssue> => {
+  const actual = parameterTypeOf(value);
+  return actual === declared
+    ? []
+    : [
+        {
+          parameter,
+          reason: `must be ${described(declared)}, not ${described(actual)}`,
+        },
+      ];
+};
+
+/**
+ * Check a node's declarations on their own: names are unique and defaults
+ * have their declared type
+ */
+export const validateParameterDeclarations = (
+  nodeName: Slug,
+  declarations: ReadonlyArray<ParameterDeclaration>,
+): Either.Either<
+  ReadonlyArray<ParameterDeclaration>,
+  ParameterValidationError
+> => {
+  const issues = declarations.flatMap((declaration, i) => [
+    ...(declarations.findIndex((d) => d.name === declaration.name) < i
+      ? [{ parameter: declaration.name, reason: 'is declared twice' }]
+      : []),
+    ...(declaration.default === undefined
+      ? []
+      : typeIssue(declaration.name, declaration.type, declaration.default).map(
+          (issue) => ({ ...issue, reason: `default ${issue.reason}` }),
+        )),
+  ]);
+  return issues.length > 0
+    ? Either.left(new ParameterValidationError({ nodeName, issues }))
+    : Either.right(declarations);
+};
+
+/**
+ * Check supplied parameters against a node's declarations and add the
+ * defaults of those not supplied
+ * Fails when a value has the wrong type or a required parameter without a
+ * default is missing. Undeclared parameters pass through unchecked.
+ */
+export const applyParameterDeclarations = (
+  nodeName: Slug,
+  declarations: ReadonlyArray<ParameterDeclaration>,
+  parameters: InsertHashMap,
+): Either.Either<InsertHashMap, ParameterValidationError> => {
+  const issues = declarations.flatMap((declaration) =>
+    Option.match(HashMap.get(parameters, declaration.name), {
+      onSome: (value) => typeIssue(declaration.name, declaration.type, value),
+      onNone: () =>
+        declaration.required && declaration.default === undefined
+          ? [{ parameter: declaration.name, reason: 'is required' }]
+          : [],
+    }),
+  );
+  if (issues.length > 0) {
+    return Either.left(new ParameterValidationError({ nodeName, issues }));
+  }
+  return Either.right(
+    declarations.reduce(
+      (acc, { name, default: value }) =>
+        value === undefined || HashMap.has(acc, name)
+          ? acc
+          : HashMap.set(acc, name, value),
+      parameters,
+    ),
+  );
+};
@@ -1,27 +1,62 @@
-import { Effect, Schema, HashMap } from 'effect';
+import { Effect, Either, Schema, HashMap, Option } from 'effect';
 import { Neo4jService } from '../neo4j';
-import { NotFoundError, PersistenceError } from '../../domain/types/errors';
-import { cypher, queryParams } from '../../domain/types/database';
+import {
+  ContentCycleError,
+  NotFoundError,
+  PersistenceError,
+  TemplateParseError,
+  UnresolvedPlaceholderError,
+} from '../../domain/types/errors';
 import {
   ContentNodeVersion,
   ContentNodeVersionId,
+  EdgeOperation,
   IncludesEdgeProperties,
   InsertKey,
   InsertValue,
   InsertHashMap,
   ProcessingOptions,
-  ChildNode,
+  RenderReport,
+  RenderSegment,
+  RenderTrace,
+  UnresolvedPlaceholder,
 } from '../../domain/types/contentNode';
+import { Slug } from '../../domain/types/branded';
+import { ContentSubtree, SubtreeChild, loadSubtree } from './ContentSubtree';
+import { CachedRender, RenderCache, renderFingerprint } from '../render-cache';
+import {
+  Template,
+  parseVersionTemplate,
+  renderTemplate,
+  templateParameters,
+  templateText,
+} from './ContentTemplate';
+
+/**
+ * Errors surfaced while rendering content
+ */
+export type ContentProcessingError =
+  | PersistenceError
+  | NotFoundError
+  | ContentCycleError
+  | TemplateParseError
+  | UnresolvedPlaceholderError;
 
 /**
  * Helper to map any error to PersistenceError
  */
 const mapToPersistenceError = <A, E, R>(
   effect: Effect.Effect<A, E, R>,
-): Effect.Effect<A, PersistenceError | NotFoundError, R> =>
+): Effect.Effect<A, ContentProcessingError, R> =>
   effect.pipe(
     Effect.mapError((error) => {
-      if (error instanceof PersistenceError || error instanceof NotFoundError) {
+      if (
+        error instanceof PersistenceError ||
+        error instanceof NotFoundError ||
+        error instanceof ContentCycleError ||
+        error instanceof TemplateParseError ||
+        error instanceof UnresolvedPlaceholderError
+      ) {
         return error;
       }
       return new PersistenceError({
@@ -32,59 +67,155 @@ const mapToPersistenceError = <A, E, R>(
   );
 
 /**
- * Process a node, fetching its own children as needed
+ * Where a span of rendered text came from
+ */
+type SegmentSource = Omit<RenderSegment, 'start' | 'end'>;
+
+/**
+ * A run of rendered text attributed to a single version
+ */
+interface RenderPiece {
+  readonly text: string;
+  readonly source: SegmentSource;
+}
+
+/**
+ * Rendered text plus what the render found out about its parameters
+ */
+interface RenderedContent {
+  readonly text: string;
+  // Attributed runs that join to exactly `text`
+  readonly pieces: ReadonlyArray<RenderPiece>;
+  readonly unresolved: ReadonlyArray<UnresolvedPlaceholder>;
+  // Caller-supplied parameter names that some template looked up
+  readonly usedParameters: ReadonlySet<string>;
+}
+
+/**
+ * An insert child's render, kept so the placeholder it fills is attributed to it
+ */
+interface InsertedRender {
+  readonly source: SegmentSource;
+  readonly pieces: ReadonlyArray<RenderPiece>;
+}
+
+/**
+ * State threaded down one branch of the render
+ */
+interface RenderScope {
+  readonly context: InsertHashMap;
+  // Keys whose values came from insert edges rather than the caller
+  readonly inserted: ReadonlyMap<string, InsertedRender>;
+  readonly ancestry: readonly ContentNodeVersionId[];
+}
+
+const emptyRender: RenderedContent = {
+  text: '',
+  pieces: [],
+  unresolved: [],
+  usedParameters: new Set(),
+};
+
+const mergeParameterUse = (
+  renders: ReadonlyArray<RenderedContent>,
+): Pick<RenderedContent, 'unresolved' | 'usedParameters'> => ({
+  unresolved: renders.flatMap((r) => r.unresolved),
+  usedParameters: new Set(renders.flatMap((r) => [...r.usedParameters])),
+});
+
+/**
+ * Turn attributed pieces into character ranges, merging adjacent runs from
+ * the same source
+ */
+const toSegments = (
+  pieces: ReadonlyArray<RenderPiece>,
+): ReadonlyArray<RenderSegment> =>
+  pieces.reduce<RenderSegment[]>((segments, { text, source }) => {
+    if (!text) return segments;
+    const last = segments[segments.length - 1];
+    const start = last?.end ?? 0;
+    if (
+      last &&
+      last.versionId === source.versionId &&
+      last.operation === source.operation &&
+      last.key === source.key
+    ) {
+      segments[segments.length - 1] = { ...last, end: start + text.length };
+    } else {
+      segments.push({ start, end: start + text.length, ...source });
+    }
+    return segments;
+  }, []);
+
+/**
+ * Order concatenate children: edges with an explicit order first, by order,
+ * then the rest alphabetically by node name
+ */
+export const compareConcatenateEdges = (
+  a: { edge: IncludesEdgeProperties; nodeName: string },
+  b: { edge: IncludesEdgeProperties; nodeName: string },
+): number => {
+  const orderA = a.edge.order;
+  const orderB = b.edge.order;
+  if (orderA !== undefined && orderB !== undefined && orderA !== orderB) {
+    return orderA - orderB;
+  }
+  if (orderA !== undefined && orderB === undefined) return -1;
+  if (orderA === undefined && orderB !== undefined) return 1;
+  return a.nodeName.localeCompare(b.nodeName);
+};
+
+/**
+ * Check a child's node tags against the tag filters that apply to its edge
+ */
+const passesTagFilter = (
+  tags: ReadonlyArray<string>,
+  operation: EdgeOperation,
+  options: ProcessingOptions,
+): boolean => {
+  const scope = options.tagFilterScope ?? 'concatenate';
+  if (scope !== 'both' && scope !== operation) {
+    return true;
+  }
+  if (options.excludeTags?.some((tag) => tags.includes(tag))) {
+    return false;
+  }
+  if (options.includeTags?.length) {
+    return options.includeTags.some((tag) => tags.includes(tag));
+  }
+  return true;
+};
+
+/**
+ * Render a loaded node and the children below it
  */
 const processNode = (
+  subtree: ContentSubtree,
   nodeVersion: ContentNodeVersion,
-  parameterHashMap: InsertHashMap,
+  source: SegmentSource,
+  scope: RenderScope,
   options: ProcessingOptions,
-): Effect.Effect<string, PersistenceError | NotFoundError, Neo4jService> =>
+): Effect.Effect<RenderedContent, ContentProcessingError> =>
   Effect.gen(function* () {
-    const neo4j = yield* Neo4jService;
-
-    // Fetch children for this node with their parent ContentNode for sorting
-    const childrenQuery = cypher`
-      MATCH (node:ContentNodeVersion {id: $versionId})-[r:INCLUDES]->(child:ContentNodeVersion)
-      MATCH (child)-[:VERSION_OF]->(parentNode:ContentNode)
-      RETURN child, r as edge, parentNode.name as parentName
-    `;
-
-    const childrenParams = yield* mapToPersistenceError(
-      queryParams({ versionId: nodeVersion.id }),
-    );
-    const childrenResult = yield* mapToPersistenceError(
-      neo4j.runQuery<{
-        child: unknown;
-        edge: unknown;
-        parentName: string;
-      }>(childrenQuery, childrenParams),
-    );
-
-    const children = yield* mapToPersistenceError(
-      Effect.forEach(childrenResult, (item) =>
-        Effect.gen(function* () {
-          const child = yield* Schema.decodeUnknown(ContentNodeVersion)(
-            item.child,
-          );
-          const edge = yield* Schema.decodeUnknown(IncludesEdgeProperties)(
-            item.edge,
-          );
-          return { node: child, edge, parentName: item.parentName };
-        }),
-      ),
+    const children = (subtree.children.get(nodeVersion.id) ?? []).filter((c) =>
+      passesTagFilter(c.tags, c.edge.operation, options),
     );
 
     // Build context from insert operations
     const insertChildren = children.filter(
       (c) => c.edge.operation === 'insert',
     );
-    const updatedContext = yield* Effect.reduce(
+    const inserted = yield* Effect.reduce(
       insertChildren,
-      parameterHashMap,
-      (ctx, child) =>
+      {
+        context: scope.context,
+        inserted: scope.inserted,
+        renders: [] as ReadonlyArray<RenderedContent>,
+      },
+      (acc, child) =>
         Effect.gen(function* () {
           if (!child.edge.key) {
-            return ctx; // Skip if no key specified
+            return acc; // Skip if no key specified
           }
           const key = yield* Schema.decodeUnknown(InsertKey)(
             child.edge.key,
@@ -97,13 +228,22 @@ const processNode = (
                 }),
             ),
           );
-          const value = yield* processContentFromId(
+          const childSource: SegmentSource = {
+            versionId: child.node.id,
+            nodeName: child.parentName,
+            operation: 'insert',
+            key,
+            ...(child.floating ? { floating: true } : {}),
+          };
+          const value = yield* renderVersion(
+            subtree,
             child.node.id,
-            ctx,
+            { ...scope, context: acc.context, inserted: acc.inserted },
             options,
+            childSource,
           );
           const paramValue = yield* Schema.decodeUnknown(InsertValue)(
-            value,
+            value.text,
           ).pipe(
             Effect.mapError(
               (error) =>
@@ -113,72 +253,227 @@ const processNode = (
                 }),
             ),
           );
-          return HashMap.set(ctx, key, paramValue);
+          return {
+            context: HashMap.set(acc.context, key, paramValue),
+            inserted: new Map(acc.inserted).set(key, {
+              source: childSource,
+              pieces: value.pieces,
+            }),
+            renders: [...acc.renders, value],
+          };
         }),
     );
 
     // Apply context to current node's content
-    let processed = nodeVersion.content || '';
-    HashMap.forEach(updatedContext, (value, key) => {
-      processed = processed.replace(new RegExp(`{{${key}}}`, 'g'), value);
-    });
+    const template = yield* subtreeTemplate(subtree, nodeVersion);
+    const render = renderTemplate(template, (name) =>
+      Option.getOrUndefined(HashMap.get(inserted.context, name as InsertKey)),
+    );
+    const own: RenderedContent = {
+      text: templateText(render),
+      // Verbatim insert values keep their own attribution; anything this
+      // template produced or transformed belongs to it
+      pieces: render.chunks.flatMap((chunk) => {
+        const insert =
+          chunk._tag === 'Value'
+            ? inserted.inserted.get(chunk.name)
+            : undefined;
+        if (!insert || chunk._tag !== 'Value') {
+          return [{ text: chunk.text, source }];
+        }
+        return chunk.transformed
+          ? [{ text: chunk.text, source: insert.source }]
+          : insert.pieces;
+      }),
+      unresolved: render.chunks.flatMap((chunk) =>
+        chunk._tag === 'Unresolved'
+          ? [
+              {
+                key: chunk.name,
+                placeholder: chunk.text,
+                versionId: nodeVersion.id,
+                nodeName: source.nodeName,
+              },
+            ]
+          : [],
+      ),
+      usedParameters: new Set(
+        render.referenced.filter((name) => !inserted.inserted.has(name)),
+      ),
+    };
 
     // Process concatenation children
     const concatChildren = children
       .filter((c) => c.edge.operation === 'concatenate')
-      .sort((a, b) => {
-        // Sort alphabetically by parent node name
-        return a.parentName.localeCompare(b.parentName);
-      });
+      .sort((a, b) =>
+        compareConcatenateEdges(
+          { edge: a.edge, nodeName: a.parentName },
+          { edge: b.edge, nodeName: b.parentName },
+        ),
+      );
+
+    const concatRenders = yield* Effect.forEach(concatChildren, (child) =>
+      renderVersion(
+        subtree,
+        child.node.id,
+        { ...scope, context: inserted.context, inserted: inserted.inserted },
+        options,
+        {
+          operation: 'concatenate',
+          ...(child.floating ? { floating: true } : {}),
+        },
+      ),
+    );
 
-    const concatenated = yield* Effect.forEach(concatChildren, (child) =>
-      processContentFromId(child.node.id, updatedContext, options),
-    ).pipe(Effect.map((results) => results.filter(Boolean).join('\n')));
+    // Join non-empty parts; each child's edge separator (newline by default)
+    // goes before it and belongs to this node
+    const parts = [
+      { render: own, separator: '' },
+      ...concatRenders.map((render, i) => ({
+        render,
+        separator: concatChildren[i].edge.separator ?? '\n',
+      })),
+    ].filter((part) => part.render.text);
 
-    // Only add newline if processed has content
-    if (processed && concatenated) {
-      return processed + '\n' + concatenated;
-    }
-    return processed || concatenated || '';
+    return {
+      text: parts
+        .map((part, i) => (i === 0 ? '' : part.separator) + part.render.text)
+        .join(''),
+      pieces: parts.flatMap((part, i) =>
+        i === 0
+          ? part.render.pieces
+          : [{ text: part.separator, source }, ...part.render.pieces],
+      ),
+      ...mergeParameterUse([...inserted.renders, own, ...concatRenders]),
+    };
   });
 
 /**
- * Process content from a specific version ID
+ * What a version's render can depend on besides its own content: the
+ * parameter names its templates and those below it look up, and whether
+ * anything below it is resolved at render time or loops
  */
-export const processContentFromId = (
+interface SubtreeDependencies {
+  readonly parameters: ReadonlySet<string>;
+  readonly floating: boolean;
+  readonly cyclic: boolean;
+}
+
+// Parsed templates live as long as the subtree they were loaded with, so a
+// version included in several places is parsed once per load
+const subtreeTemplateMemo = new WeakMap<
+  ContentSubtree,
+  Map<ContentNodeVersionId, Template>
+>();
+
+const subtreeTemplate = (
+  subtree: ContentSubtree,
+  version: ContentNodeVersion,
+): Effect.Effect<Template, TemplateParseError> =>
+  Effect.suspend(() => {
+    const memo =
+      subtreeTemplateMemo.get(subtree) ??
+      new Map<ContentNodeVersionId, Template>();
+    subtreeTemplateMemo.set(subtree, memo);
+    const known = memo.get(version.id);
+    if (known) return Effect.succeed(known);
+    return parseVersionTemplate(version).pipe(
+      Effect.tap((template) => memo.set(version.id, template)),
+    );
+  });
+
+const subtreeDependencyMemo = new WeakMap<
+  ContentSubtree,
+  Map<ContentNodeVersionId, SubtreeDependencies>
+>();
+
+const subtreeDependencies = (
+  subtree: ContentSubtree,
   versionId: ContentNodeVersionId,
-  context: InsertHashMap = HashMap.empty<InsertKey, InsertValue>(),
-  options: ProcessingOptions = {},
-): Effect.Effect<string, PersistenceError | NotFoundError, Neo4jService> =>
+  path: ReadonlySet<ContentNodeVersionId> = new Set(),
+): Effect.Effect<SubtreeDependencies, TemplateParseError> =>
   Effect.gen(function* () {
-    const neo4j = yield* Neo4jService;
+    const memo =
+      subtreeDependencyMemo.get(subtree) ??
+      new Map<ContentNodeVersionId, SubtreeDependencies>();
+    subtreeDependencyMemo.set(subtree, memo);
+    const known = memo.get(versionId);
+    if (known) return known;
 
-    // Annotate span with processing context
-    yield* Effect.annotateCurrentSpan({
-      versionId,
-      contextSize: HashMap.size(context),
-      hasExclusions: !!options.excludeVersionIds?.length,
-    });
+    const loaded = subtree.versions.get(versionId);
+    if (!loaded || path.has(versionId)) {
+      return { parameters: new Set(), floating: false, cyclic: !!loaded };
+    }
+    const template = yield* subtreeTemplate(subtree, loaded.version);
+    const children = subtree.children.get(versionId) ?? [];
+    const below = yield* Effect.forEach(children, (child) =>
+      subtreeDependencies(subtree, child.node.id, new Set(path).add(versionId)),
+    );
+    const dependencies: SubtreeDependencies = {
+      parameters: new Set([
+        ...templateParameters(template),
+        ...below.flatMap((d) => [...d.parameters]),
+      ]),
+      floating:
+        children.some((child) => child.floating) ||
+        below.some((d) => d.floating),
+      cyclic: below.some((d) => d.cyclic),
+    };
+    memo.set(versionId, dependencies);
+    return dependencies;
+  });
+
+const toCachedRender = (rendered: RenderedContent): CachedRender => ({
+  trace: toTrace(rendered),
+  unresolved: rendered.unresolved,
+  usedParameters: [...rendered.usedParameters],
+});
 
+const fromCachedRender = ({
+  trace,
+  unresolved,
+  usedParameters,
+}: CachedRender): RenderedContent => ({
+  text: trace.text,
+  pieces: trace.segments.map(({ start, end, ...source }) => ({
+    text: trace.text.slice(start, end),
+    source,
+  })),
+  unresolved,
+  usedParameters: new Set(usedParameters),
+});
+
+/**
+ * Render a loaded version, tracking the chain of versions above it so that a
+ * cycle in existing data fails cleanly instead of recursing forever
+ * When a RenderCache is provided, a version with children is cached under
+ * the values of only the parameters its subtree looks up, so renders with
+ * other parameters that share the subtree reuse it.
+ */
+const renderVersion = (
+  subtree: ContentSubtree,
+  versionId: ContentNodeVersionId,
+  scope: RenderScope,
+  options: ProcessingOptions,
+  via: Pick<SegmentSource, 'operation' | 'key' | 'floating'>,
+): Effect.Effect<RenderedContent, ContentProcessingError> =>
+  Effect.gen(function* () {
     // Check if this version should be excluded
     if (options.excludeVersionIds?.includes(versionId)) {
-      return '';
+      return emptyRender;
     }
 
-    // Get just this node - no children
-    const query = cypher`
-      MATCH (node:ContentNodeVersion {id: $versionId})
-      RETURN node
-    `;
-
-    const params = yield* mapToPersistenceError(queryParams({ versionId }));
-    const result = yield* mapToPersistenceError(
-      neo4j.runQuery<{
-        node: unknown;
-      }>(query, params),
-    );
+    const { ancestry } = scope;
+    if (ancestry.includes(versionId)) {
+      return yield* Effect.fail(
+        new ContentCycleError({
+          path: [...ancestry.slice(ancestry.indexOf(versionId)), versionId],
+        }),
+      );
+    }
 
-    if (result.length === 0) {
+    const loaded = subtree.versions.get(versionId);
+    if (!loaded) {
       return yield* Effect.fail(
         new NotFoundError({
           entityType: 'content node',
@@ -187,53 +482,270 @@ export const processContentFromId = (
       );
     }
 
-    const nodeVersion = yield* mapToPersistenceError(
-      Schema.decodeUnknown(ContentNodeVersion)(result[0].node),
+    const render = processNode(
+      subtree,
+      loaded.version,
+      { ...via, versionId, nodeName: loaded.nodeName },
+      { ...scope, ancestry: [...ancestry, versionId] },
+      options,
     );
+    const cache = yield* Effect.serviceOption(RenderCache);
+    if (
+      Option.isNone(cache) ||
+      (subtree.children.get(versionId) ?? []).length === 0
+    ) {
+      return yield* render;
+    }
 
-    // Process the node (it will fetch its own children)
-    return yield* processNode(nodeVersion, context, options);
-  })
-    .pipe(mapToPersistenceError)
-    .pipe(Effect.withSpan('ContentService.processContentFromId'));
+    const dependencies = yield* subtreeDependencies(subtree, versionId);
+    if (
+      dependencies.cyclic ||
+      (dependencies.floating && options.resolveAsOf === undefined)
+    ) {
+      return yield* render;
+    }
+    // Values inserted above the subtree keep their attribution, so where
+    // they came from is part of the key along with how the subtree is reached
+    const used = [...dependencies.parameters].sort();
+    const fingerprint = renderFingerprint(
+      HashMap.filter(scope.context, (_, key) =>
+        dependencies.parameters.has(key),
+      ),
+      options,
+      {
+        via,
+        inserted: used.flatMap((name) => {
+          const insert = scope.inserted.get(name);
+          return insert ? [[name, insert]] : [];
+        }),
+      },
+    );
+    const cached = yield* cache.value.get(versionId, fingerprint);
+    if (Option.isSome(cached)) {
+      return fromCachedRender(cached.value);
+    }
+    const rendered = yield* render;
+    yield* cache.value.set(versionId, fingerprint, toCachedRender(rendered));
+    return rendered;
+  }).pipe(mapToPersistenceError);
 
 /**
- * Get content tree structure for visualization
+ * Load the subtree below every root once, then render each root from it
+ * With prepare, the parameters are derived from the loaded subtree first.
  */
-export const getContentTree = (
-  versionId: ContentNodeVersionId,
-  maxDepth: number = 10,
+const renderRoots = <E = never>(
+  versionIds: ReadonlyArray<ContentNodeVersionId>,
+  context: InsertHashMap,
+  options: ProcessingOptions,
+  prepare?: (subtree: ContentSubtree) => Either.Either<InsertHashMap, E>,
 ): Effect.Effect<
-  ContentTreeNode,
-  PersistenceError | NotFoundError,
+  { subtree: ContentSubtree; renders: RenderedContent[] },
+  ContentProcessingError | E,
   Neo4jService
 > =>
   Effect.gen(function* () {
-    const neo4j = yield* Neo4jService;
-
-    // Recursive CTE to get full tree structure
-    const query = cypher`
-      MATCH (root:ContentNodeVersion {id: $versionId})
-      CALL {
-        WITH root
-        MATCH path = (root)-[:INCLUDES*0..]-(descendant)
-        WHERE length(path) <= $maxDepth
-        RETURN descendant, path
+    yield* Effect.annotateCurrentSpan({
+      rootCount: versionIds.length,
+      contextSize: HashMap.size(context),
+      hasExclusions: !!options.excludeVersionIds?.length,
+    });
+
+    const subtree = yield* loadSubtree(versionIds, options);
+    const prepared = prepare ? yield* prepare(subtree) : context;
+    const renders = yield* Effect.forEach(versionIds, (versionId) =>
+      renderVersion(
+        subtree,
+        versionId,
+        { context: prepared, inserted: new Map(), ancestry: [] },
+        options,
+        { operation: 'root' },
+      ),
+    );
+    return { subtree, renders };
+  });
+
+/**
+ * Fail in strict mode if any placeholder is unresolved
+ */
+const checkStrict =
+  (options: ProcessingOptions) =>
+  (
+    rendered: RenderedContent,
+  ): Effect.Effect<RenderedContent, UnresolvedPlaceholderError> =>
+    options.strict && rendered.unresolved.length > 0
+      ? Effect.fail(
+          new UnresolvedPlaceholderError({ placeholders: rendered.unresolved }),
+        )
+      : Effect.succeed(rendered);
+
+const toTrace = (rendered: RenderedContent): RenderTrace => ({
+  text: rendered.text,
+  segments: toSegments(rendered.pieces),
+});
+
+/**
+ * Whether a render can be reused later: floating edges resolved against the
+ * current latest version change when their target gets a new version
+ */
+const isCacheable = (
+  subtree: ContentSubtree,
+  options: ProcessingOptions,
+): boolean =>
+  options.resolveAsOf !== undefined ||
+  ![...subtree.children.values()].some((children) =>
+    children.some((child) => child.floating),
+  );
+
+/**
+ * Trace each root, failing in strict mode if any placeholder is unresolved
+ * When a RenderCache is provided, cached traces are reused and only the
+ * remaining roots are loaded and rendered.
+ */
+const renderTraces = (
+  versionIds: ReadonlyArray<ContentNodeVersionId>,
+  context: InsertHashMap,
+  options: ProcessingOptions,
+): Effect.Effect<RenderTrace[], ContentProcessingError, Neo4jService> =>
+  Effect.gen(function* () {
+    const cache = yield* Effect.serviceOption(RenderCache);
+    const fingerprint = renderFingerprint(context, options);
+
+    const traces = new Map<ContentNodeVersionId, RenderTrace>();
+    if (Option.isSome(cache)) {
+      for (const versionId of new Set(versionIds)) {
+        const cached = yield* cache.value.get(versionId, fingerprint);
+        if (Option.isSome(cached)) {
+          traces.set(versionId, cached.value.trace);
+        }
       }
-      RETURN root, collect({node: descendant, depth: length(path)}) as descendants
-    `;
+    }
+
+    const missing = [...new Set(versionIds)].filter((id) => !traces.has(id));
+    if (missing.length > 0) {
+      const { subtree, renders } = yield* renderRoots(
+        missing,
+        context,
+        options,
+      );
+      const cacheable = isCacheable(subtree, options);
+      for (const [i, versionId] of missing.entries()) {
+        const rendered = yield* checkStrict(options)(renders[i]);
+        traces.set(versionId, toTrace(rendered));
+        if (Option.isSome(cache) && cacheable) {
+          yield* cache.value.set(
+            versionId,
+            fingerprint,
+            toCachedRender(rendered),
+          );
+        }
+      }
+    }
 
-    const params = yield* mapToPersistenceError(
-      queryParams({ versionId, maxDepth }),
+    return versionIds.flatMap((id) => traces.get(id) ?? []);
+  });
+
+/**
+ * Trace several versions loaded together, with parameters derived from the
+ * subtree below them
+ * Lets a caller check parameters against the declarations of every version
+ * the render includes from the same load. Included subtrees still go through
+ * the RenderCache; the roots themselves are always rendered.
+ */
+export const processContentBatchWithPreparedTrace = <E>(
+  versionIds: ReadonlyArray<ContentNodeVersionId>,
+  prepare: (subtree: ContentSubtree) => Either.Either<InsertHashMap, E>,
+  options: ProcessingOptions = {},
+): Effect.Effect<RenderTrace[], ContentProcessingError | E, Neo4jService> =>
+  Effect.gen(function* () {
+    const { renders } = yield* renderRoots(
+      versionIds,
+      HashMap.empty(),
+      options,
+      prepare,
     );
-    const result = yield* mapToPersistenceError(
-      neo4j.runQuery<{
-        root: unknown;
-        descendants: Array<{ node: unknown; depth: number }>;
-      }>(query, params),
+    return yield* Effect.forEach(renders, (rendered) =>
+      Effect.map(checkStrict(options)(rendered), toTrace),
     );
+  }).pipe(
+    Effect.withSpan('ContentService.processContentBatchWithPreparedTrace'),
+  );
+
+/**
+ * Process content from a specific version ID
+ * Fails with ContentCycleError if the INCLUDES graph below it loops, and with
+ * UnresolvedPlaceholderError in strict mode if any placeholder has no value
+ */
+export const processContentFromId = (
+  versionId: ContentNodeVersionId,
+  context: InsertHashMap = HashMap.empty<InsertKey, InsertValue>(),
+  options: ProcessingOptions = {},
+): Effect.Effect<string, ContentProcessingError, Neo4jService> =>
+  renderTraces([versionId], context, options).pipe(
+    Effect.map(([trace]) => trace.text),
+    Effect.withSpan('ContentService.processContentFromId'),
+  );
+
+/**
+ * Process content and return the text with the version behind each span
+ * Segments cover the text in order; separators belong to the including node
+ */
+export const processContentWithTrace = (
+  versionId: ContentNodeVersionId,
+  context: InsertHashMap = HashMap.empty<InsertKey, InsertValue>(),
+  options: ProcessingOptions = {},
+): Effect.Effect<RenderTrace, ContentProcessingError, Neo4jService> =>
+  renderTraces([versionId], context, options).pipe(
+    Effect.map(([trace]) => trace),
+    Effect.withSpan('ContentService.processContentWithTrace'),
+  );
+
+/**
+ * Trace several versions with the same parameters and options, loading the
+ * subtrees below them together; traces come back in the order given
+ */
+export const processContentBatchWithTrace = (
+  versionIds: ReadonlyArray<ContentNodeVersionId>,
+  context: InsertHashMap = HashMap.empty<InsertKey, InsertValue>(),
+  options: ProcessingOptions = {},
+): Effect.Effect<RenderTrace[], ContentProcessingError, Neo4jService> =>
+  renderTraces(versionIds, context, options).pipe(
+    Effect.withSpan('ContentService.processContentBatchWithTrace'),
+  );
+
+/**
+ * Process content and report on parameter usage instead of failing
+ * Ignores the strict option; unresolved placeholders are listed in the report
+ */
+export const processContentWithReport = (
+  versionId: ContentNodeVersionId,
+  context: InsertHashMap = HashMap.empty<InsertKey, InsertValue>(),
+  options: ProcessingOptions = {},
+): Effect.Effect<RenderReport, ContentProcessingError, Neo4jService> =>
+  renderRoots([versionId], context, options).pipe(
+    Effect.map(({ renders: [rendered] }) => ({
+      text: rendered.text,
+      unresolved: rendered.unresolved,
+      unusedParameters: [...HashMap.keys(context)].filter(
+        (key) => !rendered.usedParameters.has(key),
+      ),
+    })),
+    Effect.withSpan('ContentService.processContentWithReport'),
+  );
+
+/**
+ * Get content tree structure for visualization
+ */
+export const getContentTree = (
+  versionId: ContentNodeVersionId,
+  maxDepth: number = 10,
+): Effect.Effect<ContentTreeNode, ContentProcessingError, Neo4jService> =>
+  Effect.gen(function* () {
+    yield* Effect.annotateCurrentSpan({ versionId, maxDepth });
 
-    if (result.length === 0) {
+    // The same load rendering uses, so floating edges resolve alike
+    const subtree = yield* loadSubtree([versionId], { maxDepth });
+    const root = subtree.versions.get(versionId);
+    if (!root) {
       return yield* Effect.fail(
         new NotFoundError({
           entityType: 'content node',
@@ -242,8 +754,28 @@ export const getContentTree = (
       );
     }
 
-    // Build tree structure
-    return yield* buildTreeFromResult(result[0]);
+    // The depth bound also guarantees termination if the data has a cycle
+    const buildChildren = (
+      parentId: ContentNodeVersionId,
+      depth: number,
+    ): ContentTreeNode[] =>
+      depth >= maxDepth
+        ? []
+        : [...(subtree.children.get(parentId) ?? [])]
+            .sort(compareTreeEdges)
+            .map((child) => ({
+              version: child.node,
+              nodeName: child.parentName,
+              edge: child.edge,
+              ...(child.floating ? { floating: true } : {}),
+              children: buildChildren(child.node.id, depth + 1),
+            }));
+
+    return {
+      version: root.version,
+      nodeName: root.nodeName,
+      children: buildChildren(root.version.id, 0),
+    } satisfies ContentTreeNode;
   })
     .pipe(mapToPersistenceError)
     .pipe(Effect.withSpan('ContentService.getContentTree'));
@@ -251,26 +783,25 @@ export const getContentTree = (
 // Helper types
 export interface ContentTreeNode {
   version: ContentNodeVersion;
+  nodeName: Slug;
+  edge?: IncludesEdgeProperties; // Absent on the root
+  floating?: boolean; // Resolved from a floating edge
   children: ContentTreeNode[];
 }
 
-const buildTreeFromResult = (result: {
-  root: unknown;
-  descendants: Array<{ node: unknown; depth: number }>;
-}): Effect.Effect<ContentTreeNode, PersistenceError | NotFoundError, never> =>
-  mapToPersistenceError(
-    Effect.gen(function* () {
-      const root = yield* Schema.decodeUnknown(ContentNodeVersion)(result.root);
-      // TODO: Implement actual tree building when needed
-      // Current implementation only returns root without children
-      // Full implementation would:
-      // 1. Parse all descendants from result
-      // 2. Build parent-child relationships based on paths
-      // 3. Recursively construct tree structure
-      // 4. Handle large trees efficiently (consider memory usage)
-      return {
-        version: root,
-        children: [],
-      };
-    }),
+/**
+ * Order children the same way processNode consumes them: insert children
+ * first (by key), then concatenate children in render order
+ */
+const compareTreeEdges = (a: SubtreeChild, b: SubtreeChild): number => {
+  if (a.edge.operation !== b.edge.operation) {
+    return a.edge.operation === 'insert' ? -1 : 1;
+  }
+  if (a.edge.operation === 'insert') {
+    return (a.edge.key ?? '').localeCompare(b.edge.key ?? '');
+  }
+  return compareConcatenateEdges(
+    { edge: a.edge, nodeName: a.parentName },
+    { edge: b.edge, nodeName: b.parentName },
   );
+};
@@ -0,0 +1,47 @@
+import { describe, it, expect } from '@effect/vitest';
+import { buildSnippet, escapeSearchQuery, searchTerms } from './ContentSearch';
+
+describe('ContentSearch', () => {
+  describe('searchTerms', () => {
+    it('should lowercase and dedupe words', () => {
+      expect(searchTerms('Be concise, be DIRECT!')).toEqual([
+        'be',
+        'concise',
+        'direct',
+      ]);
+      expect(searchTerms(' -- ')).toEqual([]);
+    });
+  });
+
+  describe('escapeSearchQuery', () => {
+    it('should escape Lucene syntax and neutralize operators', () => {
+      expect(escapeSearchQuery('name:"x" AND (y)')).toBe(
+        'name\\:\\"x\\" and \\(y\\)',
+      );
+    });
+  });
+
+  describe('buildSnippet', () => {
+    it('should highlight whole words only', () => {
+      expect(buildSnippet('Concise, not conciseness', ['concise'])).toEqual({
+        text: 'Concise, not conciseness',
+        highlights: [{ start: 0, end: 7 }],
+      });
+    });
+
+    it('should cut a window around the first match', () => {
+      const text = `${'a '.repeat(50)}target${' b'.repeat(50)}`;
+      const snippet = buildSnippet(text, ['target'], 20);
+
+      expect(snippet.text.startsWith('…')).toBe(true);
+      expect(snippet.text.endsWith('…')).toBe(true);
+      expect(snippet.highlights).toHaveLength(1);
+      const [{ start, end }] = snippet.highlights;
+      expect(snippet.text.slice(start, end)).toBe('target');
+    });
+
+    it('should flatten whitespace', () => {
+      expect(buildSnippet('one\ntwo', ['two']).text).toBe('one two');
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import { Effect, Schema } from 'effect';
+import { Neo4jService } from '../neo4j';
+import { PersistenceError } from '../../domain/types/errors';
+import { cypher, queryParams } from '../../domain/types/database';
+import {
+  ContentNodeVersion,
+  ContentSearchHit,
+  SearchField,
+  SearchSnippet,
+  TextRange,
+} from '../../domain/types/contentNode';
+import { ContentNodeId, Slug } from '../../domain/types/branded';
+
+/**
+ * Name of the full-text index over ContentNodeVersion.content and
+ * ContentNode.description
+ */
+export const CONTENT_SEARCH_INDEX = 'content_search';
+
+const DEFAULT_SEARCH_LIMIT = 20;
+const SNIPPET_LENGTH = 160;
+
+const WORD = /[\p{L}\p{N}_]+/gu;
+const LUCENE_SPECIAL = /[+\-&|!(){}[\]^"~*?:\\/]/g;
+
+/**
+ * Lowercased distinct words of a search query
+ */
+export const searchTerms = (query: string): string[] => [
+  ...new Set(query.toLowerCase().match(WORD) ?? []),
+];
+
+/**
+ * Turn plain text into a Lucene query matching any of its words
+ * Lowercasing keeps AND/OR/NOT from being read as operators; the index
+ * analyzer lowercases terms anyway.
+ */
+export const escapeSearchQuery = (query: string): string =>
+  query.toLowerCase().replace(LUCENE_SPECIAL, (c) => `\\${c}`);
+
+/**
+ * Ranges of the whole words in text that are search terms
+ */
+export const findHighlights = (
+  text: string,
+  terms: ReadonlyArray<string>,
+): TextRange[] =>
+  [...text.matchAll(WORD)]
+    .filter((match) => terms.includes(match[0].toLowerCase()))
+    .map((match) => ({
+      start: match.index,
+      end: match.index + match[0].length,
+    }));
+
+/**
+ * Cut a window of text around the first highlighted word
+ * Whitespace is flattened to spaces and cut ends are marked with an ellipsis;
+ * highlights are relative to the snippet text.
+ */
+export const buildSnippet = (
+  text: string,
+  terms: ReadonlyArray<string>,
+  maxLength: number = SNIPPET_LENGTH,
+): SearchSnippet => {
+  const highlights = findHighlights(text, terms);
+  const first = highlights[0]?.start ?? 0;
+  const start = Math.max(
+    0,
+    Math.min(first - Math.floor(maxLength / 4), text.length - maxLength),
+  );
+  const end = Math.min(text.length, start + maxLength);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const shift = prefix.length - start;
+
+  return {
+    text: prefix + text.slice(start, end).replace(/\s/g, ' ') + suffix,
+    highlights: highlights
+      .filter((h) => h.start >= start && h.end <= end)
+      .map((h) => ({ start: h.start + shift, end: h.end + shift })),
+  };
+};
+
+/**
+ * Full-text search over version content and node descriptions, best first
+ * A description hit is reported against the node's latest version. Only
+ * nodes with every one of `tags` match, and `latestOnly` drops content hits
+ * on versions that have been superseded. Nodes without versions are not
+ * returned.
+ */
+export const searchContent = (
+  query: string,
+  options: {
+    tags?: ReadonlyArray<string>;
+    latestOnly?: boolean;
+    limit?: number;
+  } = {},
+): Effect.Effect<
+  ReadonlyArray<ContentSearchHit>,
+  PersistenceError,
+  Neo4jService
+> =>
+  Effect.gen(function* () {
+    const neo4j = yield* Neo4jService;
+    const terms = searchTerms(query);
+    const limit = Math.max(0, options.limit ?? DEFAULT_SEARCH_LIMIT);
+
+    yield* Effect.annotateCurrentSpan({
+      termCount: terms.length,
+      tagCount: options.tags?.length ?? 0,
+      latestOnly: !!options.latestOnly,
+      limit,
+    });
+
+    if (terms.length === 0 || limit === 0) {
+      return [];
+    }
+
+    // Index hits are either versions (content) or nodes (description);
+    // both are resolved to an owning node and a version
+    const searchQuery = cypher`
+      CALL db.index.fulltext.queryNodes($index, $query) YIELD node, score
+      OPTIONAL MATCH (node)-[:VERSION_OF]->(versionOwner:ContentNode)
+      OPTIONAL MATCH (node)<-[:VERSION_OF]-(candidate:ContentNodeVersion)
+      WITH node, score, versionOwner, candidate ORDER BY candidate.createdAt DESC
+      WITH node, score, versionOwner, collect(candidate)[0] as latestOfNode
+      WITH score,
+        coalesce(versionOwner, node) as owner,
+        CASE WHEN versionOwner IS NULL THEN latestOfNode ELSE node END as version,
+        CASE WHEN versionOwner IS NULL THEN 'description' ELSE 'content' END as field
+      WHERE version IS NOT NULL
+        AND ALL(tag IN $tags WHERE (owner)-[:HAS_TAG]->(:Tag {name: tag}))
+        AND (NOT $latestOnly OR field = 'description' OR NOT EXISTS {
+          MATCH (owner)<-[:VERSION_OF]-(newer:ContentNodeVersion)
+          WHERE newer.createdAt > version.createdAt
+        })
+      RETURN owner.id as nodeId, owner.name as nodeName, version, score, field,
+        CASE field WHEN 'content' THEN version.content ELSE owner.description END as text
+      ORDER BY score DESC
+      LIMIT toInteger($limit)
+    `;
+    const params = yield* queryParams({
+      index: CONTENT_SEARCH_INDEX,
+      query: escapeSearchQuery(query),
+      tags: options.tags ?? [],
+      latestOnly: !!options.latestOnly,
+      limit,
+    });
+    const results = yield* neo4j.runQuery<{
+      nodeId: unknown;
+      nodeName: unknown;
+      version: unknown;
+      score: number;
+      field: unknown;
+      text: string | null;
+    }>(searchQuery, params);
+
+    return yield* Effect.forEach(results, (row) =>
+      Effect.gen(function* () {
+        return {
+          nodeId: yield* Schema.decodeUnknown(ContentNodeId)(row.nodeId),
+          nodeName: yield* Schema.decodeUnknown(Slug)(row.nodeName),
+          version: yield* Schema.decodeUnknown(ContentNodeVersion)(row.version),
+          score: Number(row.score),
+          field: yield* Schema.decodeUnknown(SearchField)(row.field),
+          snippet: buildSnippet(row.text ?? '', terms),
+        } satisfies ContentSearchHit;
+      }),
+    );
+  })
+    .pipe(
+      Effect.mapError((error) => {
+        if (error instanceof PersistenceError) {
+          return error;
+        }
+        return new PersistenceError({
+          originalMessage: String(error),
+          operation: 'read',
+        });
+      }),
+    )
+    .pipe(Effect.withSpan('ContentService.searchContent'));
@@ -1,4 +1,4 @@
-import { Effect, Layer, Schema, Match } from 'effect';
+import { Effect, Either, Layer, Schema, Match, Struct } from 'effect';
 import { Neo4jService } from '../neo4j';
 import {
   ContentNode,
@@ -8,9 +8,15 @@ import {
   EdgeOperation,
   IncludesEdgeProperties,
 } from '../../domain/types/contentNode';
-import { TestCase, TestCaseTagName } from '../../domain/types/testCase';
-import { Slug } from '../../domain/types/branded';
+import { Embedding } from '../embeddings';
+import {
+  StoredTestCase,
+  TestCase,
+  TestCaseTagName,
+} from '../../domain/types/testCase';
+import { DataPointId, Slug } from '../../domain/types/branded';
 import { Neo4jError } from '../../domain/types/errors';
+import { Tag } from '../../domain/types/tag';
 
 /**
  * Test data structure for content nodes and versions
@@ -21,17 +27,34 @@ export interface ContentTestData {
     version: ContentNodeVersion;
     nodeId: ContentNodeId;
     previousVersionId?: ContentNodeVersionId | undefined;
+    embedding?: Embedding | undefined;
   }>;
   edges: Array<{
     parentId: ContentNodeVersionId;
     childId: ContentNodeVersionId;
     properties: IncludesEdgeProperties;
   }>;
+  // INCLUDES edges that target a ContentNode rather than a version
+  floatingEdges?: Array<{
+    parentId: ContentNodeVersionId;
+    nodeId: ContentNodeId;
+    properties: IncludesEdgeProperties;
+  }>;
   tags: Array<{
     nodeId: ContentNodeId;
     tagName: string;
   }>;
+  // CHILD_OF relationships between tags, by name
+  tagParents?: Array<{
+    tagName: string;
+    parentName: string;
+  }>;
   testCases: TestCase[];
+  // DataPoints with the versions they reference through USED_CONTENT
+  dataPoints?: Array<{
+    id: DataPointId;
+    versionIds: ContentNodeVersionId[];
+  }>;
 }
 
 /**
@@ -198,6 +221,10 @@ const defaultTestData: ContentTestData = {
       tagName: 'behavior',
     },
   ],
+  tagParents: [
+    { tagName: 'instruction', parentName: 'guidance' },
+    { tagName: 'behavior', parentName: 'guidance' },
+  ],
   testCases: [
     {
       id: Schema.decodeSync(Schema.String.pipe(Schema.brand('TestCaseId')))(
@@ -219,6 +246,21 @@ const defaultTestData: ContentTestData = {
       ],
     },
   ],
+  dataPoints: [
+    {
+      id: Schema.decodeSync(DataPointId)(
+        '750e8400-e29b-41d4-a716-446655440001',
+      ),
+      versionIds: [
+        Schema.decodeSync(ContentNodeVersionId)(
+          '650e8400-e29b-41d4-a716-446655440001',
+        ),
+        Schema.decodeSync(ContentNodeVersionId)(
+          '650e8400-e29b-41d4-a716-446655440002',
+        ),
+      ],
+    },
+  ],
 };
 
 /**
@@ -228,18 +270,60 @@ const copyTestData = (data: ContentTestData): ContentTestData => ({
   nodes: [...data.nodes],
   versions: [...data.versions],
   edges: [...data.edges],
+  floatingEdges: [...(data.floatingEdges ?? [])],
   tags: [...data.tags],
+  tagParents: [...(data.tagParents ?? [])],
   testCases: [...data.testCases],
+  dataPoints: [...(data.dataPoints ?? [])],
 });
 
+/**
+ * Evaluate a compiled tag condition against one node's tags, reading the
+ * Cypher as written: tag tests by parameter, NOT, and parenthesized AND or
+ * OR lists
+ */
+const evaluateTagCondition = (
+  condition: string,
+  params: Record<string, string>,
+  hasTag: (name: string) => boolean,
+): boolean => {
+  const tokens =
+    condition.match(
+      /EXISTS \{[^}]*\$tagExpr\d+\}\) \}|NOT|AND|OR|\(|\)|true|false/g,
+    ) ?? [];
+  let i = 0;
+  const term = (): boolean => {
+    const token = tokens[i++];
+    if (token === 'NOT') return !term();
+    if (token === '(') {
+      const values = [term()];
+      let operator = 'AND';
+      while (i < tokens.length && tokens[i] !== ')') {
+        operator = tokens[i++];
+        values.push(term());
+      }
+      i++;
+      return operator === 'OR' ? values.some(Boolean) : values.every(Boolean);
+    }
+    if (token === 'true' || token === 'false') return token === 'true';
+    const param = /\$(tagExpr\d+)/.exec(token ?? '')?.[1];
+    return param !== undefined && hasTag(params[param]);
+  };
+  return term();
+};
+
 /**
  * Create Neo4j test layer with content data
  */
 export const ContentTestWithData = (
   initialData: ContentTestData = defaultTestData,
+  // Receives every query run, for asserting round-trip counts
+  queryLog?: string[],
 ) => {
   // Create a deep copy to avoid cross-test pollution
   const testData = copyTestData(initialData);
+  // Tag nodes created through the tag service; testData.tags holds links
+  const tagNodes: Tag[] = [];
 
   // Type definitions for query parameters
   type NodeByNameParams = { name: string };
@@ -257,12 +341,61 @@ export const ContentTestWithData = (
       content: string | undefined;
       createdAt: string;
       commitMessage: string;
+      contentHash?: string | null;
+      embedding?: number[] | null;
+      embeddingModel?: string | null;
     };
   };
+  type ContentHashParams = {
+    versionId: ContentNodeVersionId;
+    contentHash: string;
+  };
   type VersionByIdParams = { versionId: ContentNodeVersionId };
+  type ChildrenParams = {
+    versionIds: ContentNodeVersionId[];
+    asOf?: string | null;
+  };
+  type VersionsByIdParams = { versionIds: ContentNodeVersionId[] };
+  type SearchParams = {
+    query: string;
+    tags: string[];
+    latestOnly: boolean;
+    limit: number;
+  };
+  type DependentsLevelParams = {
+    versionIds: ContentNodeVersionId[];
+    nodeIds: ContentNodeId[];
+  };
+  type VectorSearchParams = { k: number; embedding: number[] };
+  type PendingEmbeddingParams = {
+    model: string;
+    after: string;
+    batchSize: number;
+  };
+  type StoreEmbeddingsParams = {
+    model: string;
+    rows: Array<{ versionId: ContentNodeVersionId; embedding: number[] }>;
+  };
+  type LinkFloatingParams = EdgeParams & {
+    parentId: ContentNodeVersionId;
+    childNodeId: ContentNodeId;
+  };
+  type HistoryParams = { nodeId: ContentNodeId; limit: number; offset: number };
+  type VersionOfNodeParams = {
+    nodeId: ContentNodeId;
+    versionId: ContentNodeVersionId;
+  };
+  type CopyEdgesParams = {
+    fromId: ContentNodeVersionId;
+    toId: ContentNodeVersionId;
+  };
+  type ReorderParams = {
+    parentId: ContentNodeVersionId;
+    children: Array<{ id: string; order: number }>;
+  };
   type TagParams = { nodeId: ContentNodeId; tagName: string };
   type NodeTagsParams = { nodeId: ContentNodeId };
-  type TestCaseParams = { props: TestCase };
+  type TestCaseParams = { props: typeof StoredTestCase.Encoded };
   type TestCaseByIdParams = { id: string };
   type EdgeRelationshipParams = {
     parentVersion: ContentNodeVersionId;
@@ -272,20 +405,21 @@ export const ContentTestWithData = (
       key?: string;
     }>;
   };
-  type LinkNodesParams = {
+  type EdgeParams = {
+    operation: EdgeOperation;
+    key?: string | null;
+    order?: number | null;
+    separator?: string | null;
+  };
+  type LinkNodesParams = EdgeParams & {
     parentId: ContentNodeVersionId;
     childId: ContentNodeVersionId;
-    operation: EdgeOperation;
-    key?: string;
   };
   type FindContentForSlotsParams = {
     slots: string[];
     tags: string[];
     excludeVersionIds?: ContentNodeVersionId[];
   };
-  type FindContentByTagsParams = {
-    tags: string[];
-  };
 
   // Query handler functions
   const findNodeByName = (params: NodeByNameParams): unknown[] => {
@@ -339,8 +473,19 @@ export const ContentTestWithData = (
             params.props.createdAt,
           ),
           commitMessage: params.props.commitMessage,
+          ...(params.props.contentHash
+            ? { contentHash: params.props.contentHash }
+            : {}),
         },
         nodeId,
+        ...(params.props.embedding && params.props.embeddingModel
+          ? {
+              embedding: {
+                model: params.props.embeddingModel,
+                vector: params.props.embedding,
+              },
+            }
+          : {}),
         previousVersionId,
       });
     }
@@ -351,6 +496,7 @@ export const ContentTestWithData = (
           content: params.props.content,
           createdAt: params.props.createdAt,
           commitMessage: params.props.commitMessage,
+          contentHash: params.props.contentHash,
         },
       },
     ];
@@ -369,8 +515,19 @@ export const ContentTestWithData = (
             params.props.createdAt,
           ),
           commitMessage: params.props.commitMessage,
+          ...(params.props.contentHash
+            ? { contentHash: params.props.contentHash }
+            : {}),
         },
         nodeId,
+        ...(params.props.embedding && params.props.embeddingModel
+          ? {
+              embedding: {
+                model: params.props.embeddingModel,
+                vector: params.props.embedding,
+              },
+            }
+          : {}),
       });
     }
     return [
@@ -380,6 +537,7 @@ export const ContentTestWithData = (
           content: params.props.content,
           createdAt: params.props.createdAt,
           commitMessage: params.props.commitMessage,
+          contentHash: params.props.contentHash,
         },
       },
     ];
@@ -389,6 +547,7 @@ export const ContentTestWithData = (
     const versionId = params.versionId;
     const version = testData.versions.find((v) => v.version.id === versionId);
     if (!version) return [];
+    const owner = testData.nodes.find((n) => n.id === version.nodeId);
 
     return [
       {
@@ -396,18 +555,110 @@ export const ContentTestWithData = (
           ...version.version,
           createdAt: JSON.parse(JSON.stringify(version.version.createdAt)),
         },
+        nodeName: owner?.name,
+        parameters: owner?.parameters ?? null,
       },
     ];
   };
 
-  const getChildrenWithParentName = (params: VersionByIdParams): unknown[] => {
-    const versionId = params.versionId;
-    return testData.edges
+  // Edge properties as Neo4j stores them: null parameters are not set
+  const toEdgeProperties = (params: EdgeParams): IncludesEdgeProperties => ({
+    operation: params.operation,
+    ...(params.key ? { key: params.key } : {}),
+    ...(params.order != null ? { order: params.order } : {}),
+    ...(params.separator != null ? { separator: params.separator } : {}),
+  });
+
+  // Latest version of a node, optionally as of a timestamp
+  const resolveLatestVersion = (nodeId: ContentNodeId, asOf: string | null) =>
+    testData.versions
+      .filter(
+        (v) =>
+          v.nodeId === nodeId &&
+          (asOf === null ||
+            JSON.parse(JSON.stringify(v.version.createdAt)) <= asOf),
+      )
+      .sort((a, b) =>
+        JSON.stringify(b.version.createdAt).localeCompare(
+          JSON.stringify(a.version.createdAt),
+        ),
+      )[0];
+
+  // Full-text search stand-in: scores are the number of matching words
+  const searchFullText = (params: SearchParams): unknown[] => {
+    const words = (text: string | undefined): string[] =>
+      (text ?? '').toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+    const terms = words(params.query.replace(/\\(.)/g, '$1'));
+    const score = (text: string | undefined) =>
+      words(text).filter((word) => terms.includes(word)).length;
+    const hasTags = (nodeId: ContentNodeId) =>
+      params.tags.every((tag) =>
+        testData.tags.some((t) => t.nodeId === nodeId && t.tagName === tag),
+      );
+    const hit = (
+      entry: ContentTestData['versions'][number],
+      field: 'content' | 'description',
+      text: string | undefined,
+    ) => ({
+      nodeId: entry.nodeId,
+      nodeName: testData.nodes.find((n) => n.id === entry.nodeId)?.name,
+      version: {
+        ...entry.version,
+        createdAt: JSON.parse(JSON.stringify(entry.version.createdAt)),
+      },
+      score: score(text),
+      field,
+      text,
+    });
+
+    const contentHits = testData.versions
+      .filter(
+        (v) =>
+          score(v.version.content) > 0 &&
+          hasTags(v.nodeId) &&
+          (!params.latestOnly ||
+            resolveLatestVersion(v.nodeId, null)?.version.id === v.version.id),
+      )
+      .map((v) => hit(v, 'content', v.version.content));
+    const descriptionHits = testData.nodes
+      .filter((n) => score(n.description) > 0 && hasTags(n.id))
+      .flatMap((n) => {
+        const latest = resolveLatestVersion(n.id, null);
+        return latest ? [hit(latest, 'description', n.description)] : [];
+      });
+    return [...contentHits, ...descriptionHits]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, params.limit);
+  };
+
+  const getChildrenWithParentName = (params: ChildrenParams): unknown[] =>
+    params.versionIds.flatMap((versionId) =>
+      getChildrenOfVersion(versionId, params.asOf ?? null).map((child) => ({
+        parentId: versionId,
+        ...child,
+      })),
+    );
+
+  const getChildrenOfVersion = (
+    versionId: ContentNodeVersionId,
+    asOf: string | null,
+  ) => {
+    const pinned = testData.edges
       .filter((e) => e.parentId === versionId)
-      .map((e) => {
-        const childVersion = testData.versions.find(
-          (v) => v.version.id === e.childId,
-        );
+      .map((e) => ({
+        childVersion: testData.versions.find((v) => v.version.id === e.childId),
+        properties: e.properties,
+        floating: false,
+      }));
+    const floating = (testData.floatingEdges ?? [])
+      .filter((e) => e.parentId === versionId)
+      .map((e) => ({
+        childVersion: resolveLatestVersion(e.nodeId, asOf),
+        properties: e.properties,
+        floating: true,
+      }));
+    return [...pinned, ...floating]
+      .map(({ childVersion, properties, floating }) => {
         if (!childVersion) return null;
         // Find the parent node for this version
         const parentNode = testData.nodes.find(
@@ -420,8 +671,13 @@ export const ContentTestWithData = (
               JSON.stringify(childVersion.version.createdAt),
             ),
           },
-          edge: e.properties,
+          edge: properties,
           parentName: parentNode?.name || '',
+          tags: testData.tags
+            .filter((t) => t.nodeId === childVersion.nodeId)
+            .map((t) => t.tagName),
+          floating,
+          parameters: parentNode?.parameters ?? null,
         };
       })
       .filter((c) => c !== null);
@@ -450,15 +706,19 @@ export const ContentTestWithData = (
       .sort((a, b) => a.tagName.localeCompare(b.tagName));
   };
 
-  const listAllNodes = (): unknown[] => {
+  const listAllNodes = (params: { includeArchived?: boolean }): unknown[] => {
     return testData.nodes
+      .filter((n) => params.includeArchived !== false || !n.archivedAt)
       .sort((a, b) => a.name.localeCompare(b.name))
       .map((n) => ({ n }));
   };
 
+  // Test cases arrive in their stored form and are kept decoded
   const createTestCase = (params: TestCaseParams): unknown[] => {
     if (params.props) {
-      testData.testCases.push(params.props as TestCase);
+      testData.testCases.push(
+        Schema.decodeUnknownSync(StoredTestCase)(params.props),
+      );
     }
     return [{ t: params.props }];
   };
@@ -561,6 +821,22 @@ export const ContentTestWithData = (
     return results;
   };
 
+  // Tags a tag is CHILD_OF, directly or not
+  const ancestorTags = (tagName: string): string[] => {
+    const ancestors: string[] = [];
+    for (let i = -1; i < ancestors.length; i++) {
+      const name = i < 0 ? tagName : ancestors[i];
+      for (const { parentName } of (testData.tagParents ?? []).filter(
+        (p) => p.tagName === name,
+      )) {
+        if (parentName !== tagName && !ancestors.includes(parentName)) {
+          ancestors.push(parentName);
+        }
+      }
+    }
+    return ancestors;
+  };
+
   // Helper to create query pattern matchers
   const queryContains =
     (...patterns: string[]) =>
@@ -577,8 +853,716 @@ export const ContentTestWithData = (
     (query: string) =>
       patterns.every((pattern) => !query.includes(pattern));
 
-  // Mock function to handle parameter-based queries
+  // Outgoing edges of a version in the shape content hashing reads them
+  const outgoingEdges = (versionId: ContentNodeVersionId) => [
+    ...testData.edges
+      .filter((e) => e.parentId === versionId)
+      .map((e) => ({
+        targetId: e.childId,
+        floating: false,
+        properties: e.properties,
+      })),
+    ...(testData.floatingEdges ?? [])
+      .filter((e) => e.parentId === versionId)
+      .map((e) => ({
+        targetId: e.nodeId,
+        floating: true,
+        properties: e.properties,
+      })),
+  ];
+
+  // Vector index stand-in: brute-force cosine similarity over every version
+  // embedded by the query's model
+  const searchVectors = (params: VectorSearchParams): unknown[] => {
+    const cosine = (a: ReadonlyArray<number>, b: ReadonlyArray<number>) =>
+      a.reduce((sum, value, i) => sum + value * (b[i] ?? 0), 0);
+    // Like the index, ranks every model's vectors together
+    return testData.versions
+      .flatMap((entry) =>
+        entry.embedding
+          ? [
+              {
+                nodeId: entry.nodeId,
+                nodeName: testData.nodes.find((n) => n.id === entry.nodeId)
+                  ?.name,
+                version: {
+                  ...entry.version,
+                  createdAt: JSON.parse(
+                    JSON.stringify(entry.version.createdAt),
+                  ),
+                },
+                model: entry.embedding.model,
+                score: cosine(entry.embedding.vector, params.embedding),
+              },
+            ]
+          : [],
+      )
+      .sort((a, b) => b.score - a.score)
+      .slice(0, params.k);
+  };
+
+  // Versions that include any of the given versions, or float to the nodes
+  const findIncludingVersions = (params: DependentsLevelParams): unknown[] => {
+    const parentIds = new Set([
+      ...testData.edges
+        .filter((e) => params.versionIds.includes(e.childId))
+        .map((e) => e.parentId),
+      ...(testData.floatingEdges ?? [])
+        .filter((e) => params.nodeIds.includes(e.nodeId))
+        .map((e) => e.parentId),
+    ]);
+    return testData.versions
+      .filter((v) => parentIds.has(v.version.id))
+      .map((v) => ({
+        nodeId: v.nodeId,
+        nodeName: testData.nodes.find((n) => n.id === v.nodeId)?.name,
+        version: {
+          ...v.version,
+          createdAt: JSON.parse(JSON.stringify(v.version.createdAt)),
+        },
+      }));
+  };
+
+  // Drop a version, relinking the PREVIOUS_VERSION chain around it
+  const deleteVersions = (versionIds: ReadonlyArray<string>) => {
+    const removed = new Map(
+      testData.versions
+        .filter((v) => versionIds.includes(v.version.id))
+        .map((v) => [v.version.id as string, v.previousVersionId]),
+    );
+    testData.versions = testData.versions
+      .filter((v) => !removed.has(v.version.id))
+      .map((v) =>
+        v.previousVersionId && removed.has(v.previousVersionId)
+          ? { ...v, previousVersionId: removed.get(v.previousVersionId) }
+          : v,
+      );
+    testData.edges = testData.edges.filter(
+      (e) =>
+        !versionIds.includes(e.parentId) && !versionIds.includes(e.childId),
+    );
+    testData.floatingEdges = (testData.floatingEdges ?? []).filter(
+      (e) => !versionIds.includes(e.parentId),
+    );
+  };
+
+  // Queries for impact analysis, archival and deletion; falls back to
+  // handleSearchQuery
+  const handleDependentsQuery = (
+    query: string,
+    params: any = {},
+  ): unknown[] => {
+    return Match.value(query).pipe(
+      // A node's version ids, or no row if the node does not exist
+      Match.when(
+        queryContains('RETURN n.id as id, collect(v.id) as versionIds'),
+        () => {
+          const { nodeId } = params as { nodeId: ContentNodeId };
+          return testData.nodes.some((n) => n.id === nodeId)
+            ? [
+                {
+                  id: nodeId,
+                  versionIds: testData.versions
+                    .filter((v) => v.nodeId === nodeId)
+                    .map((v) => v.version.id),
+                },
+              ]
+            : [];
+        },
+      ),
+      // One reverse INCLUDES level
+      Match.when(queryContains('UNWIND $nodeIds as childNodeId'), () =>
+        findIncludingVersions(params as DependentsLevelParams),
+      ),
+      // Versions outside the targets that include one of them
+      Match.when(
+        queryContains('WITH parent WHERE NOT parent.id IN $versionIds'),
+        () => {
+          const { nodeId, versionIds } = params as {
+            nodeId: ContentNodeId | null;
+            versionIds: ContentNodeVersionId[];
+          };
+          return findIncludingVersions({
+            versionIds,
+            nodeIds: nodeId ? [nodeId] : [],
+          })
+            .map((row) => (row as { version: { id: string } }).version.id)
+            .filter((id) => !versionIds.includes(id as ContentNodeVersionId))
+            .sort()
+            .map((parentId) => ({ parentId }));
+        },
+      ),
+      // Node that had a name before a rename
+      Match.when(queryContains('WHERE $name IN n.aliases'), () => {
+        const { name } = params as { name: string };
+        return testData.nodes
+          .filter((n) => n.aliases?.includes(name as Slug))
+          .map((n) => ({ n }));
+      }),
+      // Current names of renamed nodes, for names no node has now
+      Match.when(queryContains('RETURN alias, n.name as name'), () => {
+        const { names } = params as { names: Slug[] };
+        return names
+          .filter((alias) => !testData.nodes.some((n) => n.name === alias))
+          .flatMap((alias) =>
+            testData.nodes
+              .filter((n) => n.aliases?.includes(alias))
+              .map((n) => ({ alias, name: n.name })),
+          );
+      }),
+      // Another node with a name or alias
+      Match.when(queryContains('$newName IN coalesce(n.aliases, [])'), () => {
+        const { nodeId, newName } = params as {
+          nodeId: ContentNodeId;
+          newName: Slug;
+        };
+        return testData.nodes
+          .filter(
+            (n) =>
+              n.id !== nodeId &&
+              (n.name === newName || !!n.aliases?.includes(newName)),
+          )
+          .map((n) => ({ id: n.id }));
+      }),
+      // Drop a name from the aliases of every other node
+      Match.when(queryContains('SET other.aliases = [alias IN'), () => {
+        const { nodeId, name } = params as {
+          nodeId: ContentNodeId;
+          name: Slug;
+        };
+        testData.nodes = testData.nodes.map((n) =>
+          n.id !== nodeId && n.aliases?.includes(name)
+            ? { ...n, aliases: n.aliases.filter((alias) => alias !== name) }
+            : n,
+        );
+        return [];
+      }),
+      // Rename a node, keeping its old name as an alias
+      Match.when(queryContains('SET n.aliases = [alias IN'), () => {
+        const { nodeId, newName } = params as {
+          nodeId: ContentNodeId;
+          newName: Slug;
+        };
+        testData.nodes = testData.nodes.map((n) =>
+          n.id === nodeId
+            ? {
+                ...n,
+                aliases: [
+                  ...(n.aliases ?? []).filter((alias) => alias !== newName),
+                  n.name,
+                ],
+                name: newName,
+              }
+            : n,
+        );
+        const node = testData.nodes.find((n) => n.id === nodeId);
+        return node ? [{ n: node }] : [];
+      }),
+      // Archive or unarchive a node; archivedAt is kept encoded, the way
+      // Neo4j returns it
+      Match.when(
+        queryContainsAny(
+          'SET n.archivedAt = coalesce(n.archivedAt, $archivedAt)',
+          'REMOVE n.archivedAt',
+        ),
+        () => {
+          const { nodeId, archivedAt } = params as {
+            nodeId: ContentNodeId;
+            archivedAt: string;
+          };
+          const archive = query.includes('SET n.archivedAt');
+          testData.nodes = testData.nodes.map((n) => {
+            if (n.id !== nodeId) return n;
+            const { archivedAt: previous, ...rest } = n;
+            return archive
+              ? ({
+                  ...rest,
+                  archivedAt: previous ?? archivedAt,
+                } as unknown as ContentNode)
+              : rest;
+          });
+          const node = testData.nodes.find((n) => n.id === nodeId);
+          return node ? [{ n: node }] : [];
+        },
+      ),
+      // An identical INCLUDES edge between two versions
+      Match.when(
+        queryContains(
+          '-[r:INCLUDES]->(child:ContentNodeVersion {id: $childId})',
+          'RETURN type(r) as type',
+        ),
+        () => {
+          const wanted = JSON.stringify(toEdgeProperties(params as EdgeParams));
+          return testData.edges
+            .filter(
+              (e) =>
+                e.parentId === params.parentId &&
+                e.childId === params.childId &&
+                JSON.stringify(e.properties) === wanted,
+            )
+            .map(() => ({ type: 'INCLUDES' }));
+        },
+      ),
+      // Declare a node's parameters; kept as the JSON text Neo4j stores
+      Match.when(queryContains('SET n.parameters = $parameters'), () => {
+        const { nodeId, parameters } = params as {
+          nodeId: ContentNodeId;
+          parameters: string | null;
+        };
+        testData.nodes = testData.nodes.map((n) => {
+          if (n.id !== nodeId) return n;
+          const rest = Struct.omit(n, 'parameters');
+          return parameters === null
+            ? rest
+            : ({ ...rest, parameters } as unknown as ContentNode);
+        });
+        const node = testData.nodes.find((n) => n.id === nodeId);
+        return node ? [{ n: node }] : [];
+      }),
+      // Delete a node with its versions
+      Match.when(queryContains('DETACH DELETE v, n'), () => {
+        const { nodeId } = params as { nodeId: ContentNodeId };
+        deleteVersions(
+          testData.versions
+            .filter((v) => v.nodeId === nodeId)
+            .map((v) => v.version.id),
+        );
+        testData.nodes = testData.nodes.filter((n) => n.id !== nodeId);
+        testData.tags = testData.tags.filter((t) => t.nodeId !== nodeId);
+        testData.floatingEdges = (testData.floatingEdges ?? []).filter(
+          (e) => e.nodeId !== nodeId,
+        );
+        return [];
+      }),
+      // Check that a version exists
+      Match.when(queryContains('RETURN v.id as existingId'), () => {
+        const { versionId } = params as VersionByIdParams;
+        return testData.versions
+          .filter((v) => v.version.id === versionId)
+          .map((v) => ({ existingId: v.version.id }));
+      }),
+      // Delete one version
+      Match.when(
+        queryContains('CREATE (next)-[:PREVIOUS_VERSION]->(prev)'),
+        () => {
+          deleteVersions([(params as VersionByIdParams).versionId]);
+          return [];
+        },
+      ),
+      // Nodes with their tag names and those tags' ancestors
+      Match.when(
+        queryContains('RETURN node, collect(DISTINCT tag.name) as tags'),
+        () => {
+          const { nodeIds } = params as { nodeIds: ContentNodeId[] };
+          return nodeIds.flatMap((id) => {
+            const node = testData.nodes.find((n) => n.id === id);
+            const tags = testData.tags
+              .filter((t) => t.nodeId === id)
+              .map((t) => t.tagName);
+            return node
+              ? [
+                  {
+                    node,
+                    tags,
+                    ancestorTags: [...new Set(tags.flatMap(ancestorTags))],
+                  },
+                ]
+              : [];
+          });
+        },
+      ),
+      // Every test case's slots
+      Match.when(
+        queryContains('RETURN t.id as id, t.name as name, t.messageSlots'),
+        () =>
+          // Test cases that do not encode are returned as given, like a
+          // node written by hand
+          testData.testCases.map((t) =>
+            Either.match(Schema.encodeEither(StoredTestCase)(t), {
+              onLeft: () => ({
+                id: t.id,
+                name: t.name,
+                messageSlots: t.messageSlots,
+                parameters: null,
+              }),
+              onRight: (stored) => ({
+                id: stored.id,
+                name: stored.name,
+                messageSlots: stored.messageSlots,
+                parameters: stored.parameters ?? null,
+              }),
+            }),
+          ),
+      ),
+      // Data points that used any of the versions
+      Match.when(
+        queryContains('MATCH (dp:DataPoint)-[:USED_CONTENT]->'),
+        () => {
+          const { versionIds } = params as {
+            versionIds: ContentNodeVersionId[];
+          };
+          return (testData.dataPoints ?? []).flatMap((dp) => {
+            const used = dp.versionIds.filter((id) => versionIds.includes(id));
+            return used.length > 0 ? [{ id: dp.id, versionIds: used }] : [];
+          });
+        },
+      ),
+      Match.orElse(() => handleSearchQuery(query, params)),
+    );
+  };
+
+  // Queries for search and embeddings; falls back to handleQuery
+  const handleSearchQuery = (query: string, params: any = {}): unknown[] => {
+    return Match.value(query).pipe(
+      // Full-text search over content and descriptions
+      Match.when(queryContains('db.index.fulltext.queryNodes'), () =>
+        searchFullText(params as SearchParams),
+      ),
+      // Nearest versions by embedding
+      Match.when(queryContains('db.index.vector.queryNodes'), () =>
+        searchVectors(params as VectorSearchParams),
+      ),
+      // Versions with content and no embedding from the current model
+      Match.when(
+        queryContains("coalesce(v.embeddingModel, '') <> $model"),
+        () => {
+          const { model, after, batchSize } = params as PendingEmbeddingParams;
+          return testData.versions
+            .filter(
+              (v) =>
+                v.version.content !== undefined &&
+                v.embedding?.model !== model &&
+                v.version.id > after,
+            )
+            .sort((a, b) => a.version.id.localeCompare(b.version.id))
+            .slice(0, batchSize)
+            .map((v) => ({
+              versionId: v.version.id,
+              content: v.version.content,
+            }));
+        },
+      ),
+      // Store embeddings computed by a backfill
+      Match.when(queryContains('SET v.embedding = row.embedding'), () => {
+        const { model, rows } = params as StoreEmbeddingsParams;
+        testData.versions = testData.versions.map((v) => {
+          const row = rows.find((r) => r.versionId === v.version.id);
+          return row
+            ? { ...v, embedding: { model, vector: row.embedding } }
+            : v;
+        });
+        return [];
+      }),
+      // Copy an embedding from one version to another
+      Match.when(queryContains('SET v.embedding = source.embedding'), () => {
+        const { fromId, toId } = params as CopyEdgesParams;
+        const source = testData.versions.find((v) => v.version.id === fromId);
+        testData.versions = testData.versions.map((v) =>
+          v.version.id === toId ? { ...v, embedding: source?.embedding } : v,
+        );
+        return [];
+      }),
+      // Every node's latest version and tag count, for lint
+      Match.when(queryContains('count(tag) as tagCount'), () =>
+        testData.nodes
+          .map((n) => {
+            const latest = testData.versions
+              .filter((v) => v.nodeId === n.id)
+              .sort(
+                (a, b) =>
+                  new Date(
+                    JSON.parse(JSON.stringify(b.version.createdAt)),
+                  ).getTime() -
+                  new Date(
+                    JSON.parse(JSON.stringify(a.version.createdAt)),
+                  ).getTime(),
+              )[0]?.version;
+            return {
+              nodeId: n.id,
+              nodeName: n.name,
+              archived: n.archivedAt !== undefined,
+              versionId: latest?.id ?? null,
+              content: latest?.content ?? null,
+              tagCount: testData.tags.filter((t) => t.nodeId === n.id).length,
+            };
+          })
+          .sort((a, b) => a.nodeName.localeCompare(b.nodeName)),
+      ),
+      // Every INCLUDES edge, pinned and floating
+      Match.when(
+        queryContains('r.operation as operation, r.key as key'),
+        () => {
+          const nodeOf = (versionId: ContentNodeVersionId) =>
+            testData.versions.find((v) => v.version.id === versionId)?.nodeId;
+          return [
+            ...testData.edges.map((e) => ({ ...e, targetId: e.childId })),
+            ...(testData.floatingEdges ?? []).map((e) => ({
+              ...e,
+              targetId: e.nodeId,
+            })),
+          ].map((e) => ({
+            parentId: e.parentId,
+            parentNodeId: nodeOf(e.parentId),
+            targetId: e.targetId,
+            operation: e.properties.operation,
+            key: e.properties.key ?? null,
+          }));
+        },
+      ),
+      Match.orElse(() => handleQuery(query, params)),
+    );
+  };
+
+  // Queries for graph traversal features; falls back to the core handlers
   const handleQuery = (query: string, params: any = {}): unknown[] => {
+    return Match.value(query).pipe(
+      // Get versions by ID with their node names
+      Match.when(
+        queryContains(
+          'UNWIND $versionIds as versionId',
+          'RETURN node, owner.name as nodeName',
+        ),
+        () =>
+          (params as VersionsByIdParams).versionIds.flatMap((versionId) =>
+            getVersionById({ versionId }),
+          ),
+      ),
+      // Get children of several versions with parent names
+      Match.when(
+        queryContains(
+          'UNWIND $versionIds as versionId',
+          'RETURN versionId as parentId, child, r as edge',
+        ),
+        () => getChildrenWithParentName(params as ChildrenParams),
+      ),
+      // Read a version's content and edges to hash them
+      Match.when(queryContains('RETURN v.content as content'), () => {
+        const { versionId } = params as VersionByIdParams;
+        const found = testData.versions.find((v) => v.version.id === versionId);
+        return found
+          ? [
+              {
+                content: found.version.content,
+                edges: outgoingEdges(versionId),
+              },
+            ]
+          : [];
+      }),
+      // Find versions by content hash with their nodes
+      Match.when(
+        queryContains(
+          'MATCH (v:ContentNodeVersion {contentHash: $contentHash})',
+        ),
+        () => {
+          const { contentHash } = params as ContentHashParams;
+          return testData.versions
+            .filter((v) => v.version.contentHash === contentHash)
+            .map((v) => ({
+              version: {
+                ...v.version,
+                createdAt: JSON.parse(JSON.stringify(v.version.createdAt)),
+              },
+              nodeId: v.nodeId,
+              nodeName: testData.nodes.find((n) => n.id === v.nodeId)?.name,
+            }))
+            .sort((a, b) =>
+              a.version.createdAt.localeCompare(b.version.createdAt),
+            );
+        },
+      ),
+      // Versions the given versions include, floating edges leading to every
+      // version of their node
+      Match.when(queryContains('UNWIND $frontierIds as fromId'), () =>
+        (params.frontierIds as ContentNodeVersionId[]).flatMap((fromId) => [
+          ...testData.edges
+            .filter((e) => e.parentId === fromId)
+            .map((e) => ({ fromId, toId: e.childId })),
+          ...(testData.floatingEdges ?? [])
+            .filter((e) => e.parentId === fromId)
+            .flatMap((e) =>
+              testData.versions
+                .filter((v) => v.nodeId === e.nodeId)
+                .map((v) => ({ fromId, toId: v.version.id })),
+            ),
+        ]),
+      ),
+      // Versions of a node a floating edge would point at
+      Match.when(queryContains('RETURN child.id as id'), () =>
+        testData.versions
+          .filter((v) => v.nodeId === params.childNodeId)
+          .map((v) => ({ id: v.version.id })),
+      ),
+      // Create a floating INCLUDES relationship to a ContentNode
+      Match.when(
+        queryContains(
+          'MATCH (child:ContentNode {id: $childNodeId})',
+          'CREATE (parent)-[:INCLUDES {operation:',
+        ),
+        () => {
+          const linkParams = params as LinkFloatingParams;
+          const node = testData.nodes.find(
+            (n) => n.id === linkParams.childNodeId,
+          );
+          if (node) {
+            testData.floatingEdges?.push({
+              parentId: linkParams.parentId,
+              nodeId: node.id,
+              properties: toEdgeProperties(linkParams),
+            });
+          }
+          return [];
+        },
+      ),
+      // Page through a node's versions, newest first
+      Match.when(queryContains('WITH p, collect(v) as versions'), () => {
+        const { nodeId, limit, offset } = params as HistoryParams;
+        if (!testData.nodes.some((n) => n.id === nodeId)) return [];
+        const versions = testData.versions
+          .filter((v) => v.nodeId === nodeId)
+          .map((v) => ({
+            ...v.version,
+            createdAt: JSON.parse(JSON.stringify(v.version.createdAt)),
+          }))
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+        return [
+          {
+            total: versions.length,
+            page: versions.slice(offset, offset + limit),
+          },
+        ];
+      }),
+      // Outgoing INCLUDES edges of a version with their targets
+      Match.when(
+        queryContains(
+          'MATCH (parent:ContentNodeVersion {id: $versionId})-[r:INCLUDES]->(target)',
+        ),
+        () => {
+          const { versionId } = params as VersionByIdParams;
+          const nodeName = (nodeId: ContentNodeId) =>
+            testData.nodes.find((n) => n.id === nodeId)?.name;
+          return [
+            ...testData.edges
+              .filter((e) => e.parentId === versionId)
+              .map((e) => ({
+                targetId: e.childId,
+                targetName: nodeName(
+                  testData.versions.find((v) => v.version.id === e.childId)
+                    ?.nodeId as ContentNodeId,
+                ),
+                floating: false,
+                properties: e.properties,
+              })),
+            ...(testData.floatingEdges ?? [])
+              .filter((e) => e.parentId === versionId)
+              .map((e) => ({
+                targetId: e.nodeId,
+                targetName: nodeName(e.nodeId),
+                floating: true,
+                properties: e.properties,
+              })),
+          ];
+        },
+      ),
+      // Find a version that belongs to a given node
+      Match.when(
+        queryContains(
+          'MATCH (target:ContentNodeVersion {id: $versionId})-[:VERSION_OF]->(p:ContentNode {id: $nodeId})',
+        ),
+        () => {
+          const { nodeId, versionId } = params as VersionOfNodeParams;
+          const found = testData.versions.find(
+            (v) => v.version.id === versionId && v.nodeId === nodeId,
+          );
+          return found
+            ? [
+                {
+                  target: {
+                    ...found.version,
+                    createdAt: JSON.parse(
+                      JSON.stringify(found.version.createdAt),
+                    ),
+                  },
+                },
+              ]
+            : [];
+        },
+      ),
+      // Copy outgoing INCLUDES edges between versions
+      Match.when(queryContains('SET copy = properties(r)'), () => {
+        const { fromId, toId } = params as CopyEdgesParams;
+        testData.edges.push(
+          ...testData.edges
+            .filter((e) => e.parentId === fromId)
+            .map((e) => ({ ...e, parentId: toId })),
+        );
+        testData.floatingEdges?.push(
+          ...(testData.floatingEdges ?? [])
+            .filter((e) => e.parentId === fromId)
+            .map((e) => ({ ...e, parentId: toId })),
+        );
+        return [];
+      }),
+      // List the ids an INCLUDES edge from a parent points at
+      Match.when(
+        queryContains(
+          'MATCH (parent:ContentNodeVersion {id: $parentId})-[r:INCLUDES]->(child)',
+          'RETURN child.id as childId',
+        ),
+        () => {
+          const { parentId } = params as VersionChildrenParams;
+          const nodeName = (nodeId?: string) =>
+            testData.nodes.find((n) => n.id === nodeId)?.name;
+          return [
+            ...testData.edges
+              .filter((e) => e.parentId === parentId)
+              .map((e) => ({
+                childId: e.childId,
+                operation: e.properties.operation,
+                order: e.properties.order ?? null,
+                nodeName: nodeName(
+                  testData.versions.find((v) => v.version.id === e.childId)
+                    ?.nodeId,
+                ),
+              })),
+            ...(testData.floatingEdges ?? [])
+              .filter((e) => e.parentId === parentId)
+              .map((e) => ({
+                childId: e.nodeId,
+                operation: e.properties.operation,
+                order: e.properties.order ?? null,
+                nodeName: nodeName(e.nodeId),
+              })),
+          ];
+        },
+      ),
+      // Set concatenate order on a parent's edges
+      Match.when(queryContains('SET r.order = entry.order'), () => {
+        const { parentId, children } = params as ReorderParams;
+        for (const { id, order } of children) {
+          testData.edges = testData.edges.map((e) =>
+            e.parentId === parentId && e.childId === id
+              ? { ...e, properties: { ...e.properties, order } }
+              : e,
+          );
+          testData.floatingEdges = (testData.floatingEdges ?? []).map((e) =>
+            e.parentId === parentId && e.nodeId === id
+              ? { ...e, properties: { ...e.properties, order } }
+              : e,
+          );
+        }
+        return [];
+      }),
+      Match.orElse(() => handleCoreQuery(query, params)),
+    );
+  };
+
+  const runMockQuery = (query: string, params: any = {}): unknown[] => {
+    queryLog?.push(query);
+    return handleDependentsQuery(query, params);
+  };
+
+  // Mock function to handle parameter-based queries
+  const handleCoreQuery = (query: string, params: any = {}): unknown[] => {
     return Match.value(query).pipe(
       // Find node by name
       Match.when(
@@ -623,16 +1607,6 @@ export const ContentTestWithData = (
           )(q) && queryExcludes('OPTIONAL MATCH')(q),
         () => getVersionById(params as VersionByIdParams),
       ),
-      // Get children with parent name
-      Match.when(
-        (q) =>
-          queryContains(
-            'MATCH (node:ContentNodeVersion {id: $versionId})-[r:INCLUDES]->(child:ContentNodeVersion)',
-            'MATCH (child)-[:VERSION_OF]->(parentNode:ContentNode)',
-            'RETURN child, r as edge, parentNode.name as parentName',
-          )(q),
-        () => getChildrenWithParentName(params as VersionByIdParams),
-      ),
       // Get children (old pattern)
       Match.when(
         (q) =>
@@ -641,21 +1615,27 @@ export const ContentTestWithData = (
           )(q) && queryExcludes('parentNode.name')(q),
         () => getChildrenWithSlotsAndRoles(params as VersionChildrenParams),
       ),
-      // Create tag with relationship
-      Match.when(
-        (q) =>
-          queryContains(
-            'MERGE (t:Tag {name: $tagName})',
-            'MERGE (n)-[:HAS_TAG]->(t)',
-          )(q),
-        () => createTag(params as TagParams),
+      // Find tag by name
+      Match.when(queryContains('MATCH (n:Tag {name: $name}) RETURN n'), () =>
+        tagNodes.filter((t) => t.name === params.name).map((n) => ({ n })),
       ),
-      // Create tag without relationship
+      // Create tag
+      Match.when(queryContains('CREATE (n:Tag $props) RETURN n'), () => {
+        tagNodes.push(params.props as Tag);
+        return [{ n: params.props }];
+      }),
+      // Tag a node
       Match.when(
-        (q) =>
-          queryContains('MERGE (t:Tag {name: $tagName})')(q) &&
-          queryExcludes('MERGE (n)-[:HAS_TAG]->(t)')(q),
-        () => [],
+        queryContains(
+          'MATCH (t:Tag {id: $tagId})',
+          'MERGE (n)-[:HAS_TAG]->(t)',
+        ),
+        () => {
+          const tag = tagNodes.find((t) => t.id === params.tagId);
+          return tag
+            ? createTag({ nodeId: params.nodeId, tagName: tag.name })
+            : [];
+        },
       ),
       // Create INCLUDES relationship
       Match.when(
@@ -666,52 +1646,91 @@ export const ContentTestWithData = (
             testData.edges.push({
               parentId: linkParams.parentId,
               childId: linkParams.childId,
-              properties: {
-                operation: linkParams.operation,
-                key: linkParams.key || undefined,
-              },
+              properties: toEdgeProperties(linkParams),
             });
           }
           return [];
         },
       ),
-      // Find content for slot with tags
+      // Find content for slot
       Match.when(
-        (q) =>
-          queryContains(
-            'MATCH (n:ContentNode)-[:VERSION_OF]-(v:ContentNodeVersion)',
-            'WHERE ALL(tag IN $tags',
-          )(q),
+        queryContains(
+          'MATCH (n:ContentNode)-[:VERSION_OF]-(v:ContentNodeVersion)',
+          'RETURN n.id as nodeId, n.name as nodeName, v as version',
+        ),
         () => {
-          const tagParams = params as FindContentByTagsParams;
-          const tags = tagParams.tags || [];
-          // Find nodes that have all required tags
+          const matchDescendants = query.includes('[:CHILD_OF*0..]');
+          const condition =
+            query
+              .split('WHERE n.archivedAt IS NULL AND ')[1]
+              ?.split(
+                / AND NOT n\.id IN | AND \(n\.id IN | AND v\.| WITH | RETURN /,
+              )[0] ?? '';
+          const named = (
+            node: ContentNode,
+            ids: string[] = [],
+            names: string[] = [],
+          ) => ids.includes(node.id) || names.includes(node.name);
           const matchingNodes = testData.nodes.filter((node) => {
+            if (node.archivedAt) return false;
+            if (
+              query.includes('NOT n.id IN $excludeIds') &&
+              named(node, params.excludeIds, params.excludeNames)
+            ) {
+              return false;
+            }
+            if (
+              query.includes('(n.id IN $includeIds') &&
+              !named(node, params.includeIds, params.includeNames)
+            ) {
+              return false;
+            }
             const nodeTags = testData.tags
               .filter((t) => t.nodeId === node.id)
-              .map((t) => t.tagName);
-            return tags.every((tag: string) => nodeTags.includes(tag));
+              .flatMap((t) =>
+                matchDescendants
+                  ? [t.tagName, ...ancestorTags(t.tagName)]
+                  : [t.tagName],
+              );
+            return (
+              !condition ||
+              evaluateTagCondition(condition, params, (tag) =>
+                nodeTags.includes(tag),
+              )
+            );
           });
 
-          // Get latest version for each matching node
-          const versionResults: { versionId: ContentNodeVersionId }[] = [];
-          for (const node of matchingNodes) {
-            const versions = testData.versions
-              .filter((v) => v.nodeId === node.id)
-              .sort((a, b) => {
-                const dateA = new Date(
-                  JSON.parse(JSON.stringify(a.version.createdAt)),
-                );
-                const dateB = new Date(
-                  JSON.parse(JSON.stringify(b.version.createdAt)),
-                );
-                return dateB.getTime() - dateA.getTime();
-              });
-            if (versions[0]) {
-              versionResults.push({ versionId: versions[0].version.id });
-            }
-          }
-          return versionResults;
+          // Versions of each matching node, newest first; one per node
+          // unless every version is asked for
+          const latestOnly = query.includes('collect(v)[0] as v');
+          const createdAt = (v: { version: ContentNodeVersion }) =>
+            new Date(JSON.parse(JSON.stringify(v.version.createdAt)));
+          return matchingNodes
+            .flatMap((node) => {
+              const versions = testData.versions
+                .filter(
+                  (v) =>
+                    v.nodeId === node.id &&
+                    (!params.asOf || createdAt(v) <= new Date(params.asOf)),
+                )
+                .sort((a, b) => createdAt(b).getTime() - createdAt(a).getTime())
+                .map((v) => ({ node, version: v }));
+              return latestOnly ? versions.slice(0, 1) : versions;
+            })
+            .sort(
+              (a, b) =>
+                createdAt(b.version).getTime() - createdAt(a.version).getTime(),
+            )
+            .map(({ node, version }) => ({
+              nodeId: node.id,
+              nodeName: node.name,
+              version: {
+                ...version.version,
+                createdAt: JSON.parse(
+                  JSON.stringify(version.version.createdAt),
+                ),
+              },
+            }));
         },
       ),
       // List all nodes
@@ -722,7 +1741,7 @@ export const ContentTestWithData = (
             'RETURN n',
             'ORDER BY n.name',
           )(q),
-        () => listAllNodes(),
+        () => listAllNodes(params),
       ),
       // Get tags for a node
       Match.when(
@@ -761,13 +1780,13 @@ export const ContentTestWithData = (
     Neo4jService,
     Neo4jService.of({
       runQuery: <T = unknown>(query: any, params: any = {}) => {
-        const data = handleQuery(query, params);
+        const data = runMockQuery(query, params);
         return Effect.succeed(data as T[]);
       },
       runInTransaction: <A>(operations: any) => {
         const txContext = {
           run: <T = unknown>(query: any, params: any = {}) => {
-            const data = handleQuery(query, params);
+            const data = runMockQuery(query, params);
             return Effect.succeed(data as T[]);
           },
         };
@@ -775,7 +1794,7 @@ export const ContentTestWithData = (
       },
       runBatch: <T = unknown>(queries: any) => {
         const results = queries.map(({ query, params }: any) =>
-          handleQuery(query, params),
+          runMockQuery(query, params),
         );
         return Effect.succeed(results as T[][]);
       },
@@ -802,6 +1821,15 @@ export const ContentTestWithEmptyData = () =>
     testCases: [],
   });
 
+/**
+ * Test layer with the default data and some more test cases
+ */
+export const ContentTestWithTestCases = (testCases: TestCase[]) =>
+  ContentTestWithData({
+    ...defaultTestData,
+    testCases: [...defaultTestData.testCases, ...testCases],
+  });
+
 /**
  * Test layer for node without versions
  */
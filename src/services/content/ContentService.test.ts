@@ -1,19 +1,44 @@
 import { describe, it, expect } from '@effect/vitest';
-import { Effect, Option, Exit, Schema, HashMap, Chunk } from 'effect';
+import { Effect, Option, Exit, Schema, HashMap, Chunk, Layer } from 'effect';
 import * as ContentService from './index';
 import {
   Slug,
   ContentNodeId,
   ContentNodeVersionId,
+  TestCaseId,
 } from '../../domain/types/branded';
-import { InsertKey, InsertValue } from '../../domain/types/contentNode';
-import { TestCase, LLMModel } from '../../domain/types/testCase';
-import { NotFoundError, PersistenceError } from '../../domain/types/errors';
+import {
+  InsertKey,
+  InsertValue,
+  ProcessingOptions,
+} from '../../domain/types/contentNode';
+import {
+  TestCase,
+  LLMModel,
+  SlotParameterReference,
+} from '../../domain/types/testCase';
+import {
+  ContentCycleError,
+  ContentInUseError,
+  NotFoundError,
+  ParameterValidationError,
+  PersistenceError,
+  SlugInUseError,
+  TemplateParseError,
+  UnresolvedPlaceholderError,
+} from '../../domain/types/errors';
 import {
   ContentTestWithData,
   ContentTestWithEmptyData,
   ContentTestWithNodeNoVersions,
+  ContentTestWithTestCases,
+  generateTestContentNode,
+  generateTestContentNodeVersion,
 } from './ContentService.test-layers';
+import { RenderCache } from '../render-cache';
+import { RenderCacheLive } from '../../layers/render-cache';
+import { HashedEmbeddingsLive } from '../../layers/embeddings';
+import { Embeddings } from '../embeddings';
 
 describe('ContentService', () => {
   describe('createContentNode', () => {
@@ -167,6 +192,173 @@ describe('ContentService', () => {
         }
       }).pipe(Effect.provide(ContentTestWithData())),
     );
+
+    it.effect('should return the latest version when nothing changed', () =>
+      Effect.gen(function* () {
+        const nodeId = Schema.decodeSync(ContentNodeId)(
+          '550e8400-e29b-41d4-a716-446655440001',
+        );
+        const first = yield* ContentService.createContentNodeVersion(
+          nodeId,
+          'Same content',
+          'First push',
+        );
+        const again = yield* ContentService.createContentNodeVersion(
+          nodeId,
+          'Same content',
+          'Second push',
+        );
+
+        expect(first.contentHash).toBe(
+          ContentService.computeContentHash('Same content'),
+        );
+        expect(again.id).toBe(first.id);
+        expect(again.commitMessage).toBe('First push');
+
+        const forced = yield* ContentService.createContentNodeVersion(
+          nodeId,
+          'Same content',
+          'Forced push',
+          [],
+          { allowDuplicate: true },
+        );
+        expect(forced.id).not.toBe(first.id);
+        const latest =
+          yield* ContentService.getLatestContentNodeVersion(nodeId);
+        expect(Option.getOrThrow(latest).id).toBe(forced.id);
+      }).pipe(Effect.provide(ContentTestWithNodeNoVersions)),
+    );
+
+    it.effect('should not link an unchanged push to its parents again', () =>
+      Effect.gen(function* () {
+        const root = yield* ContentService.createContentNode(
+          Schema.decodeSync(Slug)('root'),
+          'Root',
+        );
+        const rootVersion = yield* ContentService.createContentNodeVersion(
+          root.id,
+          'Root',
+          'Root',
+        );
+        const child = yield* ContentService.createContentNode(
+          Schema.decodeSync(Slug)('child'),
+          'Child',
+        );
+        const parents = [
+          { versionId: rootVersion.id, operation: 'concatenate' as const },
+        ];
+        yield* ContentService.createContentNodeVersion(
+          child.id,
+          'Child',
+          'First push',
+          parents,
+        );
+        const rootHash = ContentService.getLatestContentNodeVersion(
+          root.id,
+        ).pipe(Effect.map((v) => Option.getOrThrow(v).contentHash));
+        const hashAfterFirst = yield* rootHash;
+        yield* ContentService.createContentNodeVersion(
+          child.id,
+          'Child',
+          'Second push',
+          parents,
+        );
+
+        expect(yield* ContentService.getChildren(rootVersion.id)).toHaveLength(
+          1,
+        );
+        expect(yield* ContentService.processContentFromId(rootVersion.id)).toBe(
+          'Root\nChild',
+        );
+        expect(yield* rootHash).toBe(hashAfterFirst);
+      }).pipe(Effect.provide(ContentTestWithEmptyData())),
+    );
+
+    it.effect('should keep the content hash a version was created with', () =>
+      Effect.gen(function* () {
+        const nodeId = Schema.decodeSync(ContentNodeId)(
+          '550e8400-e29b-41d4-a716-446655440001',
+        );
+        const childId = Schema.decodeSync(ContentNodeVersionId)(
+          '650e8400-e29b-41d4-a716-446655440002',
+        );
+        const parent = yield* ContentService.createContentNodeVersion(
+          nodeId,
+          'Hello {{name}}',
+          'Parent',
+        );
+        yield* ContentService.linkNodes(parent.id, childId, {
+          operation: 'insert',
+          key: 'name',
+        });
+
+        const linked = Option.getOrThrow(
+          yield* ContentService.getLatestContentNodeVersion(nodeId),
+        );
+        expect(linked.contentHash).toBe(parent.contentHash);
+
+        // The same text again keeps the composite version and its child
+        const again = yield* ContentService.createContentNodeVersion(
+          nodeId,
+          'Hello {{name}}',
+          'Push again',
+        );
+        expect(again.id).toBe(parent.id);
+        expect(yield* ContentService.processContentFromId(again.id)).toBe(
+          'Hello Alice',
+        );
+
+        // A version created with edges is hashed with them
+        const reverted = yield* ContentService.revertContentNode(
+          nodeId,
+          parent.id,
+          'Revert',
+        );
+        expect(reverted.contentHash).toBe(
+          ContentService.computeContentHash('Hello {{name}}', [
+            {
+              targetId: childId,
+              floating: false,
+              properties: { operation: 'insert', key: 'name' },
+            },
+          ]),
+        );
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+  });
+
+  describe('findVersionsByContentHash', () => {
+    it.effect('should find identical text stored in different nodes', () =>
+      Effect.gen(function* () {
+        const [first, second] = [
+          '550e8400-e29b-41d4-a716-446655440003',
+          '550e8400-e29b-41d4-a716-446655440004',
+        ].map((id) => Schema.decodeSync(ContentNodeId)(id));
+        yield* ContentService.createContentNodeVersion(
+          first,
+          'Shared rule',
+          'Add rule',
+        );
+        yield* ContentService.createContentNodeVersion(
+          second,
+          'Shared rule',
+          'Add rule',
+        );
+
+        const matches = yield* ContentService.findVersionsByContentHash(
+          ContentService.computeContentHash('Shared rule'),
+        );
+        expect(matches.map((m) => m.nodeId)).toEqual([first, second]);
+        expect(matches.every((m) => m.version.content === 'Shared rule')).toBe(
+          true,
+        );
+
+        const none = yield* ContentService.findVersionsByContentHash(
+          ContentService.computeContentHash('Unknown'),
+        );
+        expect(none).toEqual([]);
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
   });
 
   describe('findContentNodeByName', () => {
@@ -193,6 +385,161 @@ describe('ContentService', () => {
     );
   });
 
+  describe('renameContentNode', () => {
+    const slug = Schema.decodeSync(Slug);
+
+    it.effect('should keep resolving the old name', () =>
+      Effect.gen(function* () {
+        const renamed = yield* ContentService.renameContentNode(
+          slug('user-name'),
+          slug('user-display-name'),
+        );
+        expect(renamed.name).toBe('user-display-name');
+        expect(renamed.aliases).toEqual(['user-name']);
+
+        const found = yield* ContentService.mustFindContentNodeByName(
+          slug('user-name'),
+        );
+        expect(found.id).toBe(renamed.id);
+        expect(found.name).toBe('user-display-name');
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    it.effect('should refuse a name or alias of another node', () =>
+      Effect.gen(function* () {
+        const taken = yield* Effect.flip(
+          ContentService.renameContentNode(
+            slug('be-helpful'),
+            slug('be-concise'),
+          ),
+        );
+        expect(taken).toBeInstanceOf(SlugInUseError);
+        expect(taken).toMatchObject({
+          slug: 'be-concise',
+          existingId: '550e8400-e29b-41d4-a716-446655440003',
+        });
+
+        yield* ContentService.renameContentNode(
+          slug('be-concise'),
+          slug('be-terse'),
+        );
+        const alias = yield* Effect.flip(
+          ContentService.renameContentNode(
+            slug('be-helpful'),
+            slug('be-concise'),
+          ),
+        );
+        expect(alias).toBeInstanceOf(SlugInUseError);
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    it.effect('should allow taking back a former name', () =>
+      Effect.gen(function* () {
+        yield* ContentService.renameContentNode(
+          slug('be-concise'),
+          slug('be-terse'),
+        );
+        const restored = yield* ContentService.renameContentNode(
+          slug('be-terse'),
+          slug('be-concise'),
+        );
+        expect(restored.name).toBe('be-concise');
+        expect(restored.aliases).toEqual(['be-terse']);
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    it.effect(
+      "should refuse creating a node under another node's former name",
+      () =>
+        Effect.gen(function* () {
+          const renamed = yield* ContentService.renameContentNode(
+            slug('be-concise'),
+            slug('be-terse'),
+          );
+          const taken = yield* Effect.flip(
+            ContentService.createContentNode(
+              slug('be-concise'),
+              'Reuses a name',
+            ),
+          );
+          expect(taken).toBeInstanceOf(SlugInUseError);
+          expect(taken).toMatchObject({
+            slug: 'be-concise',
+            existingId: renamed.id,
+          });
+        }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    describe('with aliases left over from before these checks', () => {
+      const withStaleAliases = () =>
+        ContentTestWithData({
+          nodes: [
+            {
+              ...generateTestContentNode(
+                'first',
+                'Was shared-name first',
+                '550e8400-e29b-41d4-a716-446655440101',
+              ),
+              aliases: [slug('shared-name')],
+            },
+            {
+              ...generateTestContentNode(
+                'second',
+                'Was shared-name later',
+                '550e8400-e29b-41d4-a716-446655440102',
+              ),
+              aliases: [slug('shared-name')],
+            },
+            generateTestContentNode(
+              'current',
+              'Took over a former name of stale',
+              '550e8400-e29b-41d4-a716-446655440103',
+            ),
+            {
+              ...generateTestContentNode(
+                'stale',
+                'Was current before',
+                '550e8400-e29b-41d4-a716-446655440104',
+              ),
+              aliases: [slug('current')],
+            },
+          ],
+          versions: [],
+          edges: [],
+          tags: [],
+          testCases: [],
+        });
+
+      it.effect('should fail to resolve a former name of two nodes', () =>
+        Effect.gen(function* () {
+          const result = yield* Effect.flip(
+            ContentService.findContentNodeByName(slug('shared-name')),
+          );
+          expect(result).toBeInstanceOf(PersistenceError);
+          expect(result.originalMessage).toContain("'first', 'second'");
+        }).pipe(Effect.provide(withStaleAliases())),
+      );
+
+      it.effect('should drop the old name from other nodes on rename', () =>
+        Effect.gen(function* () {
+          const renamed = yield* ContentService.renameContentNode(
+            slug('current'),
+            slug('renamed'),
+          );
+          const found = yield* ContentService.mustFindContentNodeByName(
+            slug('current'),
+          );
+          expect(found.id).toBe(renamed.id);
+
+          const stale = yield* ContentService.mustFindContentNodeByName(
+            slug('stale'),
+          );
+          expect(stale.aliases).toEqual([]);
+        }).pipe(Effect.provide(withStaleAliases())),
+      );
+    });
+  });
+
   describe('getNodeTags', () => {
     it.effect('should return empty array for node with no tags', () =>
       Effect.gen(function* () {
@@ -432,6 +779,258 @@ describe('ContentService', () => {
         }).pipe(Effect.provide(ContentTestWithEmptyData())),
     );
 
+    it.effect(
+      'should order concatenate children by edge order and separator',
+      () =>
+        Effect.gen(function* () {
+          const parent = yield* ContentService.createContentNode(
+            Schema.decodeSync(Slug)('ordered-parent'),
+            'Parent with ordered children',
+          );
+          const parentVersion = yield* ContentService.createContentNodeVersion(
+            parent.id,
+            'Intro',
+            'Parent',
+          );
+          const addChild = (
+            name: string,
+            content: string,
+            edge: { order?: number; separator?: string },
+          ) =>
+            Effect.gen(function* () {
+              const node = yield* ContentService.createContentNode(
+                Schema.decodeSync(Slug)(name),
+                content,
+              );
+              yield* ContentService.createContentNodeVersion(
+                node.id,
+                content,
+                content,
+                [
+                  {
+                    versionId: parentVersion.id,
+                    operation: 'concatenate',
+                    ...edge,
+                  },
+                ],
+              );
+            });
+          yield* addChild('apple', 'Apple', {});
+          yield* addChild('mango', 'Mango', { order: 1, separator: ' | ' });
+          yield* addChild('zebra', 'Zebra', { order: 0, separator: '\n\n' });
+
+          const result = yield* ContentService.processContentFromId(
+            parentVersion.id,
+          );
+          expect(result).toBe('Intro\n\nZebra | Mango\nApple');
+        }).pipe(Effect.provide(ContentTestWithEmptyData())),
+    );
+
+    it.effect('should render template defaults and conditionals', () =>
+      Effect.gen(function* () {
+        const node = yield* ContentService.createContentNode(
+          Schema.decodeSync(Slug)('templated-greeting'),
+          'Greeting with template features',
+        );
+        const version = yield* ContentService.createContentNodeVersion(
+          node.id,
+          'Hello {{name | "friend"}}!{{#if topic}} Topic: {{topic | upper}}{{/if}}',
+          'Template features',
+        );
+
+        const withoutTopic = yield* ContentService.processContentFromId(
+          version.id,
+        );
+        expect(withoutTopic).toBe('Hello friend!');
+
+        const withTopic = yield* ContentService.processContentFromId(
+          version.id,
+          HashMap.make([
+            Schema.decodeSync(InsertKey)('topic'),
+            Schema.decodeSync(InsertValue)('effect'),
+          ]),
+        );
+        expect(withTopic).toBe('Hello friend! Topic: EFFECT');
+      }).pipe(Effect.provide(ContentTestWithEmptyData())),
+    );
+
+    it.effect('should report template parse errors against the version', () =>
+      Effect.gen(function* () {
+        const node = yield* ContentService.createContentNode(
+          Schema.decodeSync(Slug)('broken-template'),
+          'Template with a syntax error',
+        );
+        const version = yield* ContentService.createContentNodeVersion(
+          node.id,
+          'Hello {{#if name}}there',
+          'Missing close tag',
+        );
+
+        const result = yield* Effect.either(
+          ContentService.processContentFromId(version.id),
+        );
+
+        expect(result._tag).toBe('Left');
+        if (result._tag === 'Left') {
+          expect(result.left).toBeInstanceOf(TemplateParseError);
+          expect((result.left as TemplateParseError).versionId).toBe(
+            version.id,
+          );
+        }
+      }).pipe(Effect.provide(ContentTestWithEmptyData())),
+    );
+
+    it.effect(
+      'should fail in strict mode when placeholders are unresolved',
+      () =>
+        Effect.gen(function* () {
+          const greeting = yield* ContentService.createContentNode(
+            Schema.decodeSync(Slug)('strict-greeting'),
+            'Greeting with an inserted sign-off',
+          );
+          const greetingVersion =
+            yield* ContentService.createContentNodeVersion(
+              greeting.id,
+              'Hi {{name}}. {{signoff}}',
+              'Greeting',
+            );
+          const signoff = yield* ContentService.createContentNode(
+            Schema.decodeSync(Slug)('strict-signoff'),
+            'Sign-off',
+          );
+          const signoffVersion = yield* ContentService.createContentNodeVersion(
+            signoff.id,
+            'Thanks, {{user_name}}',
+            'Sign-off',
+            [
+              {
+                versionId: greetingVersion.id,
+                operation: 'insert',
+                key: 'signoff',
+              },
+            ],
+          );
+          const parameters = HashMap.make([
+            Schema.decodeSync(InsertKey)('name'),
+            Schema.decodeSync(InsertValue)('Ada'),
+          ]);
+
+          const lenient = yield* ContentService.processContentFromId(
+            greetingVersion.id,
+            parameters,
+          );
+          expect(lenient).toBe('Hi Ada. Thanks, {{user_name}}');
+
+          const result = yield* Effect.either(
+            ContentService.processContentFromId(
+              greetingVersion.id,
+              parameters,
+              {
+                strict: true,
+              },
+            ),
+          );
+
+          expect(result._tag).toBe('Left');
+          if (result._tag === 'Left') {
+            expect(result.left).toBeInstanceOf(UnresolvedPlaceholderError);
+            expect(
+              (result.left as UnresolvedPlaceholderError).placeholders,
+            ).toEqual([
+              {
+                key: 'user_name',
+                placeholder: '{{user_name}}',
+                versionId: signoffVersion.id,
+                nodeName: 'strict-signoff',
+              },
+            ]);
+          }
+        }).pipe(Effect.provide(ContentTestWithEmptyData())),
+    );
+
+    it.effect(
+      'should render in strict mode when every placeholder resolves',
+      () =>
+        Effect.gen(function* () {
+          const versionId = Schema.decodeSync(ContentNodeVersionId)(
+            '650e8400-e29b-41d4-a716-446655440001',
+          );
+
+          const result = yield* ContentService.processContentFromId(
+            versionId,
+            HashMap.empty(),
+            { strict: true },
+          );
+
+          expect(result).toBe('Hello Alice, welcome to our service!');
+        }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    it.effect('should fail with ContentCycleError on cyclic data', () => {
+      const nodeA = generateTestContentNode(
+        'cycle-a',
+        'Cycle A',
+        '550e8400-e29b-41d4-a716-446655440011',
+      );
+      const nodeB = generateTestContentNode(
+        'cycle-b',
+        'Cycle B',
+        '550e8400-e29b-41d4-a716-446655440012',
+      );
+      const versionA = generateTestContentNodeVersion(
+        'A',
+        'A',
+        '2024-01-01T00:00:00.000Z',
+        '650e8400-e29b-41d4-a716-446655440011',
+      );
+      const versionB = generateTestContentNodeVersion(
+        'B',
+        'B',
+        '2024-01-01T00:00:00.000Z',
+        '650e8400-e29b-41d4-a716-446655440012',
+      );
+
+      return Effect.gen(function* () {
+        const result = yield* Effect.either(
+          ContentService.processContentFromId(versionA.id),
+        );
+
+        expect(result._tag).toBe('Left');
+        if (result._tag === 'Left') {
+          expect(result.left).toBeInstanceOf(ContentCycleError);
+          expect((result.left as ContentCycleError).path).toEqual([
+            versionA.id,
+            versionB.id,
+            versionA.id,
+          ]);
+        }
+      }).pipe(
+        Effect.provide(
+          ContentTestWithData({
+            nodes: [nodeA, nodeB],
+            versions: [
+              { version: versionA, nodeId: nodeA.id },
+              { version: versionB, nodeId: nodeB.id },
+            ],
+            edges: [
+              {
+                parentId: versionA.id,
+                childId: versionB.id,
+                properties: { operation: 'concatenate' },
+              },
+              {
+                parentId: versionB.id,
+                childId: versionA.id,
+                properties: { operation: 'concatenate' },
+              },
+            ],
+            tags: [],
+            testCases: [],
+          }),
+        ),
+      );
+    });
+
     it.effect('should exclude versions based on options', () =>
       Effect.gen(function* () {
         const versionId = Schema.decodeSync(ContentNodeVersionId)(
@@ -447,27 +1046,1789 @@ describe('ContentService', () => {
         expect(result).toBe('');
       }).pipe(Effect.provide(ContentTestWithData())),
     );
-  });
 
-  describe('listContentNodes', () => {
-    it.effect('should list all content nodes ordered by name', () =>
+    it.effect('should filter children by their node tags', () =>
       Effect.gen(function* () {
-        const nodes = yield* ContentService.listContentNodes();
+        const tag = (name: string) => Schema.decodeSync(Slug)(name);
+        const prompt = yield* ContentService.createContentNode(
+          tag('tagged-prompt'),
+          'Prompt with tagged sections',
+        );
+        const promptVersion = yield* ContentService.createContentNodeVersion(
+          prompt.id,
+          'Answer as {{persona | "an assistant"}}.',
+          'Prompt',
+        );
+        const addSection = (name: string, content: string, tags: string[]) =>
+          Effect.gen(function* () {
+            const node = yield* ContentService.createContentNode(
+              tag(name),
+              content,
+            );
+            yield* ContentService.createContentNodeVersion(
+              node.id,
+              content,
+              content,
+              [{ versionId: promptVersion.id, operation: 'concatenate' }],
+            );
+            yield* ContentService.tagContent(node.id, tags.map(tag));
+          });
+        yield* addSection('a-formal', 'Be formal.', ['formal']);
+        yield* addSection('b-casual', 'Be casual.', ['casual']);
+        yield* addSection('c-brief', 'Be brief.', ['formal', 'draft']);
 
-        expect(nodes).toHaveLength(4);
-        expect(nodes[0].name).toBe('be-concise');
-        expect(nodes[1].name).toBe('be-helpful');
-        expect(nodes[2].name).toBe('greeting-template');
-        expect(nodes[3].name).toBe('user-name');
-      }).pipe(Effect.provide(ContentTestWithData())),
+        const persona = yield* ContentService.createContentNode(
+          tag('persona'),
+          'Persona',
+        );
+        yield* ContentService.createContentNodeVersion(
+          persona.id,
+          'a pirate',
+          'Persona',
+          [
+            {
+              versionId: promptVersion.id,
+              operation: 'insert',
+              key: 'persona',
+            },
+          ],
+        );
+        yield* ContentService.tagContent(persona.id, [tag('casual')]);
+
+        const render = (options: ProcessingOptions) =>
+          ContentService.processContentFromId(
+            promptVersion.id,
+            HashMap.empty(),
+            options,
+          );
+
+        expect(yield* render({})).toBe(
+          'Answer as a pirate.\nBe formal.\nBe casual.\nBe brief.',
+        );
+        expect(yield* render({ includeTags: ['formal'] })).toBe(
+          'Answer as a pirate.\nBe formal.\nBe brief.',
+        );
+        expect(
+          yield* render({ includeTags: ['formal'], excludeTags: ['draft'] }),
+        ).toBe('Answer as a pirate.\nBe formal.');
+        expect(
+          yield* render({ includeTags: ['formal'], tagFilterScope: 'insert' }),
+        ).toBe('Answer as an assistant.\nBe formal.\nBe casual.\nBe brief.');
+        expect(
+          yield* render({ excludeTags: ['casual'], tagFilterScope: 'both' }),
+        ).toBe('Answer as an assistant.\nBe formal.\nBe brief.');
+      }).pipe(Effect.provide(ContentTestWithEmptyData())),
     );
+  });
 
-    it.effect('should return empty array when no nodes exist', () =>
+  describe('processContentWithReport', () => {
+    it.effect('should list unresolved placeholders and unused parameters', () =>
       Effect.gen(function* () {
-        const nodes = yield* ContentService.listContentNodes();
-        expect(nodes).toHaveLength(0);
+        const node = yield* ContentService.createContentNode(
+          Schema.decodeSync(Slug)('report-greeting'),
+          'Greeting for usage reports',
+        );
+        const version = yield* ContentService.createContentNodeVersion(
+          node.id,
+          'Hello {{name}}, about {{topic}}{{#if tone}} ({{tone}}){{/if}}',
+          'Greeting',
+        );
+
+        const report = yield* ContentService.processContentWithReport(
+          version.id,
+          HashMap.make(
+            [
+              Schema.decodeSync(InsertKey)('name'),
+              Schema.decodeSync(InsertValue)('Ada'),
+            ],
+            [
+              Schema.decodeSync(InsertKey)('audience'),
+              Schema.decodeSync(InsertValue)('experts'),
+            ],
+          ),
+          { strict: true },
+        );
+
+        expect(report.text).toBe('Hello Ada, about {{topic}}');
+        expect(report.unresolved).toEqual([
+          {
+            key: 'topic',
+            placeholder: '{{topic}}',
+            versionId: version.id,
+            nodeName: 'report-greeting',
+          },
+        ]);
+        expect(report.unusedParameters).toEqual(['audience']);
       }).pipe(Effect.provide(ContentTestWithEmptyData())),
     );
+
+    it.effect(
+      'should not count parameters shadowed by insert edges as used',
+      () =>
+        Effect.gen(function* () {
+          const parent = yield* ContentService.createContentNode(
+            Schema.decodeSync(Slug)('report-parent'),
+            'Parent with an inserted name',
+          );
+          const parentVersion = yield* ContentService.createContentNodeVersion(
+            parent.id,
+            'Dear {{name}}',
+            'Parent',
+          );
+          const child = yield* ContentService.createContentNode(
+            Schema.decodeSync(Slug)('report-name'),
+            'Inserted name',
+          );
+          yield* ContentService.createContentNodeVersion(
+            child.id,
+            'Grace',
+            'Name',
+            [{ versionId: parentVersion.id, operation: 'insert', key: 'name' }],
+          );
+
+          const report = yield* ContentService.processContentWithReport(
+            parentVersion.id,
+            HashMap.make([
+              Schema.decodeSync(InsertKey)('name'),
+              Schema.decodeSync(InsertValue)('Ada'),
+            ]),
+          );
+
+          expect(report.text).toBe('Dear Grace');
+          expect(report.unresolved).toEqual([]);
+          expect(report.unusedParameters).toEqual(['name']);
+        }).pipe(Effect.provide(ContentTestWithEmptyData())),
+    );
+  });
+
+  describe('processContentWithTrace', () => {
+    it.effect(
+      'should return segments for inserted and concatenated content',
+      () =>
+        Effect.gen(function* () {
+          const letter = yield* ContentService.createContentNode(
+            Schema.decodeSync(Slug)('trace-letter'),
+            'Letter',
+          );
+          const letterVersion = yield* ContentService.createContentNodeVersion(
+            letter.id,
+            'Dear {{name}},',
+            'Letter',
+          );
+          const name = yield* ContentService.createContentNode(
+            Schema.decodeSync(Slug)('trace-name'),
+            'Name',
+          );
+          const nameVersion = yield* ContentService.createContentNodeVersion(
+            name.id,
+            'Grace',
+            'Name',
+            [{ versionId: letterVersion.id, operation: 'insert', key: 'name' }],
+          );
+          const closing = yield* ContentService.createContentNode(
+            Schema.decodeSync(Slug)('trace-closing'),
+            'Closing',
+          );
+          const closingVersion = yield* ContentService.createContentNodeVersion(
+            closing.id,
+            'Bye {{name | upper}}',
+            'Closing',
+            [{ versionId: letterVersion.id, operation: 'concatenate' }],
+          );
+
+          const trace = yield* ContentService.processContentWithTrace(
+            letterVersion.id,
+          );
+
+          expect(trace.text).toBe('Dear Grace,\nBye GRACE');
+          expect(trace.segments).toEqual([
+            {
+              start: 0,
+              end: 5,
+              versionId: letterVersion.id,
+              nodeName: 'trace-letter',
+              operation: 'root',
+            },
+            {
+              start: 5,
+              end: 10,
+              versionId: nameVersion.id,
+              nodeName: 'trace-name',
+              operation: 'insert',
+              key: 'name',
+            },
+            {
+              start: 10,
+              end: 12,
+              versionId: letterVersion.id,
+              nodeName: 'trace-letter',
+              operation: 'root',
+            },
+            {
+              start: 12,
+              end: 16,
+              versionId: closingVersion.id,
+              nodeName: 'trace-closing',
+              operation: 'concatenate',
+            },
+            {
+              start: 16,
+              end: 21,
+              versionId: nameVersion.id,
+              nodeName: 'trace-name',
+              operation: 'insert',
+              key: 'name',
+            },
+          ]);
+        }).pipe(Effect.provide(ContentTestWithEmptyData())),
+    );
+  });
+
+  describe('render query count', () => {
+    // A root concatenating `width` sections, each filling a placeholder from
+    // its own insert child: 2 * width + 1 versions, three levels deep
+    const width = 20;
+    const nodeId = (i: number) =>
+      Schema.decodeSync(ContentNodeId)(
+        `550e8400-e29b-41d4-a716-446655440${500 + i}`,
+      );
+    const versionId = (i: number) =>
+      Schema.decodeSync(ContentNodeVersionId)(
+        `650e8400-e29b-41d4-a716-446655440${500 + i}`,
+      );
+    const sections = Array.from({ length: width }, (_, i) => i + 1);
+    const wideTree = () => ({
+      nodes: [0, ...sections, ...sections.map((i) => i + width)].map((i) =>
+        generateTestContentNode(`wide-${i}`, 'Wide tree', nodeId(i)),
+      ),
+      versions: [
+        { i: 0, content: 'Root' },
+        ...sections.map((i) => ({ i, content: `Section {{value}}` })),
+        ...sections.map((i) => ({ i: i + width, content: `v${i}` })),
+      ].map(({ i, content }) => ({
+        version: generateTestContentNodeVersion(
+          content,
+          'Wide',
+          '2024-01-01T00:00:00.000Z',
+          versionId(i),
+        ),
+        nodeId: nodeId(i),
+      })),
+      edges: sections.flatMap((i) => [
+        {
+          parentId: versionId(0),
+          childId: versionId(i),
+          properties: { operation: 'concatenate' as const, order: i },
+        },
+        {
+          parentId: versionId(i),
+          childId: versionId(i + width),
+          properties: { operation: 'insert' as const, key: 'value' },
+        },
+      ]),
+      tags: [],
+      testCases: [],
+    });
+
+    it.effect('should load a whole tree in one query per level', () => {
+      const queries: string[] = [];
+      return Effect.gen(function* () {
+        const text = yield* ContentService.processContentFromId(versionId(0));
+
+        expect(text).toBe(
+          ['Root', ...sections.map((i) => `Section v${i}`)].join('\n'),
+        );
+        // Roots, then the root's, the sections' and the values' children;
+        // fetching per node took two queries for each of the 41 versions
+        expect(queries).toHaveLength(4);
+      }).pipe(Effect.provide(ContentTestWithData(wideTree(), queries)));
+    });
+
+    it.effect('should share one load across versions rendered together', () => {
+      const queries: string[] = [];
+      return Effect.gen(function* () {
+        const traces = yield* ContentService.processContentBatchWithTrace(
+          sections.map(versionId),
+        );
+
+        expect(traces.map((t) => t.text)).toEqual(
+          sections.map((i) => `Section v${i}`),
+        );
+        expect(traces[0].segments.map((s) => s.nodeName)).toEqual([
+          'wide-1',
+          'wide-21',
+        ]);
+        expect(queries).toHaveLength(3);
+      }).pipe(Effect.provide(ContentTestWithData(wideTree(), queries)));
+    });
+  });
+
+  describe('render cache', () => {
+    const greetingId = Schema.decodeSync(ContentNodeVersionId)(
+      '650e8400-e29b-41d4-a716-446655440001',
+    );
+    const cached = (queries: string[]) =>
+      Layer.merge(ContentTestWithData(undefined, queries), RenderCacheLive());
+
+    it.effect(
+      'should reuse a render with the same parameters and options',
+      () => {
+        const queries: string[] = [];
+        return Effect.gen(function* () {
+          const first = yield* ContentService.processContentFromId(greetingId);
+          const rendered = queries.length;
+          const again =
+            yield* ContentService.processContentWithTrace(greetingId);
+
+          expect(again.text).toBe(first);
+          expect(queries).toHaveLength(rendered);
+
+          // Different options are a different entry
+          yield* ContentService.processContentFromId(
+            greetingId,
+            HashMap.empty(),
+            { strict: true },
+          );
+          expect(queries.length).toBeGreaterThan(rendered);
+
+          // Each render looks up the root and then its subtree
+          const stats = yield* Effect.flatMap(RenderCache, (c) => c.stats);
+          expect(stats.hits).toBe(1);
+          expect(stats.misses).toBe(4);
+        }).pipe(Effect.provide(cached(queries)));
+      },
+    );
+
+    it.effect(
+      'should render a shared subtree once across a parameter matrix',
+      () => {
+        const queries: string[] = [];
+        return Effect.gen(function* () {
+          const wrapper = yield* ContentService.createContentNodeVersion(
+            Schema.decodeSync(ContentNodeId)(
+              '550e8400-e29b-41d4-a716-446655440004',
+            ),
+            'Tone: {{tone}}',
+            'Wrap the greeting',
+          );
+          yield* ContentService.linkNodes(wrapper.id, greetingId, {
+            operation: 'concatenate',
+          });
+
+          const texts = yield* Effect.forEach(['calm', 'brisk'], (tone) =>
+            ContentService.processContentFromId(
+              wrapper.id,
+              HashMap.make([
+                Schema.decodeSync(InsertKey)('tone'),
+                Schema.decodeSync(InsertValue)(tone),
+              ]),
+            ),
+          );
+
+          expect(texts).toEqual([
+            'Tone: calm\nHello Alice, welcome to our service!',
+            'Tone: brisk\nHello Alice, welcome to our service!',
+          ]);
+          // The greeting does not use tone, so the second render reuses it
+          const stats = yield* Effect.flatMap(RenderCache, (c) => c.stats);
+          expect(stats.hits).toBe(1);
+        }).pipe(Effect.provide(cached(queries)));
+      },
+    );
+
+    it.effect('should forget renders when content changes', () => {
+      const queries: string[] = [];
+      return Effect.gen(function* () {
+        yield* ContentService.processContentFromId(greetingId);
+        yield* ContentService.linkNodes(
+          greetingId,
+          Schema.decodeSync(ContentNodeVersionId)(
+            '650e8400-e29b-41d4-a716-446655440003',
+          ),
+          { operation: 'concatenate' },
+        );
+
+        expect(yield* ContentService.processContentFromId(greetingId)).toBe(
+          'Hello Alice, welcome to our service!\nBe concise and direct in your responses',
+        );
+      }).pipe(Effect.provide(cached(queries)));
+    });
+
+    it.effect('should not cache renders that resolve floating edges', () => {
+      const queries: string[] = [];
+      const parentId = Schema.decodeSync(ContentNodeVersionId)(
+        '650e8400-e29b-41d4-a716-446655440004',
+      );
+      return Effect.gen(function* () {
+        yield* ContentService.linkFloatingNode(
+          parentId,
+          Schema.decodeSync(ContentNodeId)(
+            '550e8400-e29b-41d4-a716-446655440003',
+          ),
+          { operation: 'concatenate' },
+        );
+        yield* ContentService.processContentFromId(parentId);
+        const stats = yield* Effect.flatMap(RenderCache, (c) => c.stats);
+        expect(stats.size).toBe(0);
+      }).pipe(Effect.provide(cached(queries)));
+    });
+  });
+
+  describe('searchContent', () => {
+    it.effect('should rank content hits with highlighted snippets', () =>
+      Effect.gen(function* () {
+        const hits = yield* ContentService.searchContent('concise answers');
+
+        expect(hits).toHaveLength(1);
+        expect(hits[0].nodeName).toBe('be-concise');
+        expect(hits[0].field).toBe('content');
+        expect(hits[0].snippet).toEqual({
+          text: 'Be concise and direct in your responses',
+          highlights: [{ start: 3, end: 10 }],
+        });
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    it.effect('should match descriptions and filter by tags', () =>
+      Effect.gen(function* () {
+        const all = yield* ContentService.searchContent('instruction');
+        expect(all.map((hit) => hit.nodeName).sort()).toEqual([
+          'be-concise',
+          'be-helpful',
+        ]);
+        expect(all.every((hit) => hit.field === 'description')).toBe(true);
+
+        const tagged = yield* ContentService.searchContent('instruction', {
+          tags: ['instruction', 'tone'],
+        });
+        expect(tagged.map((hit) => hit.nodeName)).toEqual(['be-concise']);
+        expect(tagged[0].version.content).toBe(
+          'Be concise and direct in your responses',
+        );
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    it.effect('should skip superseded versions when latestOnly is set', () =>
+      Effect.gen(function* () {
+        const nodeId = Schema.decodeSync(ContentNodeId)(
+          '550e8400-e29b-41d4-a716-446655440003',
+        );
+        const latest = yield* ContentService.createContentNodeVersion(
+          nodeId,
+          'Keep every answer concise',
+          'Reword',
+        );
+
+        const all = yield* ContentService.searchContent('concise');
+        expect(all).toHaveLength(2);
+
+        const current = yield* ContentService.searchContent('concise', {
+          latestOnly: true,
+        });
+        expect(current.map((hit) => hit.version.id)).toEqual([latest.id]);
+
+        const limited = yield* ContentService.searchContent('concise', {
+          limit: 1,
+        });
+        expect(limited).toHaveLength(1);
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    it.effect('should not query for a query without words', () => {
+      const queries: string[] = [];
+      return Effect.gen(function* () {
+        expect(yield* ContentService.searchContent(' ?! ')).toEqual([]);
+        expect(queries).toEqual([]);
+      }).pipe(Effect.provide(ContentTestWithData(undefined, queries)));
+    });
+  });
+
+  describe('semanticSearch', () => {
+    const embedded = (queries?: string[]) =>
+      Layer.merge(
+        ContentTestWithData(undefined, queries),
+        HashedEmbeddingsLive(),
+      );
+
+    it.effect('should backfill existing versions once', () =>
+      Effect.gen(function* () {
+        expect(yield* ContentService.backfillEmbeddings({ batchSize: 3 })).toBe(
+          4,
+        );
+        expect(yield* ContentService.backfillEmbeddings()).toBe(0);
+      }).pipe(Effect.provide(embedded())),
+    );
+
+    it.effect('should rank versions by similarity to the query', () =>
+      Effect.gen(function* () {
+        yield* ContentService.backfillEmbeddings();
+        const hits = yield* ContentService.semanticSearch(
+          'be direct and concise',
+          2,
+        );
+
+        expect(hits).toHaveLength(2);
+        expect(hits[0].nodeName).toBe('be-concise');
+        expect(hits[0].score).toBeGreaterThan(hits[1].score);
+      }).pipe(Effect.provide(embedded())),
+    );
+
+    it.effect(
+      'should embed new and reverted versions as they are created',
+      () =>
+        Effect.gen(function* () {
+          const nodeId = Schema.decodeSync(ContentNodeId)(
+            '550e8400-e29b-41d4-a716-446655440004',
+          );
+          const created = yield* ContentService.createContentNodeVersion(
+            nodeId,
+            'Answer every question with patience and kindness',
+            'Reword',
+          );
+          const [hit] = yield* ContentService.semanticSearch(
+            'patience and kindness',
+            1,
+          );
+          expect(hit.version.id).toBe(created.id);
+
+          const reverted = yield* ContentService.revertContentNode(
+            nodeId,
+            created.id,
+            'Restore',
+          );
+          const hits = yield* ContentService.semanticSearch(
+            'patience and kindness',
+            2,
+          );
+          expect(hits.map((h) => h.version.id).sort()).toEqual(
+            [created.id, reverted.id].sort(),
+          );
+        }).pipe(Effect.provide(embedded())),
+    );
+
+    it.effect('should not query for an empty query', () => {
+      const queries: string[] = [];
+      return Effect.gen(function* () {
+        expect(yield* ContentService.semanticSearch('  ')).toEqual([]);
+        expect(yield* ContentService.semanticSearch(' ?! ')).toEqual([]);
+        expect(queries).toEqual([]);
+      }).pipe(Effect.provide(embedded(queries)));
+    });
+
+    it.effect('should find k hits past nearer vectors of other models', () => {
+      const versionEntry = (n: number, model: string, vector: number[]) => ({
+        version: generateTestContentNodeVersion(
+          `Version ${n}`,
+          'Embedded',
+          '2024-01-01T00:00:00.000Z',
+          `650e8400-e29b-41d4-a716-44665544030${n}`,
+        ),
+        nodeId: Schema.decodeSync(ContentNodeId)(
+          '550e8400-e29b-41d4-a716-446655440301',
+        ),
+        embedding: { model, vector },
+      });
+      return Effect.gen(function* () {
+        const hits = yield* ContentService.semanticSearch('anything', 2);
+        expect(hits.map((h) => h.version.content)).toEqual([
+          'Version 5',
+          'Version 6',
+        ]);
+      }).pipe(
+        Effect.provide(
+          Layer.merge(
+            ContentTestWithData({
+              nodes: [
+                generateTestContentNode(
+                  'embedded',
+                  'Has embeddings from two models',
+                  '550e8400-e29b-41d4-a716-446655440301',
+                ),
+              ],
+              versions: [
+                versionEntry(1, 'old-model', [1, 0]),
+                versionEntry(2, 'old-model', [1, 0]),
+                versionEntry(3, 'old-model', [1, 0]),
+                versionEntry(4, 'old-model', [1, 0]),
+                versionEntry(5, 'new-model', [0.8, 0.6]),
+                versionEntry(6, 'new-model', [0.6, 0.8]),
+              ],
+              edges: [],
+              tags: [],
+              testCases: [],
+            }),
+            Layer.succeed(Embeddings, {
+              model: 'new-model',
+              dimensions: 2,
+              embed: (texts) => Effect.succeed(texts.map(() => [1, 0])),
+            }),
+          ),
+        ),
+      );
+    });
+  });
+
+  describe('lintContent', () => {
+    it.effect('should find nothing wrong with the default data', () =>
+      Effect.gen(function* () {
+        expect(yield* ContentService.lintContent()).toEqual([]);
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    const lintNode = (
+      n: number,
+      name: string,
+      content: string | undefined,
+    ) => ({
+      node: generateTestContentNode(
+        name,
+        name,
+        `550e8400-e29b-41d4-a716-4466554403${n}`,
+      ),
+      version: generateTestContentNodeVersion(
+        content,
+        name,
+        `2024-01-${n}T00:00:00.000Z`,
+        `650e8400-e29b-41d4-a716-4466554403${n}`,
+      ),
+    });
+    const wrapper = lintNode(
+      10,
+      'wrapper',
+      'Dear {{title}} {{name}}{{suffix | ","}}',
+    );
+    const childB = lintNode(11, 'child-b', 'Alice');
+    const childC = lintNode(12, 'child-c', 'Alice');
+    const empty = lintNode(13, 'empty-branch', undefined);
+    const broken = lintNode(14, 'broken', 'Broken {{#if name}}');
+    const inner = lintNode(15, 'inner', 'Hi {{name}}');
+    const outer = lintNode(16, 'outer', 'Intro for {{name}}');
+    const all = [wrapper, childB, childC, empty, broken, inner, outer];
+    const insert = (key?: string) => ({
+      operation: 'insert' as const,
+      ...(key ? { key } : {}),
+    });
+
+    it.effect('should report each problem with its location', () =>
+      Effect.gen(function* () {
+        const findings = yield* ContentService.lintContent();
+
+        expect(
+          findings.map((f) => [f.severity, f.rule, f.nodeName, f.key]),
+        ).toEqual([
+          ['error', 'template-syntax', 'broken', undefined],
+          ['error', 'insert-without-key', 'wrapper', undefined],
+          ['warning', 'empty-branch', 'empty-branch', undefined],
+          ['warning', 'unmatched-placeholder', 'wrapper', 'title'],
+          ['warning', 'unused-insert-key', 'wrapper', 'unused'],
+          ['info', 'duplicate-content', 'child-b', undefined],
+          ['info', 'duplicate-content', 'child-c', undefined],
+          ['info', 'untagged-node', 'wrapper', undefined],
+        ]);
+        expect(findings[1]).toMatchObject({
+          nodeId: wrapper.node.id,
+          versionId: wrapper.version.id,
+          targetId: childC.version.id,
+        });
+        expect(findings[5].message).toBe('Same content as child-c');
+      }).pipe(
+        Effect.provide(
+          ContentTestWithData({
+            nodes: all.map((n) => n.node),
+            versions: all.map((n) => ({
+              version: n.version,
+              nodeId: n.node.id,
+            })),
+            edges: [
+              {
+                parentId: wrapper.version.id,
+                childId: childB.version.id,
+                properties: insert('name'),
+              },
+              {
+                parentId: wrapper.version.id,
+                childId: childC.version.id,
+                properties: insert(),
+              },
+              {
+                parentId: wrapper.version.id,
+                childId: childC.version.id,
+                properties: insert('unused'),
+              },
+              {
+                parentId: outer.version.id,
+                childId: childB.version.id,
+                properties: insert('name'),
+              },
+            ],
+            // inner's {{name}} comes from outer, which includes it by node
+            floatingEdges: [
+              {
+                parentId: outer.version.id,
+                nodeId: inner.node.id,
+                properties: { operation: 'concatenate' },
+              },
+            ],
+            tags: all
+              .filter((n) => n !== wrapper)
+              .map((n) => ({ nodeId: n.node.id, tagName: 'lint' })),
+            testCases: [],
+          }),
+        ),
+      ),
+    );
+  });
+
+  describe('findDependents', () => {
+    const userNameId = Schema.decodeSync(ContentNodeId)(
+      '550e8400-e29b-41d4-a716-446655440002',
+    );
+
+    it.effect(
+      'should list including versions, test cases and data points',
+      () =>
+        Effect.gen(function* () {
+          const dependents = yield* ContentService.findDependents(userNameId);
+
+          expect(dependents.versions.map((d) => d.version.id)).toEqual([
+            '650e8400-e29b-41d4-a716-446655440001',
+          ]);
+          expect(dependents.nodes.map((n) => n.name)).toEqual([
+            'greeting-template',
+          ]);
+          expect(dependents.testCases).toEqual([
+            {
+              id: '123e4567-e89b-42d3-a456-426614174000',
+              name: 'Concise instruction as system',
+              slots: [
+                { sequence: 1, role: 'user', nodeNames: ['greeting-template'] },
+              ],
+            },
+          ]);
+          expect(dependents.dataPoints).toEqual([
+            {
+              id: '750e8400-e29b-41d4-a716-446655440001',
+              versionIds: [
+                '650e8400-e29b-41d4-a716-446655440001',
+                '650e8400-e29b-41d4-a716-446655440002',
+              ],
+            },
+          ]);
+        }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    it.effect('should follow floating references to affected nodes', () =>
+      Effect.gen(function* () {
+        const outer = yield* ContentService.createContentNode(
+          Schema.decodeSync(Slug)('outer'),
+          'Wraps the greeting',
+        );
+        const outerVersion = yield* ContentService.createContentNodeVersion(
+          outer.id,
+          'Start: {{greeting}}',
+          'Outer',
+        );
+        yield* ContentService.linkFloatingNode(
+          outerVersion.id,
+          Schema.decodeSync(ContentNodeId)(
+            '550e8400-e29b-41d4-a716-446655440001',
+          ),
+          { operation: 'insert', key: 'greeting' },
+        );
+
+        const dependents = yield* ContentService.findDependents(userNameId);
+        expect(dependents.versions.map((d) => d.nodeName)).toEqual([
+          'greeting-template',
+          'outer',
+        ]);
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    it.effect('should find test cases stored by createTestCase', () =>
+      Effect.gen(function* () {
+        const testCase = yield* ContentService.createTestCase({
+          id: Schema.decodeSync(TestCaseId)(
+            '123e4567-e89b-42d3-a456-426614174007',
+          ),
+          name: 'Stored greeting',
+          description: 'Written through the real write path',
+          createdAt: Schema.decodeSync(Schema.DateTimeUtc)(
+            '2024-01-01T00:00:00Z',
+          ),
+          llmModel: Schema.decodeSync(LLMModel)('gpt-4'),
+          messageSlots: [
+            {
+              role: 'user',
+              tags: [Schema.decodeSync(SlotParameterReference)('{{persona}}')],
+              sequence: 0,
+            },
+          ],
+          parameters: HashMap.make([
+            Schema.decodeSync(InsertKey)('persona'),
+            Schema.decodeSync(InsertValue)('greeting'),
+          ]),
+        });
+
+        const dependents = yield* ContentService.findDependents(userNameId);
+        expect(dependents.unreadableTestCases).toEqual([]);
+        expect(dependents.testCases).toContainEqual({
+          id: testCase.id,
+          name: 'Stored greeting',
+          slots: [
+            { sequence: 0, role: 'user', nodeNames: ['greeting-template'] },
+          ],
+        });
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    it.effect('should list unreadable test cases instead of failing', () =>
+      Effect.gen(function* () {
+        const dependents = yield* ContentService.findDependents(userNameId);
+
+        expect(dependents.testCases.map((t) => t.name)).toEqual([
+          'Concise instruction as system',
+        ]);
+        expect(dependents.unreadableTestCases).toHaveLength(1);
+        expect(dependents.unreadableTestCases[0].id).toBe(
+          '123e4567-e89b-42d3-a456-426614174009',
+        );
+      }).pipe(
+        Effect.provide(
+          ContentTestWithTestCases([
+            {
+              id: Schema.decodeSync(TestCaseId)(
+                '123e4567-e89b-42d3-a456-426614174009',
+              ),
+              name: 'Written by hand',
+              description: 'Has a slot with no role',
+              createdAt: Schema.decodeSync(Schema.DateTimeUtc)(
+                '2024-01-01T00:00:00Z',
+              ),
+              llmModel: Schema.decodeSync(LLMModel)('gpt-4'),
+              messageSlots: [{ tags: ['greeting'], sequence: 0 }],
+            } as unknown as TestCase,
+          ]),
+        ),
+      ),
+    );
+
+    it.effect('should resolve slot parameters from the test case', () =>
+      Effect.gen(function* () {
+        const dependents = yield* ContentService.findDependents(userNameId);
+
+        expect(dependents.testCases).toContainEqual({
+          id: '123e4567-e89b-42d3-a456-426614174008',
+          name: 'Greeting by persona',
+          slots: [
+            { sequence: 0, role: 'user', nodeNames: ['greeting-template'] },
+          ],
+        });
+      }).pipe(
+        Effect.provide(
+          ContentTestWithTestCases([
+            {
+              id: Schema.decodeSync(TestCaseId)(
+                '123e4567-e89b-42d3-a456-426614174008',
+              ),
+              name: 'Greeting by persona',
+              description: 'Picks the greeting through a parameter',
+              createdAt: Schema.decodeSync(Schema.DateTimeUtc)(
+                '2024-01-01T00:00:00Z',
+              ),
+              llmModel: Schema.decodeSync(LLMModel)('gpt-4'),
+              messageSlots: [
+                {
+                  role: 'user',
+                  tags: [
+                    Schema.decodeSync(SlotParameterReference)('{{persona}}'),
+                  ],
+                  sequence: 0,
+                },
+              ],
+              parameters: HashMap.make([
+                Schema.decodeSync(InsertKey)('persona'),
+                Schema.decodeSync(InsertValue)('greeting'),
+              ]),
+            },
+          ]),
+        ),
+      ),
+    );
+
+    it.effect('should have no dependents for an unused node', () =>
+      Effect.gen(function* () {
+        const dependents = yield* ContentService.findDependents(
+          Schema.decodeSync(ContentNodeId)(
+            '550e8400-e29b-41d4-a716-446655440004',
+          ),
+        );
+        expect(dependents.versions).toEqual([]);
+        expect(dependents.nodes).toEqual([]);
+        expect(dependents.dataPoints).toEqual([]);
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    it.effect('should fail for a missing node', () =>
+      Effect.gen(function* () {
+        const result = yield* Effect.flip(
+          ContentService.findDependents(
+            Schema.decodeSync(ContentNodeId)(
+              '550e8400-e29b-41d4-a716-446655449999',
+            ),
+          ),
+        );
+        expect(result).toBeInstanceOf(NotFoundError);
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+  });
+
+  describe('getContentTree', () => {
+    it.effect('should return root with edge-annotated children', () =>
+      Effect.gen(function* () {
+        const versionId = Schema.decodeSync(ContentNodeVersionId)(
+          '650e8400-e29b-41d4-a716-446655440001',
+        );
+
+        const tree = yield* ContentService.getContentTree(versionId);
+
+        expect(tree.version.id).toBe(versionId);
+        expect(tree.nodeName).toBe('greeting-template');
+        expect(tree.edge).toBeUndefined();
+        expect(tree.children).toHaveLength(1);
+        expect(tree.children[0].nodeName).toBe('user-name');
+        expect(tree.children[0].version.content).toBe('Alice');
+        expect(tree.children[0].edge).toEqual({
+          operation: 'insert',
+          key: 'name',
+        });
+        expect(tree.children[0].children).toEqual([]);
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    it.effect('should build nested levels and honor maxDepth', () =>
+      Effect.gen(function* () {
+        const root = yield* ContentService.createContentNode(
+          Schema.decodeSync(Slug)('tree-root'),
+          'Tree root',
+        );
+        const rootVersion = yield* ContentService.createContentNodeVersion(
+          root.id,
+          'Root {{middle}}',
+          'Root version',
+        );
+        const middle = yield* ContentService.createContentNode(
+          Schema.decodeSync(Slug)('tree-middle'),
+          'Tree middle',
+        );
+        const middleVersion = yield* ContentService.createContentNodeVersion(
+          middle.id,
+          'Middle',
+          'Middle version',
+          [{ versionId: rootVersion.id, operation: 'insert', key: 'middle' }],
+        );
+        const leaf = yield* ContentService.createContentNode(
+          Schema.decodeSync(Slug)('tree-leaf'),
+          'Tree leaf',
+        );
+        yield* ContentService.createContentNodeVersion(
+          leaf.id,
+          'Leaf',
+          'Leaf version',
+          [{ versionId: middleVersion.id, operation: 'concatenate' }],
+        );
+
+        const fullTree = yield* ContentService.getContentTree(rootVersion.id);
+        expect(fullTree.children[0].nodeName).toBe('tree-middle');
+        expect(fullTree.children[0].children[0].nodeName).toBe('tree-leaf');
+        expect(fullTree.children[0].children[0].edge?.operation).toBe(
+          'concatenate',
+        );
+
+        const shallowTree = yield* ContentService.getContentTree(
+          rootVersion.id,
+          1,
+        );
+        expect(shallowTree.children[0].nodeName).toBe('tree-middle');
+        expect(shallowTree.children[0].children).toEqual([]);
+
+        const rootOnly = yield* ContentService.getContentTree(
+          rootVersion.id,
+          0,
+        );
+        expect(rootOnly.children).toEqual([]);
+      }).pipe(Effect.provide(ContentTestWithEmptyData())),
+    );
+
+    it.effect('should fail with NotFoundError for unknown version', () =>
+      Effect.gen(function* () {
+        const versionId = Schema.decodeSync(ContentNodeVersionId)(
+          '650e8400-e29b-41d4-a716-446655440999',
+        );
+        const result = yield* Effect.either(
+          ContentService.getContentTree(versionId),
+        );
+
+        expect(result._tag).toBe('Left');
+        if (result._tag === 'Left') {
+          expect(result.left).toBeInstanceOf(NotFoundError);
+        }
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+  });
+
+  describe('linkNodes', () => {
+    it.effect('should link two versions', () =>
+      Effect.gen(function* () {
+        const parentId = Schema.decodeSync(ContentNodeVersionId)(
+          '650e8400-e29b-41d4-a716-446655440001',
+        );
+        const childId = Schema.decodeSync(ContentNodeVersionId)(
+          '650e8400-e29b-41d4-a716-446655440003',
+        );
+
+        yield* ContentService.linkNodes(parentId, childId, {
+          operation: 'concatenate',
+        });
+
+        const children = yield* ContentService.getChildren(parentId);
+        expect(children.map((c) => c.node.id)).toContain(childId);
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    it.effect('should reject a link that closes a cycle', () =>
+      Effect.gen(function* () {
+        // 650...001 already includes 650...002
+        const parentId = Schema.decodeSync(ContentNodeVersionId)(
+          '650e8400-e29b-41d4-a716-446655440002',
+        );
+        const childId = Schema.decodeSync(ContentNodeVersionId)(
+          '650e8400-e29b-41d4-a716-446655440001',
+        );
+
+        const result = yield* Effect.either(
+          ContentService.linkNodes(parentId, childId, {
+            operation: 'concatenate',
+          }),
+        );
+
+        expect(result._tag).toBe('Left');
+        if (result._tag === 'Left') {
+          expect(result.left).toBeInstanceOf(ContentCycleError);
+          expect((result.left as ContentCycleError).path).toEqual([
+            parentId,
+            childId,
+            parentId,
+          ]);
+        }
+
+        // Nothing was written
+        const children = yield* ContentService.getChildren(parentId);
+        expect(children).toHaveLength(0);
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    it.effect('should reject linking a version to itself', () =>
+      Effect.gen(function* () {
+        const versionId = Schema.decodeSync(ContentNodeVersionId)(
+          '650e8400-e29b-41d4-a716-446655440003',
+        );
+
+        const result = yield* Effect.either(
+          ContentService.linkNodes(versionId, versionId, {
+            operation: 'concatenate',
+          }),
+        );
+
+        expect(result._tag).toBe('Left');
+        if (result._tag === 'Left') {
+          expect(result.left).toBeInstanceOf(ContentCycleError);
+          expect((result.left as ContentCycleError).path).toEqual([
+            versionId,
+            versionId,
+          ]);
+        }
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+  });
+
+  describe('reorderChildren', () => {
+    const setup = Effect.gen(function* () {
+      const parent = yield* ContentService.createContentNode(
+        Schema.decodeSync(Slug)('reorder-parent'),
+        'Parent',
+      );
+      const parentVersion = yield* ContentService.createContentNodeVersion(
+        parent.id,
+        '',
+        'Parent',
+      );
+      const [a, b, c] = yield* Effect.forEach(['a', 'b', 'c'], (name) =>
+        Effect.gen(function* () {
+          const node = yield* ContentService.createContentNode(
+            Schema.decodeSync(Slug)(`reorder-${name}`),
+            name,
+          );
+          const version = yield* ContentService.createContentNodeVersion(
+            node.id,
+            name.toUpperCase(),
+            name,
+          );
+          yield* ContentService.linkNodes(parentVersion.id, version.id, {
+            operation: 'concatenate',
+          });
+          return version.id;
+        }),
+      );
+      return { parentId: parentVersion.id, a, b, c };
+    });
+
+    it.effect('should put listed children first in the given order', () =>
+      Effect.gen(function* () {
+        const { parentId, a, c } = yield* setup;
+        expect(yield* ContentService.processContentFromId(parentId)).toBe(
+          'A\nB\nC',
+        );
+
+        yield* ContentService.reorderChildren(parentId, [c, a]);
+
+        expect(yield* ContentService.processContentFromId(parentId)).toBe(
+          'C\nA\nB',
+        );
+      }).pipe(Effect.provide(ContentTestWithEmptyData())),
+    );
+
+    it.effect('should number children left out after the listed ones', () =>
+      Effect.gen(function* () {
+        const { parentId, a, b, c } = yield* setup;
+        yield* ContentService.reorderChildren(parentId, [a, b, c]);
+
+        yield* ContentService.reorderChildren(parentId, [c]);
+
+        expect(yield* ContentService.processContentFromId(parentId)).toBe(
+          'C\nA\nB',
+        );
+        const orders = (yield* ContentService.getChildren(parentId)).map(
+          ({ node, edge }) => [node.content, edge.order],
+        );
+        expect(orders).toEqual(
+          expect.arrayContaining([
+            ['C', 0],
+            ['A', 1],
+            ['B', 2],
+          ]),
+        );
+      }).pipe(Effect.provide(ContentTestWithEmptyData())),
+    );
+
+    it.effect('should fail without changes for an id that is not a child', () =>
+      Effect.gen(function* () {
+        const { parentId, b } = yield* setup;
+        const stranger = Schema.decodeSync(ContentNodeVersionId)(
+          '650e8400-e29b-41d4-a716-446655440099',
+        );
+
+        const result = yield* Effect.either(
+          ContentService.reorderChildren(parentId, [b, stranger]),
+        );
+
+        expect(result._tag).toBe('Left');
+        if (result._tag === 'Left') {
+          expect(result.left).toBeInstanceOf(NotFoundError);
+          expect((result.left as NotFoundError).id).toBe(stranger);
+        }
+        expect(yield* ContentService.processContentFromId(parentId)).toBe(
+          'A\nB\nC',
+        );
+      }).pipe(Effect.provide(ContentTestWithEmptyData())),
+    );
+  });
+
+  describe('linkFloatingNode', () => {
+    const promptId = '650e8400-e29b-41d4-a716-446655440021';
+    const ruleV1Id = '650e8400-e29b-41d4-a716-446655440022';
+    const ruleV2Id = '650e8400-e29b-41d4-a716-446655440023';
+    const ruleNodeId = '550e8400-e29b-41d4-a716-446655440022';
+    const floatingData = () => ({
+      nodes: [
+        generateTestContentNode(
+          'floating-prompt',
+          'Prompt',
+          '550e8400-e29b-41d4-a716-446655440021',
+        ),
+        generateTestContentNode('shared-rule', 'Shared rule', ruleNodeId),
+      ],
+      versions: [
+        {
+          version: generateTestContentNodeVersion(
+            'Rules:',
+            'Prompt',
+            '2024-01-01T00:00:00.000Z',
+            promptId,
+          ),
+          nodeId: Schema.decodeSync(ContentNodeId)(
+            '550e8400-e29b-41d4-a716-446655440021',
+          ),
+        },
+        {
+          version: generateTestContentNodeVersion(
+            'Be kind.',
+            'First rule',
+            '2024-01-01T00:00:00.000Z',
+            ruleV1Id,
+          ),
+          nodeId: Schema.decodeSync(ContentNodeId)(ruleNodeId),
+        },
+        {
+          version: generateTestContentNodeVersion(
+            'Be very kind.',
+            'Stronger rule',
+            '2024-02-01T00:00:00.000Z',
+            ruleV2Id,
+          ),
+          nodeId: Schema.decodeSync(ContentNodeId)(ruleNodeId),
+          previousVersionId: Schema.decodeSync(ContentNodeVersionId)(ruleV1Id),
+        },
+      ],
+      edges: [],
+      tags: [],
+      testCases: [],
+    });
+    const versionId = (id: string) =>
+      Schema.decodeSync(ContentNodeVersionId)(id);
+    const nodeId = Schema.decodeSync(ContentNodeId)(ruleNodeId);
+
+    it.effect('should render the latest version of the target node', () =>
+      Effect.gen(function* () {
+        yield* ContentService.linkFloatingNode(versionId(promptId), nodeId, {
+          operation: 'concatenate',
+        });
+
+        const trace = yield* ContentService.processContentWithTrace(
+          versionId(promptId),
+        );
+
+        expect(trace.text).toBe('Rules:\nBe very kind.');
+        expect(trace.segments[trace.segments.length - 1]).toEqual({
+          start: 7,
+          end: 20,
+          versionId: ruleV2Id,
+          nodeName: 'shared-rule',
+          operation: 'concatenate',
+          floating: true,
+        });
+      }).pipe(Effect.provide(ContentTestWithData(floatingData()))),
+    );
+
+    it.effect('should show the resolved version in the content tree', () =>
+      Effect.gen(function* () {
+        yield* ContentService.linkFloatingNode(versionId(promptId), nodeId, {
+          operation: 'concatenate',
+        });
+
+        const tree = yield* ContentService.getContentTree(versionId(promptId));
+
+        expect(tree.children).toHaveLength(1);
+        expect(tree.children[0]).toMatchObject({
+          nodeName: 'shared-rule',
+          version: { id: ruleV2Id },
+          edge: { operation: 'concatenate' },
+          floating: true,
+        });
+      }).pipe(Effect.provide(ContentTestWithData(floatingData()))),
+    );
+
+    it.effect('should resolve to the version current at resolveAsOf', () =>
+      Effect.gen(function* () {
+        yield* ContentService.linkFloatingNode(versionId(promptId), nodeId, {
+          operation: 'concatenate',
+        });
+        const asOf = (iso: string) =>
+          ContentService.processContentFromId(
+            versionId(promptId),
+            HashMap.empty(),
+            { resolveAsOf: Schema.decodeSync(Schema.DateTimeUtc)(iso) },
+          );
+
+        expect(yield* asOf('2024-01-15T00:00:00.000Z')).toBe(
+          'Rules:\nBe kind.',
+        );
+        // Nothing to resolve to before the node's first version
+        expect(yield* asOf('2023-12-01T00:00:00.000Z')).toBe('Rules:');
+      }).pipe(Effect.provide(ContentTestWithData(floatingData()))),
+    );
+
+    it.effect('should reject a floating link that closes a cycle', () =>
+      Effect.gen(function* () {
+        yield* ContentService.linkNodes(
+          versionId(ruleV1Id),
+          versionId(promptId),
+          {
+            operation: 'concatenate',
+          },
+        );
+
+        const result = yield* Effect.either(
+          ContentService.linkFloatingNode(versionId(promptId), nodeId, {
+            operation: 'concatenate',
+          }),
+        );
+
+        expect(result._tag).toBe('Left');
+        if (result._tag === 'Left') {
+          expect(result.left).toBeInstanceOf(ContentCycleError);
+          expect((result.left as ContentCycleError).path).toEqual([
+            promptId,
+            ruleV1Id,
+            promptId,
+          ]);
+        }
+
+        // Nothing was written
+        expect(
+          yield* ContentService.processContentFromId(versionId(promptId)),
+        ).toBe('Rules:');
+      }).pipe(Effect.provide(ContentTestWithData(floatingData()))),
+    );
+
+    it.effect(
+      'should reject a link that closes a cycle through a floating edge',
+      () =>
+        Effect.gen(function* () {
+          yield* ContentService.linkFloatingNode(versionId(promptId), nodeId, {
+            operation: 'concatenate',
+          });
+
+          const error = yield* Effect.flip(
+            ContentService.linkNodes(versionId(ruleV1Id), versionId(promptId), {
+              operation: 'concatenate',
+            }),
+          );
+
+          expect(error).toBeInstanceOf(ContentCycleError);
+          expect(error).toMatchObject({
+            path: [ruleV1Id, promptId, ruleV1Id],
+          });
+          expect(
+            yield* ContentService.processContentFromId(versionId(promptId)),
+          ).toBe('Rules:\nBe very kind.');
+        }).pipe(Effect.provide(ContentTestWithData(floatingData()))),
+    );
+  });
+
+  describe('version history', () => {
+    const historyNodeId = '550e8400-e29b-41d4-a716-446655440031';
+    const childNodeId = '550e8400-e29b-41d4-a716-446655440034';
+    const [v1, v2, v3, child] = [
+      '650e8400-e29b-41d4-a716-446655440031',
+      '650e8400-e29b-41d4-a716-446655440032',
+      '650e8400-e29b-41d4-a716-446655440033',
+      '650e8400-e29b-41d4-a716-446655440034',
+    ].map((id) => Schema.decodeSync(ContentNodeVersionId)(id));
+    const version = (
+      id: ContentNodeVersionId,
+      content: string,
+      message: string,
+      createdAt: string,
+    ) => ({
+      version: generateTestContentNodeVersion(content, message, createdAt, id),
+      nodeId: Schema.decodeSync(ContentNodeId)(historyNodeId),
+    });
+    const historyData = () => ({
+      nodes: [
+        generateTestContentNode('history-node', 'Versioned', historyNodeId),
+        generateTestContentNode('history-child', 'Child', childNodeId),
+      ],
+      versions: [
+        version(v1, 'Be kind, {{name}}.', 'First', '2024-01-01T00:00:00.000Z'),
+        version(
+          v2,
+          'Be kind.\nBe brief.',
+          'Second',
+          '2024-02-01T00:00:00.000Z',
+        ),
+        version(
+          v3,
+          'Be very kind.\nBe brief.',
+          'Third',
+          '2024-03-01T00:00:00.000Z',
+        ),
+        {
+          version: generateTestContentNodeVersion(
+            'Ada',
+            'Child',
+            '2024-01-01T00:00:00.000Z',
+            child,
+          ),
+          nodeId: Schema.decodeSync(ContentNodeId)(childNodeId),
+        },
+      ],
+      edges: [
+        {
+          parentId: v1,
+          childId: child,
+          properties: { operation: 'insert' as const, key: 'name' },
+        },
+        {
+          parentId: v3,
+          childId: child,
+          properties: { operation: 'concatenate' as const, order: 1 },
+        },
+      ],
+      tags: [],
+      testCases: [],
+    });
+
+    it.effect('should page through versions newest first', () =>
+      Effect.gen(function* () {
+        const nodeId = Schema.decodeSync(ContentNodeId)(historyNodeId);
+
+        const first = yield* ContentService.getVersionHistory(nodeId, {
+          limit: 2,
+        });
+        expect(first.versions.map((v) => v.commitMessage)).toEqual([
+          'Third',
+          'Second',
+        ]);
+        expect(first.total).toBe(3);
+        expect(first.hasMore).toBe(true);
+
+        const second = yield* ContentService.getVersionHistory(nodeId, {
+          limit: 2,
+          offset: 2,
+        });
+        expect(second.versions.map((v) => v.id)).toEqual([v1]);
+        expect(second.hasMore).toBe(false);
+      }).pipe(Effect.provide(ContentTestWithData(historyData()))),
+    );
+
+    it.effect('should fail with NotFoundError for an unknown node', () =>
+      Effect.gen(function* () {
+        const result = yield* Effect.either(
+          ContentService.getVersionHistory(
+            Schema.decodeSync(ContentNodeId)(
+              '550e8400-e29b-41d4-a716-446655440099',
+            ),
+          ),
+        );
+        expect(result._tag).toBe('Left');
+        if (result._tag === 'Left') {
+          expect(result.left).toBeInstanceOf(NotFoundError);
+        }
+      }).pipe(Effect.provide(ContentTestWithData(historyData()))),
+    );
+
+    it.effect('should diff content and INCLUDES edges of two versions', () =>
+      Effect.gen(function* () {
+        const diff = yield* ContentService.diffContentNodeVersions(v1, v3);
+
+        expect(diff.content).toBe(
+          [
+            `--- a/history-node@${v1}`,
+            `+++ b/history-node@${v3}`,
+            '@@ -1,1 +1,2 @@',
+            '-Be kind, {{name}}.',
+            '+Be very kind.',
+            '+Be brief.',
+          ].join('\n'),
+        );
+        expect(diff.edges.split('\n').slice(2)).toEqual([
+          '@@ -1,1 +1,1 @@',
+          `-insert history-child@${child} key=name`,
+          `+concatenate history-child@${child} order=1`,
+        ]);
+        expect(diff.removedEdges.map((e) => e.properties.operation)).toEqual([
+          'insert',
+        ]);
+        expect(diff.addedEdges).toEqual([
+          {
+            targetId: child,
+            targetName: 'history-child',
+            floating: false,
+            properties: { operation: 'concatenate', order: 1 },
+          },
+        ]);
+
+        const unchanged = yield* ContentService.diffContentNodeVersions(v2, v2);
+        expect(unchanged.content).toBe('');
+        expect(unchanged.edges).toBe('');
+      }).pipe(Effect.provide(ContentTestWithData(historyData()))),
+    );
+
+    it.effect('should revert by adding a copy of the target as latest', () =>
+      Effect.gen(function* () {
+        const nodeId = Schema.decodeSync(ContentNodeId)(historyNodeId);
+
+        const reverted = yield* ContentService.revertContentNode(
+          nodeId,
+          v1,
+          'Revert to first',
+        );
+
+        expect(reverted.content).toBe('Be kind, {{name}}.');
+        expect(reverted.commitMessage).toBe('Revert to first');
+        const latest =
+          yield* ContentService.getLatestContentNodeVersion(nodeId);
+        expect(Option.getOrThrow(latest).id).toBe(reverted.id);
+        const history = yield* ContentService.getVersionHistory(nodeId);
+        expect(history.versions.map((v) => v.id)).toEqual([
+          reverted.id,
+          v3,
+          v2,
+          v1,
+        ]);
+
+        // Outgoing edges come back with the content
+        expect(yield* ContentService.processContentFromId(reverted.id)).toBe(
+          'Be kind, Ada.',
+        );
+        const diff = yield* ContentService.diffContentNodeVersions(
+          v1,
+          reverted.id,
+        );
+        expect(diff.content).toBe('');
+        expect(diff.addedEdges).toEqual([]);
+        expect(diff.removedEdges).toEqual([]);
+      }).pipe(Effect.provide(ContentTestWithData(historyData()))),
+    );
+
+    it.effect('should fail for a version of another node', () =>
+      Effect.gen(function* () {
+        const result = yield* Effect.either(
+          ContentService.revertContentNode(
+            Schema.decodeSync(ContentNodeId)(historyNodeId),
+            child,
+            'Wrong node',
+          ),
+        );
+
+        expect(result._tag).toBe('Left');
+        if (result._tag === 'Left') {
+          expect(result.left).toBeInstanceOf(NotFoundError);
+          expect((result.left as NotFoundError).id).toBe(child);
+        }
+        const history = yield* ContentService.getVersionHistory(
+          Schema.decodeSync(ContentNodeId)(historyNodeId),
+        );
+        expect(history.total).toBe(3);
+      }).pipe(Effect.provide(ContentTestWithData(historyData()))),
+    );
+  });
+
+  describe('listContentNodes', () => {
+    it.effect('should list all content nodes ordered by name', () =>
+      Effect.gen(function* () {
+        const nodes = yield* ContentService.listContentNodes();
+
+        expect(nodes).toHaveLength(4);
+        expect(nodes[0].name).toBe('be-concise');
+        expect(nodes[1].name).toBe('be-helpful');
+        expect(nodes[2].name).toBe('greeting-template');
+        expect(nodes[3].name).toBe('user-name');
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    it.effect('should return empty array when no nodes exist', () =>
+      Effect.gen(function* () {
+        const nodes = yield* ContentService.listContentNodes();
+        expect(nodes).toHaveLength(0);
+      }).pipe(Effect.provide(ContentTestWithEmptyData())),
+    );
+  });
+
+  describe('archiveContentNode', () => {
+    const conciseId = Schema.decodeSync(ContentNodeId)(
+      '550e8400-e29b-41d4-a716-446655440003',
+    );
+
+    it.effect('should hide archived nodes from listings and slots', () =>
+      Effect.gen(function* () {
+        const archived = yield* ContentService.archiveContentNode(conciseId);
+        expect(archived.archivedAt).toBeDefined();
+
+        const listed = yield* ContentService.listContentNodes();
+        expect(listed.map((n) => n.name)).not.toContain('be-concise');
+        const all = yield* ContentService.listContentNodes({
+          includeArchived: true,
+        });
+        expect(all.map((n) => n.name)).toContain('be-concise');
+
+        const selected = yield* ContentService.findContentForSlot(
+          { role: 'system', tags: ['instruction'], sequence: 0 },
+          HashMap.empty(),
+        );
+        expect(selected.map((v) => v.versionId)).toEqual([
+          '650e8400-e29b-41d4-a716-446655440004',
+        ]);
+
+        const restored = yield* ContentService.unarchiveContentNode(conciseId);
+        expect(restored.archivedAt).toBeUndefined();
+        expect(yield* ContentService.listContentNodes()).toHaveLength(4);
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    it.effect('should still render archived content where it is included', () =>
+      Effect.gen(function* () {
+        yield* ContentService.archiveContentNode(
+          Schema.decodeSync(ContentNodeId)(
+            '550e8400-e29b-41d4-a716-446655440002',
+          ),
+        );
+        const text = yield* ContentService.processContentFromId(
+          Schema.decodeSync(ContentNodeVersionId)(
+            '650e8400-e29b-41d4-a716-446655440001',
+          ),
+        );
+        expect(text).toBe('Hello Alice, welcome to our service!');
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    it.effect('should keep the first archive time', () =>
+      Effect.gen(function* () {
+        const first = yield* ContentService.archiveContentNode(conciseId);
+        const second = yield* ContentService.archiveContentNode(conciseId);
+        expect(second.archivedAt).toEqual(first.archivedAt);
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+  });
+
+  describe('setContentParameters', () => {
+    const key = Schema.decodeSync(InsertKey);
+    const concise = Schema.decodeSync(Slug)('be-concise');
+
+    it.effect('should store declarations and clear them', () =>
+      Effect.gen(function* () {
+        const declarations = [
+          { name: key('limit'), type: 'number', default: 3 },
+          { name: key('style'), type: 'object', required: true },
+        ] as const;
+        const node = yield* ContentService.setContentParameters(
+          concise,
+          declarations,
+        );
+        expect(node.parameters).toEqual(declarations);
+        const found = yield* ContentService.findContentNodeByName(concise);
+        expect(Option.getOrThrow(found).parameters).toEqual(declarations);
+
+        const cleared = yield* ContentService.setContentParameters(concise, []);
+        expect(cleared.parameters).toBeUndefined();
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    it.effect('should refuse duplicate names and mistyped defaults', () =>
+      Effect.gen(function* () {
+        const error = yield* Effect.flip(
+          ContentService.setContentParameters(concise, [
+            { name: key('limit'), type: 'number', default: 'three' },
+            { name: key('limit'), type: 'list', default: [3] },
+          ]),
+        );
+        expect(error).toBeInstanceOf(ParameterValidationError);
+        expect(error).toMatchObject({
+          nodeName: 'be-concise',
+          issues: [
+            {
+              parameter: 'limit',
+              reason: 'default must be a number, not a string',
+            },
+            { parameter: 'limit', reason: 'is declared twice' },
+          ],
+        });
+        const found = yield* ContentService.findContentNodeByName(concise);
+        expect(Option.getOrThrow(found).parameters).toBeUndefined();
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+  });
+
+  describe('deleteContentNode', () => {
+    it.effect('should refuse to delete included or used content', () =>
+      Effect.gen(function* () {
+        const nodeId = Schema.decodeSync(ContentNodeId)(
+          '550e8400-e29b-41d4-a716-446655440002',
+        );
+        const error = yield* Effect.flip(
+          ContentService.deleteContentNode(nodeId),
+        );
+
+        expect(error).toBeInstanceOf(ContentInUseError);
+        expect(error).toMatchObject({
+          id: nodeId,
+          includedBy: ['650e8400-e29b-41d4-a716-446655440001'],
+          dataPoints: ['750e8400-e29b-41d4-a716-446655440001'],
+        });
+        expect(yield* ContentService.listContentNodes()).toHaveLength(4);
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    it.effect('should delete an unreferenced node with its versions', () =>
+      Effect.gen(function* () {
+        const nodeId = Schema.decodeSync(ContentNodeId)(
+          '550e8400-e29b-41d4-a716-446655440004',
+        );
+        yield* ContentService.deleteContentNode(nodeId);
+
+        const names = (yield* ContentService.listContentNodes()).map(
+          (n) => n.name,
+        );
+        expect(names).not.toContain('be-helpful');
+        expect(
+          Option.isNone(
+            yield* ContentService.getLatestContentNodeVersion(nodeId),
+          ),
+        ).toBe(true);
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    it.effect('should fail for a missing node', () =>
+      Effect.gen(function* () {
+        const error = yield* Effect.flip(
+          ContentService.deleteContentNode(
+            Schema.decodeSync(ContentNodeId)(
+              '550e8400-e29b-41d4-a716-446655449999',
+            ),
+          ),
+        );
+        expect(error).toBeInstanceOf(NotFoundError);
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+  });
+
+  describe('deleteContentNodeVersion', () => {
+    it.effect('should delete an unreferenced version', () =>
+      Effect.gen(function* () {
+        const nodeId = Schema.decodeSync(ContentNodeId)(
+          '550e8400-e29b-41d4-a716-446655440003',
+        );
+        const latest = yield* ContentService.createContentNodeVersion(
+          nodeId,
+          'Keep it short',
+          'Shorter',
+        );
+        yield* ContentService.deleteContentNodeVersion(
+          Schema.decodeSync(ContentNodeVersionId)(
+            '650e8400-e29b-41d4-a716-446655440003',
+          ),
+        );
+
+        const history = yield* ContentService.getVersionHistory(nodeId);
+        expect(history.versions.map((v) => v.id)).toEqual([latest.id]);
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    it.effect('should refuse to delete a version a data point used', () =>
+      Effect.gen(function* () {
+        const versionId = Schema.decodeSync(ContentNodeVersionId)(
+          '650e8400-e29b-41d4-a716-446655440001',
+        );
+        const error = yield* Effect.flip(
+          ContentService.deleteContentNodeVersion(versionId),
+        );
+
+        expect(error).toBeInstanceOf(ContentInUseError);
+        expect(error.message).toBe(
+          `Cannot delete ${versionId}: used by data points 750e8400-e29b-41d4-a716-446655440001`,
+        );
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
   });
 
   describe('getChildren', () => {
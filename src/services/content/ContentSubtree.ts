@@ -0,0 +1,203 @@
+import { DateTime, Effect, Schema } from 'effect';
+import { Neo4jService } from '../neo4j';
+import { PersistenceError } from '../../domain/types/errors';
+import { cypher, queryParams } from '../../domain/types/database';
+import {
+  ContentNodeVersion,
+  ContentNodeVersionId,
+  IncludesEdgeProperties,
+  ParameterDeclaration,
+  ProcessingOptions,
+  StoredParameterDeclarations,
+} from '../../domain/types/contentNode';
+import { Slug } from '../../domain/types/branded';
+
+/**
+ * A version loaded into a subtree, with the name of the node it belongs to
+ */
+export interface SubtreeVersion {
+  readonly version: ContentNodeVersion;
+  readonly nodeName: Slug;
+  // Parameters the node declares
+  readonly parameters: ReadonlyArray<ParameterDeclaration>;
+}
+
+/**
+ * An outgoing INCLUDES edge and the version it resolved to
+ */
+export interface SubtreeChild {
+  readonly node: ContentNodeVersion;
+  readonly edge: IncludesEdgeProperties;
+  // Name of the ContentNode the child version belongs to
+  readonly parentName: Slug;
+  readonly tags: ReadonlyArray<string>;
+  readonly floating: boolean;
+}
+
+/**
+ * Every version reachable from a set of roots, with each expanded version's
+ * children in query order; excluded versions are loaded but not expanded
+ */
+export interface ContentSubtree {
+  readonly versions: ReadonlyMap<ContentNodeVersionId, SubtreeVersion>;
+  readonly children: ReadonlyMap<
+    ContentNodeVersionId,
+    ReadonlyArray<SubtreeChild>
+  >;
+}
+
+/**
+ * Helper to keep PersistenceError and wrap anything else as a read failure
+ */
+const mapToReadError = <A, E, R>(
+  effect: Effect.Effect<A, E, R>,
+): Effect.Effect<A, PersistenceError, R> =>
+  effect.pipe(
+    Effect.mapError((error) =>
+      error instanceof PersistenceError
+        ? error
+        : new PersistenceError({
+            originalMessage: String(error),
+            operation: 'read',
+          }),
+    ),
+  );
+
+const decodeParameters = (parameters: unknown) =>
+  parameters === null || parameters === undefined
+    ? Effect.succeed([])
+    : Schema.decodeUnknown(StoredParameterDeclarations)(parameters);
+
+/**
+ * Load the INCLUDES subtree below the given versions
+ * One query fetches the roots, then one query per level fetches the children
+ * of every version on that level, so a render costs depth + 2 round trips no
+ * matter how wide the tree is. Floating edges are resolved here, to the
+ * target's latest version or the latest as of options.resolveAsOf. Roots
+ * that do not exist are left out of the result. With maxDepth, versions
+ * that many levels down are loaded but not expanded.
+ */
+export const loadSubtree = (
+  rootIds: ReadonlyArray<ContentNodeVersionId>,
+  options: Pick<ProcessingOptions, 'resolveAsOf' | 'excludeVersionIds'> & {
+    maxDepth?: number;
+  } = {},
+): Effect.Effect<ContentSubtree, PersistenceError, Neo4jService> =>
+  Effect.gen(function* () {
+    const neo4j = yield* Neo4jService;
+    const excluded = new Set<string>(options.excludeVersionIds ?? []);
+    const asOf = options.resolveAsOf
+      ? DateTime.formatIso(options.resolveAsOf)
+      : null;
+
+    const rootsQuery = cypher`
+      UNWIND $versionIds as versionId
+      MATCH (node:ContentNodeVersion {id: versionId})-[:VERSION_OF]->(owner:ContentNode)
+      RETURN node, owner.name as nodeName, owner.parameters as parameters
+    `;
+
+    // Pinned edges target a version; floating edges target a ContentNode and
+    // resolve to its latest version, or the latest one created at or before
+    // $asOf. A floating edge with nothing to resolve to yet returns a null
+    // child and is skipped.
+    const childrenQuery = cypher`
+      UNWIND $versionIds as versionId
+      CALL {
+        WITH versionId
+        MATCH (node:ContentNodeVersion {id: versionId})-[r:INCLUDES]->(child:ContentNodeVersion)
+        MATCH (child)-[:VERSION_OF]->(parentNode:ContentNode)
+        RETURN child, r, parentNode, false as floating
+        UNION
+        WITH versionId
+        MATCH (node:ContentNodeVersion {id: versionId})-[r:INCLUDES]->(parentNode:ContentNode)
+        OPTIONAL MATCH (parentNode)<-[:VERSION_OF]-(candidate:ContentNodeVersion)
+        WHERE $asOf IS NULL OR candidate.createdAt <= $asOf
+        WITH r, parentNode, candidate ORDER BY candidate.createdAt DESC
+        WITH r, parentNode, collect(candidate)[0] as child
+        RETURN child, r, parentNode, true as floating
+      }
+      WITH versionId, child, r, parentNode, floating
+      WHERE child IS NOT NULL
+      OPTIONAL MATCH (parentNode)-[:HAS_TAG]->(tag:Tag)
+      RETURN versionId as parentId, child, r as edge,
+        parentNode.name as parentName, collect(tag.name) as tags, floating,
+        parentNode.parameters as parameters
+    `;
+
+    const versions = new Map<ContentNodeVersionId, SubtreeVersion>();
+    const children = new Map<ContentNodeVersionId, SubtreeChild[]>();
+
+    const rootsParams = yield* queryParams({
+      versionIds: [...new Set(rootIds)],
+    });
+    const roots = yield* neo4j.runQuery<{
+      node: unknown;
+      nodeName: unknown;
+      parameters: unknown;
+    }>(rootsQuery, rootsParams);
+    for (const row of roots) {
+      const version = yield* Schema.decodeUnknown(ContentNodeVersion)(row.node);
+      const nodeName = yield* Schema.decodeUnknown(Slug)(row.nodeName);
+      const parameters = yield* decodeParameters(row.parameters);
+      versions.set(version.id, { version, nodeName, parameters });
+    }
+
+    let level = [...versions.keys()].filter((id) => !excluded.has(id));
+    let levels = 0;
+    while (level.length > 0 && levels < (options.maxDepth ?? Infinity)) {
+      levels++;
+      for (const id of level) {
+        children.set(id, []);
+      }
+      const childrenParams = yield* queryParams({ versionIds: level, asOf });
+      const rows = yield* neo4j.runQuery<{
+        parentId: unknown;
+        child: unknown;
+        edge: unknown;
+        parentName: unknown;
+        tags: string[];
+        floating: boolean;
+        parameters: unknown;
+      }>(childrenQuery, childrenParams);
+
+      const next = new Set<ContentNodeVersionId>();
+      for (const row of rows) {
+        const parentId = yield* Schema.decodeUnknown(ContentNodeVersionId)(
+          row.parentId,
+        );
+        const node = yield* Schema.decodeUnknown(ContentNodeVersion)(row.child);
+        const edge = yield* Schema.decodeUnknown(IncludesEdgeProperties)(
+          row.edge,
+        );
+        const parentName = yield* Schema.decodeUnknown(Slug)(row.parentName);
+        children.get(parentId)?.push({
+          node,
+          edge,
+          parentName,
+          tags: row.tags,
+          floating: row.floating,
+        });
+        if (!versions.has(node.id)) {
+          versions.set(node.id, {
+            version: node,
+            nodeName: parentName,
+            parameters: yield* decodeParameters(row.parameters),
+          });
+          if (!excluded.has(node.id)) {
+            next.add(node.id);
+          }
+        }
+      }
+      level = [...next];
+    }
+
+    yield* Effect.annotateCurrentSpan({
+      rootCount: rootIds.length,
+      versionCount: versions.size,
+      levels,
+    });
+
+    return { versions, children };
+  })
+    .pipe(mapToReadError)
+    .pipe(Effect.withSpan('ContentService.loadSubtree'));
@@ -0,0 +1,245 @@
+import { describe, it, expect } from '@effect/vitest';
+import { Effect, Either } from 'effect';
+import {
+  parseTemplate,
+  parseVersionTemplate,
+  renderTemplate,
+  templateParameters,
+  templateText,
+  TemplateValue,
+} from './ContentTemplate';
+import { TemplateParseError } from '../../domain/types/errors';
+import { generateTestContentNodeVersion } from './ContentService.test-layers';
+
+const render = (
+  source: string,
+  parameters: Record<string, TemplateValue> = {},
+): string => {
+  const template = parseTemplate(source);
+  if (Either.isLeft(template)) {
+    throw new Error(template.left.reason);
+  }
+  return templateText(
+    renderTemplate(template.right, (name) => parameters[name]),
+  );
+};
+
+const parseIssue = (source: string) => {
+  const template = parseTemplate(source);
+  return Either.isLeft(template) ? template.left : undefined;
+};
+
+describe('ContentTemplate', () => {
+  describe('variables', () => {
+    it('should substitute parameters', () => {
+      expect(render('Hello {{name}}!', { name: 'Alice' })).toBe('Hello Alice!');
+      expect(render('Hello {{ name }}!', { name: 'Alice' })).toBe(
+        'Hello Alice!',
+      );
+    });
+
+    it('should leave unresolved placeholders untouched', () => {
+      expect(render('Hello {{user_name}}!')).toBe('Hello {{user_name}}!');
+    });
+
+    it('should not treat parameter values as patterns', () => {
+      expect(render('Cost: {{price}}', { price: '$1 & $2' })).toBe(
+        'Cost: $1 & $2',
+      );
+    });
+
+    it('should use default values when a parameter is missing', () => {
+      expect(render('Hello {{name | "friend"}}')).toBe('Hello friend');
+      expect(render("Hello {{name | 'friend'}}")).toBe('Hello friend');
+      expect(render('Hello {{name | "friend"}}', { name: 'Bob' })).toBe(
+        'Hello Bob',
+      );
+    });
+
+    it('should not end a tag inside a quoted default', () => {
+      expect(render('{{a | "}}"}}!')).toBe('}}!');
+      expect(render("{{a | 'x}}y'}}")).toBe('x}}y');
+    });
+
+    it('should apply filters left to right', () => {
+      expect(render('{{name | trim | upper}}', { name: '  bob ' })).toBe('BOB');
+      expect(render('{{name | lower}}', { name: 'BOB' })).toBe('bob');
+      expect(render('{{name | json}}', { name: 'say "hi"' })).toBe(
+        '"say \\"hi\\""',
+      );
+      expect(render('{{name | "guest" | upper}}')).toBe('GUEST');
+    });
+
+    it('should read fields of object values', () => {
+      expect(render('{{user.name}}', { user: { name: 'Ada' } })).toBe('Ada');
+      expect(render('{{user.missing}}', { user: { name: 'Ada' } })).toBe(
+        '{{user.missing}}',
+      );
+    });
+  });
+
+  describe('conditionals', () => {
+    it('should branch on parameter presence', () => {
+      const source = '{{#if name}}Hi {{name}}{{else}}Hi there{{/if}}';
+      expect(render(source, { name: 'Ada' })).toBe('Hi Ada');
+      expect(render(source)).toBe('Hi there');
+    });
+
+    it('should treat false and empty lists as not set', () => {
+      const source = '{{#if formal}}Dear Sir{{else}}Hey{{/if}}';
+      expect(render(source, { formal: false })).toBe('Hey');
+      expect(render(source, { formal: [] })).toBe('Hey');
+      expect(render(source, { formal: true })).toBe('Dear Sir');
+      expect(render(source, { formal: 0 })).toBe('Dear Sir');
+      expect(render(source, { formal: '' })).toBe('Dear Sir');
+      expect(
+        render('{{#unless formal}}Hey{{/unless}}', { formal: false }),
+      ).toBe('Hey');
+    });
+
+    it('should support unless blocks', () => {
+      expect(render('{{#unless formal}}Hey{{/unless}}')).toBe('Hey');
+      expect(
+        render('{{#unless formal}}Hey{{/unless}}', { formal: 'yes' }),
+      ).toBe('');
+    });
+  });
+
+  describe('loops', () => {
+    it('should loop over list parameters', () => {
+      expect(
+        render('{{#each items}}{{@index}}={{this}};{{/each}}', {
+          items: ['a', 'b'],
+        }),
+      ).toBe('0=a;1=b;');
+    });
+
+    it('should treat a string as a list of one, even a JSON array', () => {
+      expect(
+        render('{{#each items}}- {{this}}\n{{/each}}', {
+          items: '["one","two"]',
+        }),
+      ).toBe('- ["one","two"]\n');
+    });
+
+    it('should render nothing for a missing list', () => {
+      expect(render('[{{#each items}}{{this}}{{/each}}]')).toBe('[]');
+    });
+  });
+
+  describe('escaping', () => {
+    it('should produce literal braces for escaped tags', () => {
+      expect(render('Use \\{{name}} syntax', { name: 'x' })).toBe(
+        'Use {{name}} syntax',
+      );
+    });
+
+    it('should keep braces that do not open a tag as text', () => {
+      expect(render('function f() {{ return 1; }}')).toBe(
+        'function f() {{ return 1; }}',
+      );
+      expect(render('{{first name}} {{}} {{/* note */}}')).toBe(
+        '{{first name}} {{}} {{/* note */}}',
+      );
+      expect(render('Hello {{name', { name: 'x' })).toBe('Hello {{name');
+      expect(render('{{ {{name}} }}', { name: 'x' })).toBe('{{ x }}');
+    });
+  });
+
+  describe('parse errors', () => {
+    it('should report issues with their offset', () => {
+      expect(parseIssue('Hello {{#if name}}')).toEqual({
+        position: 6,
+        reason: 'Unclosed {{#if}} block',
+      });
+    });
+
+    it('should report unknown filters and blocks', () => {
+      expect(parseIssue('{{name | shout}}')?.reason).toBe(
+        "Unknown filter 'shout'",
+      );
+      expect(parseIssue('{{#with name}}{{/with}}')?.reason).toBe(
+        "Unknown block '#with'",
+      );
+    });
+
+    it('should report mismatched and unclosed blocks', () => {
+      expect(parseIssue('{{#if a}}x{{/each}}')?.reason).toBe(
+        'Expected {{/if}} but found {{/each}}',
+      );
+      expect(parseIssue('{{#each a}}x')?.reason).toBe(
+        'Unclosed {{#each}} block',
+      );
+      expect(parseIssue('{{#each a}}{{else}}{{/each}}')?.reason).toBe(
+        'Unexpected {{else}}',
+      );
+    });
+
+    it('should report invalid parameter names', () => {
+      expect(parseIssue('{{#if first name}}{{/if}}')?.reason).toBe(
+        "Invalid parameter name 'first name'",
+      );
+      expect(parseIssue('{{#each}}{{/each}}')?.reason).toBe(
+        'Missing parameter name',
+      );
+    });
+  });
+
+  describe('templateParameters', () => {
+    it('should list parameters on every branch but not loop variables', () => {
+      const template = parseTemplate(
+        '{{#if vip}}Hi {{name | upper}}{{else}}Hello {{guest}}{{/if}}' +
+          '{{#each items}}{{@index}}: {{this}} {{unit}}{{/each}} {{name}}',
+      );
+      expect(Either.isRight(template)).toBe(true);
+      if (Either.isRight(template)) {
+        expect(templateParameters(template.right)).toEqual([
+          'vip',
+          'name',
+          'guest',
+          'items',
+          'unit',
+        ]);
+      }
+    });
+  });
+
+  describe('parseVersionTemplate', () => {
+    it.effect('should fail with the version id on invalid content', () =>
+      Effect.gen(function* () {
+        const version = generateTestContentNodeVersion(
+          'Broken {{#if name}}',
+          'Broken template',
+          '2024-01-01T00:00:00.000Z',
+          '650e8400-e29b-41d4-a716-446655440201',
+        );
+
+        const result = yield* Effect.either(parseVersionTemplate(version));
+
+        expect(result._tag).toBe('Left');
+        if (result._tag === 'Left') {
+          expect(result.left).toBeInstanceOf(TemplateParseError);
+          expect(result.left.versionId).toBe(version.id);
+          expect(result.left.position).toBe(7);
+        }
+      }),
+    );
+
+    it.effect('should parse the content of the version it is given', () =>
+      Effect.gen(function* () {
+        const id = '650e8400-e29b-41d4-a716-446655440202';
+        const first = yield* parseVersionTemplate(
+          generateTestContentNodeVersion('A {{x}}', 'v', undefined, id),
+        );
+        const changed = yield* parseVersionTemplate(
+          generateTestContentNodeVersion('B', 'v', undefined, id),
+        );
+
+        expect(templateText(renderTemplate(first, () => 'x'))).toBe('A x');
+        expect(templateText(renderTemplate(changed, () => undefined))).toBe(
+          'B',
+        );
+      }),
+    );
+  });
+});
@@ -0,0 +1,543 @@
+import { Effect, Either } from 'effect';
+import { TemplateParseError } from '../../domain/types/errors';
+import { ContentNodeVersion } from '../../domain/types/contentNode';
+
+/**
+ * Template language for content versions
+ *
+ * - `{{name}}` inserts a parameter; unresolved placeholders are left as-is
+ * - `{{name | "friend"}}` falls back to a default when the value is missing
+ * - `{{name | trim | upper}}` applies filters left to right
+ *   (upper, lower, trim, json)
+ * - `{{#if name}}...{{else}}...{{/if}}` and `{{#unless name}}...{{/unless}}`
+ *   branch on whether a parameter is set: missing, `false` and `[]` are not;
+ *   `0`, `""` and `{}` are
+ * - `{{#each items}}{{@index}}: {{this}}{{/each}}` loops over a list
+ * - `\{{` produces a literal `{{`, as does a `{{` that does not open a tag,
+ *   such as the braces in `function f() {{ return 1; }}`
+ */
+
+export type TemplateValue =
+  | string
+  | number
+  | boolean
+  | ReadonlyArray<TemplateValue>
+  | { readonly [key: string]: TemplateValue };
+
+export const TEMPLATE_FILTERS = ['upper', 'lower', 'trim', 'json'] as const;
+export type TemplateFilter = (typeof TEMPLATE_FILTERS)[number];
+
+// A pipe step is either a filter or a default literal
+export type TemplatePipeStep =
+  | { readonly _tag: 'Filter'; readonly filter: TemplateFilter }
+  | { readonly _tag: 'Default'; readonly value: string };
+
+export type TemplateNode =
+  | { readonly _tag: 'Text'; readonly text: string }
+  | {
+      readonly _tag: 'Variable';
+      readonly path: ReadonlyArray<string>;
+      readonly pipe: ReadonlyArray<TemplatePipeStep>;
+      readonly source: string;
+    }
+  | {
+      readonly _tag: 'If';
+      readonly path: ReadonlyArray<string>;
+      readonly negate: boolean;
+      readonly then: ReadonlyArray<TemplateNode>;
+      readonly otherwise: ReadonlyArray<TemplateNode>;
+    }
+  | {
+      readonly _tag: 'Each';
+      readonly path: ReadonlyArray<string>;
+      readonly body: ReadonlyArray<TemplateNode>;
+    };
+
+export type Template = ReadonlyArray<TemplateNode>;
+
+export interface TemplateSyntaxIssue {
+  readonly position: number;
+  readonly reason: string;
+}
+
+// A piece of rendered output, tagged with where its text came from
+export type TemplateChunk =
+  | { readonly _tag: 'Literal'; readonly text: string }
+  | {
+      readonly _tag: 'Value';
+      readonly text: string;
+      readonly name: string;
+      // False when the parameter text was inserted verbatim
+      readonly transformed: boolean;
+    }
+  | {
+      readonly _tag: 'Unresolved';
+      readonly text: string;
+      readonly name: string;
+    };
+
+export interface TemplateRender {
+  readonly chunks: ReadonlyArray<TemplateChunk>;
+  // Parameter names the template looked up, whether or not they resolved
+  readonly referenced: ReadonlyArray<string>;
+}
+
+// ===========================
+// PARSING
+// ===========================
+
+const pathPattern =
+  /^(?:this|@index|[a-zA-Z][a-zA-Z0-9_]*)(?:\.[a-zA-Z_][a-zA-Z0-9_]*)*$/;
+
+const isFilter = (name: string): name is TemplateFilter =>
+  (TEMPLATE_FILTERS as ReadonlyArray<string>).includes(name);
+
+/**
+ * Split on `|` outside of quoted strings
+ */
+const splitPipe = (expression: string): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  for (let i = 0; i < expression.length; i++) {
+    const char = expression[i];
+    if (quote) {
+      if (char === '\\' && i + 1 < expression.length) {
+        current += char + expression[i + 1];
+        i++;
+        continue;
+      }
+      if (char === quote) quote = null;
+      current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === '|') {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current.trim());
+  return parts;
+};
+
+/**
+ * Find the `}}` that closes a tag, skipping quoted pipe steps such as the
+ * default in `{{name | "}}"}}`
+ */
+const findTagClose = (source: string, from: number): number => {
+  let quote: string | null = null;
+  let stepStart = false;
+  for (let i = from; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+    } else if (source.startsWith('}}', i)) {
+      return i;
+    } else if (char === '|') {
+      stepStart = true;
+    } else if (stepStart && (char === '"' || char === "'")) {
+      quote = char;
+    } else if (char.trim()) {
+      stepStart = false;
+    }
+  }
+  // An unterminated quote belongs to the text, not to a default
+  return quote ? source.indexOf('}}', from) : -1;
+};
+
+/**
+ * Whether a tag's inner text is template syntax: a block, {{else}}, or a
+ * placeholder whose expression starts with a parameter name
+ */
+const isTagExpression = (inner: string): boolean =>
+  /^[#/]\s*[a-z]+\b/.test(inner) ||
+  inner === 'else' ||
+  pathPattern.test(splitPipe(inner)[0]);
+
+const parsePath = (
+  raw: string,
+  position: number,
+): Either.Either<ReadonlyArray<string>, TemplateSyntaxIssue> =>
+  pathPattern.test(raw)
+    ? Either.right(raw.split('.'))
+    : Either.left({
+        position,
+        reason: raw
+          ? `Invalid parameter name '${raw}'`
+          : 'Missing parameter name',
+      });
+
+const parseLiteral = (raw: string): string | undefined => {
+  if (raw.length < 2 || raw[0] !== raw[raw.length - 1]) return undefined;
+  if (raw[0] === '"') {
+    try {
+      const value: unknown = JSON.parse(raw);
+      return typeof value === 'string' ? value : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+  if (raw[0] === "'") {
+    return raw.slice(1, -1).replace(/\\(.)/g, '$1');
+  }
+  return undefined;
+};
+
+const parseVariable = (
+  expression: string,
+  source: string,
+  position: number,
+): Either.Either<TemplateNode, TemplateSyntaxIssue> =>
+  Either.gen(function* () {
+    const [rawPath, ...rawSteps] = splitPipe(expression);
+    const path = yield* parsePath(rawPath, position);
+    const pipe: TemplatePipeStep[] = [];
+    for (const step of rawSteps) {
+      const literal = parseLiteral(step);
+      if (literal !== undefined) {
+        pipe.push({ _tag: 'Default', value: literal });
+      } else if (isFilter(step)) {
+        pipe.push({ _tag: 'Filter', filter: step });
+      } else {
+        return yield* Either.left({
+          position,
+          reason: step ? `Unknown filter '${step}'` : 'Empty pipe step',
+        });
+      }
+    }
+    return { _tag: 'Variable' as const, path, pipe, source };
+  });
+
+type OpenBlock = {
+  readonly kind: 'if' | 'unless' | 'each';
+  readonly path: ReadonlyArray<string>;
+  readonly position: number;
+  readonly primary: TemplateNode[];
+  readonly secondary: TemplateNode[] | null;
+};
+
+/**
+ * Parse template source into an AST
+ */
+export const parseTemplate = (
+  source: string,
+): Either.Either<Template, TemplateSyntaxIssue> => {
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+  const current = (): TemplateNode[] => {
+    const block = stack[stack.length - 1];
+    if (!block) return root;
+    return block.secondary ?? block.primary;
+  };
+
+  let text = '';
+  const flushText = () => {
+    if (text) {
+      current().push({ _tag: 'Text', text });
+      text = '';
+    }
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    if (source.startsWith('\\{{', i)) {
+      text += '{{';
+      i += 3;
+      continue;
+    }
+    if (!source.startsWith('{{', i)) {
+      text += source[i];
+      i++;
+      continue;
+    }
+
+    const close = findTagClose(source, i + 2);
+    const inner = close === -1 ? '' : source.slice(i + 2, close).trim();
+    if (close === -1 || !isTagExpression(inner)) {
+      // Braces that are not a tag, as in code samples, stay as they are
+      text += '{{';
+      i += 2;
+      continue;
+    }
+    const tagSource = source.slice(i, close + 2);
+    flushText();
+
+    if (inner.startsWith('#')) {
+      const [keyword, ...args] = inner.slice(1).trim().split(/\s+/);
+      if (keyword !== 'if' && keyword !== 'unless' && keyword !== 'each') {
+        return Either.left({
+          position: i,
+          reason: `Unknown block '#${keyword}'`,
+        });
+      }
+      const path = parsePath(args.join(' '), i);
+      if (Either.isLeft(path)) return Either.left(path.left);
+      stack.push({
+        kind: keyword,
+        path: path.right,
+        position: i,
+        primary: [],
+        secondary: null,
+      });
+    } else if (inner === 'else') {
+      const block = stack[stack.length - 1];
+      if (!block || block.kind === 'each' || block.secondary) {
+        return Either.left({ position: i, reason: 'Unexpected {{else}}' });
+      }
+      stack[stack.length - 1] = { ...block, secondary: [] };
+    } else if (inner.startsWith('/')) {
+      const keyword = inner.slice(1).trim();
+      const block = stack.pop();
+      if (!block || block.kind !== keyword) {
+        return Either.left({
+          position: i,
+          reason: block
+            ? `Expected {{/${block.kind}}} but found {{/${keyword}}}`
+            : `Unexpected {{/${keyword}}}`,
+        });
+      }
+      const node: TemplateNode =
+        block.kind === 'each'
+          ? { _tag: 'Each', path: block.path, body: block.primary }
+          : {
+              _tag: 'If',
+              path: block.path,
+              negate: block.kind === 'unless',
+              then: block.primary,
+              otherwise: block.secondary ?? [],
+            };
+      current().push(node);
+    } else {
+      const variable = parseVariable(inner, tagSource, i);
+      if (Either.isLeft(variable)) return Either.left(variable.left);
+      current().push(variable.right);
+    }
+    i = close + 2;
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    return Either.left({
+      position: unclosed.position,
+      reason: `Unclosed {{#${unclosed.kind}}} block`,
+    });
+  }
+  flushText();
+  return Either.right(root);
+};
+
+/**
+ * Parse a version's content, failing with the version id if it is invalid
+ */
+export const parseVersionTemplate = (
+  version: ContentNodeVersion,
+): Effect.Effect<Template, TemplateParseError> =>
+  Either.match(parseTemplate(version.content ?? ''), {
+    onLeft: (issue) =>
+      Effect.fail(
+        new TemplateParseError({
+          versionId: version.id,
+          position: issue.position,
+          reason: issue.reason,
+        }),
+      ),
+    onRight: (template) => Effect.succeed(template),
+  });
+
+/**
+ * Names of the parameters a template can look up, on any branch, in order of
+ * first appearance; loop variables are not parameters
+ */
+export const templateParameters = (template: Template): string[] => {
+  const names = new Set<string>();
+  const visit = (nodes: ReadonlyArray<TemplateNode>): void => {
+    for (const node of nodes) {
+      if (node._tag === 'Text') continue;
+      const [head] = node.path;
+      if (head !== 'this' && head !== '@index') {
+        names.add(head);
+      }
+      if (node._tag === 'If') {
+        visit(node.then);
+        visit(node.otherwise);
+      } else if (node._tag === 'Each') {
+        visit(node.body);
+      }
+    }
+  };
+  visit(template);
+  return [...names];
+};
+
+// ===========================
+// RENDERING
+// ===========================
+
+/**
+ * Convert a value to the text that appears in the prompt
+ */
+export const stringifyTemplateValue = (value: TemplateValue): string =>
+  typeof value === 'string' ? value : JSON.stringify(value);
+
+/**
+ * Interpret a value as a list for {{#each}}; anything but an array is a list
+ * of one
+ */
+const asList = (value: TemplateValue): ReadonlyArray<TemplateValue> =>
+  Array.isArray(value) ? value : [value];
+
+const applyFilter = (
+  filter: TemplateFilter,
+  value: TemplateValue,
+): TemplateValue => {
+  switch (filter) {
+    case 'upper':
+      return stringifyTemplateValue(value).toUpperCase();
+    case 'lower':
+      return stringifyTemplateValue(value).toLowerCase();
+    case 'trim':
+      return stringifyTemplateValue(value).trim();
+    case 'json':
+      return JSON.stringify(value);
+  }
+};
+
+/**
+ * Whether a value counts as set for {{#if}} and {{#unless}}
+ */
+const isTruthy = (value: TemplateValue | undefined): boolean =>
+  value !== undefined &&
+  value !== false &&
+  !(Array.isArray(value) && value.length === 0);
+
+type Scope = {
+  readonly lookup: (name: string) => TemplateValue | undefined;
+  readonly loop: {
+    readonly item: TemplateValue;
+    readonly index: number;
+    readonly name: string;
+  } | null;
+};
+
+const resolvePath = (
+  path: ReadonlyArray<string>,
+  scope: Scope,
+  referenced: Set<string>,
+): TemplateValue | undefined => {
+  const [head, ...fields] = path;
+  let value: TemplateValue | undefined;
+  if (head === 'this' || head === '@index') {
+    if (!scope.loop) return undefined;
+    value = head === 'this' ? scope.loop.item : scope.loop.index;
+  } else {
+    referenced.add(head);
+    value = scope.lookup(head);
+  }
+  for (const field of fields) {
+    if (
+      value === undefined ||
+      typeof value !== 'object' ||
+      Array.isArray(value)
+    ) {
+      return undefined;
+    }
+    value = (value as { readonly [key: string]: TemplateValue })[field];
+  }
+  return value;
+};
+
+/**
+ * Name reported for a path: the parameter it reads, or the list being looped
+ */
+const sourceName = (path: ReadonlyArray<string>, scope: Scope): string =>
+  (path[0] === 'this' || path[0] === '@index') && scope.loop
+    ? scope.loop.name
+    : path[0];
+
+const renderNodes = (
+  nodes: ReadonlyArray<TemplateNode>,
+  scope: Scope,
+  chunks: TemplateChunk[],
+  referenced: Set<string>,
+): void => {
+  for (const node of nodes) {
+    switch (node._tag) {
+      case 'Text':
+        chunks.push({ _tag: 'Literal', text: node.text });
+        break;
+      case 'Variable': {
+        const resolved = resolvePath(node.path, scope, referenced);
+        let value = resolved;
+        for (const step of node.pipe) {
+          if (step._tag === 'Default') {
+            value = value === undefined ? step.value : value;
+          } else if (value !== undefined) {
+            value = applyFilter(step.filter, value);
+          }
+        }
+        const name = sourceName(node.path, scope);
+        if (value === undefined) {
+          chunks.push({ _tag: 'Unresolved', text: node.source, name });
+        } else {
+          chunks.push({
+            _tag: 'Value',
+            text: stringifyTemplateValue(value),
+            name,
+            transformed:
+              node.pipe.length > 0 ||
+              typeof resolved !== 'string' ||
+              scope.loop !== null,
+          });
+        }
+        break;
+      }
+      case 'If': {
+        const truthy = isTruthy(resolvePath(node.path, scope, referenced));
+        renderNodes(
+          truthy !== node.negate ? node.then : node.otherwise,
+          scope,
+          chunks,
+          referenced,
+        );
+        break;
+      }
+      case 'Each': {
+        const value = resolvePath(node.path, scope, referenced);
+        if (value === undefined) break;
+        const name = sourceName(node.path, scope);
+        asList(value).forEach((item, index) =>
+          renderNodes(
+            node.body,
+            { lookup: scope.lookup, loop: { item, index, name } },
+            chunks,
+            referenced,
+          ),
+        );
+        break;
+      }
+    }
+  }
+};
+
+/**
+ * Render a parsed template against a parameter lookup
+ */
+export const renderTemplate = (
+  template: Template,
+  lookup: (name: string) => TemplateValue | undefined,
+): TemplateRender => {
+  const chunks: TemplateChunk[] = [];
+  const referenced = new Set<string>();
+  renderNodes(template, { lookup, loop: null }, chunks, referenced);
+  return { chunks, referenced: [...referenced] };
+};
+
+/**
+ * Join rendered chunks into the final text
+ */
+export const templateText = (render: TemplateRender): string =>
+  render.chunks.map((chunk) => chunk.text).join('');
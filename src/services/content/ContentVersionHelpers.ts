@@ -4,10 +4,56 @@ import { TransactionContext } from '../neo4j';
 import { Neo4jError, PersistenceError } from '../../domain/types/errors';
 import { cypher, queryParams } from '../../domain/types/database';
 import {
+  ContentHashEdge,
   ContentNodeVersion,
   ContentNodeId,
   ContentNodeVersionId,
 } from '../../domain/types/contentNode';
+import { Embedding } from '../embeddings';
+import { DataPointId } from '../../domain/types/branded';
+
+/**
+ * Hash a version's content together with its outgoing INCLUDES edges
+ * Edges are hashed in a canonical order, so the order they were created in
+ * does not matter; a version without edges hashes its text alone.
+ */
+export const computeContentHash = (
+  content: string | undefined,
+  edges: ReadonlyArray<ContentHashEdge> = [],
+): string => {
+  const edgeKeys = edges
+    .map(({ targetId, floating, properties }) =>
+      JSON.stringify([
+        targetId,
+        floating,
+        properties.operation,
+        properties.key ?? null,
+        properties.order ?? null,
+        properties.separator ?? null,
+      ]),
+    )
+    .sort();
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify([content ?? null, edgeKeys]))
+    .digest('hex');
+};
+
+/**
+ * Map a query parameter failure inside a transaction to a Neo4jError
+ */
+const toNeo4jError = (error: { message: string }) =>
+  new Neo4jError({ originalMessage: error.message, query: '' });
+
+/**
+ * Map a result that does not decode to a Neo4jError for its query
+ */
+const toInvalidResult =
+  (description: string, query: string) => (error: { message: string }) =>
+    new Neo4jError({
+      originalMessage: `${description}: ${error.message}`,
+      query,
+    });
 
 /**
  * Generate a new ContentNodeVersion with proper ID and timestamp
@@ -45,6 +91,7 @@ export const generateContentNodeVersion = (
       content,
       createdAt,
       commitMessage,
+      contentHash: computeContentHash(content),
     };
   });
 
@@ -58,13 +105,7 @@ export const verifyContentNodeExists = (
   Effect.gen(function* () {
     const parentQuery = cypher`MATCH (p:ContentNode {id: $id}) RETURN p`;
     const parentParams = yield* queryParams({ id: nodeId }).pipe(
-      Effect.mapError(
-        (error) =>
-          new Neo4jError({
-            originalMessage: error.message,
-            query: '',
-          }),
-      ),
+      Effect.mapError(toNeo4jError),
     );
     const parentResults = yield* tx.run(parentQuery, parentParams);
     if (parentResults.length === 0) {
@@ -78,47 +119,57 @@ export const verifyContentNodeExists = (
   });
 
 /**
- * Find the previous version of a ContentNode
+ * Find the latest version of a ContentNode
  */
-export const findPreviousContentNodeVersion = (
+export const findLatestContentNodeVersion = (
   tx: TransactionContext,
   nodeId: ContentNodeId,
-): Effect.Effect<Option.Option<ContentNodeVersionId>, Neo4jError, never> =>
+): Effect.Effect<Option.Option<ContentNodeVersion>, Neo4jError, never> =>
   Effect.gen(function* () {
-    const previousQuery = cypher`
+    const latestQuery = cypher`
       MATCH (p:ContentNode {id: $parentId})<-[:VERSION_OF]-(v:ContentNodeVersion)
       RETURN v ORDER BY v.createdAt DESC LIMIT 1
     `;
-    const previousParams = yield* queryParams({ parentId: nodeId }).pipe(
-      Effect.mapError(
-        (error) =>
-          new Neo4jError({
-            originalMessage: error.message,
-            query: '',
-          }),
-      ),
+    const latestParams = yield* queryParams({ parentId: nodeId }).pipe(
+      Effect.mapError(toNeo4jError),
+    );
+    const latestResults = yield* tx.run<{ v: unknown }>(
+      latestQuery,
+      latestParams,
     );
-    const previousResults = yield* tx.run(previousQuery, previousParams);
 
-    if (previousResults.length === 0) {
+    if (latestResults.length === 0) {
       return Option.none();
     }
 
-    const versionRecord = previousResults[0] as { v: { id: string } };
-    const previousId = Schema.decodeSync(ContentNodeVersionId)(
-      versionRecord.v.id,
+    return Option.some(
+      yield* Schema.decodeUnknown(ContentNodeVersion)(latestResults[0].v).pipe(
+        Effect.mapError(toInvalidResult('Invalid version', latestQuery)),
+      ),
     );
-    return Option.some(previousId);
   });
 
+/**
+ * Find the previous version of a ContentNode
+ */
+export const findPreviousContentNodeVersion = (
+  tx: TransactionContext,
+  nodeId: ContentNodeId,
+): Effect.Effect<Option.Option<ContentNodeVersionId>, Neo4jError, never> =>
+  findLatestContentNodeVersion(tx, nodeId).pipe(
+    Effect.map(Option.map((version) => version.id)),
+  );
+
 /**
  * Create version node in Neo4j with proper relationships
+ * The embedding, if given, is stored on the version with its model.
  */
 export const createVersionInNeo4j = (
   tx: TransactionContext,
   nodeId: ContentNodeId,
   version: ContentNodeVersion,
   previousVersionId: Option.Option<ContentNodeVersionId>,
+  embedding: Option.Option<Embedding> = Option.none(),
 ): Effect.Effect<void, Neo4jError, never> =>
   Effect.gen(function* () {
     const createQuery = Option.isSome(previousVersionId)
@@ -147,16 +198,290 @@ export const createVersionInNeo4j = (
         content: version.content,
         createdAt: JSON.parse(JSON.stringify(version.createdAt)),
         commitMessage: version.commitMessage,
+        contentHash: version.contentHash ?? null,
+        embedding: Option.isSome(embedding) ? embedding.value.vector : null,
+        embeddingModel: Option.isSome(embedding) ? embedding.value.model : null,
       },
+    }).pipe(Effect.mapError(toNeo4jError));
+
+    yield* tx.run(createQuery, createParams);
+  });
+
+/**
+ * Find a version of a ContentNode by id; None if it belongs to another node
+ */
+export const findVersionOfNode = (
+  tx: TransactionContext,
+  nodeId: ContentNodeId,
+  versionId: ContentNodeVersionId,
+): Effect.Effect<Option.Option<ContentNodeVersion>, Neo4jError, never> =>
+  Effect.gen(function* () {
+    const versionQuery = cypher`
+      MATCH (target:ContentNodeVersion {id: $versionId})-[:VERSION_OF]->(p:ContentNode {id: $nodeId})
+      RETURN target
+    `;
+    const versionParams = yield* queryParams({ nodeId, versionId }).pipe(
+      Effect.mapError(toNeo4jError),
+    );
+    const versionResults = yield* tx.run<{ target: unknown }>(
+      versionQuery,
+      versionParams,
+    );
+
+    if (versionResults.length === 0) {
+      return Option.none();
+    }
+
+    return Option.some(
+      yield* Schema.decodeUnknown(ContentNodeVersion)(
+        versionResults[0].target,
+      ).pipe(Effect.mapError(toInvalidResult('Invalid version', versionQuery))),
+    );
+  });
+
+/**
+ * Copy every outgoing INCLUDES edge, pinned or floating, with its properties
+ * from one version to another
+ */
+export const copyOutgoingIncludes = (
+  tx: TransactionContext,
+  fromId: ContentNodeVersionId,
+  toId: ContentNodeVersionId,
+): Effect.Effect<void, Neo4jError, never> =>
+  Effect.gen(function* () {
+    const copyQuery = cypher`
+      MATCH (source:ContentNodeVersion {id: $fromId})-[r:INCLUDES]->(child)
+      MATCH (v:ContentNodeVersion {id: $toId})
+      CREATE (v)-[copy:INCLUDES]->(child)
+      SET copy = properties(r)
+    `;
+    const copyParams = yield* queryParams({ fromId, toId }).pipe(
+      Effect.mapError(toNeo4jError),
+    );
+    yield* tx.run(copyQuery, copyParams);
+  });
+
+/**
+ * Copy a version's embedding to another version with the same content
+ */
+export const copyEmbedding = (
+  tx: TransactionContext,
+  fromId: ContentNodeVersionId,
+  toId: ContentNodeVersionId,
+): Effect.Effect<void, Neo4jError, never> =>
+  Effect.gen(function* () {
+    const copyQuery = cypher`
+      MATCH (source:ContentNodeVersion {id: $fromId})
+      MATCH (v:ContentNodeVersion {id: $toId})
+      SET v.embedding = source.embedding, v.embeddingModel = source.embeddingModel
+    `;
+    const copyParams = yield* queryParams({ fromId, toId }).pipe(
+      Effect.mapError(toNeo4jError),
+    );
+    yield* tx.run(copyQuery, copyParams);
+  });
+
+/**
+ * Versions outside the targets that include one of them, and data points
+ * that used one of the target versions
+ */
+export interface ContentReferences {
+  readonly includedBy: ReadonlyArray<ContentNodeVersionId>;
+  readonly dataPoints: ReadonlyArray<DataPointId>;
+}
+
+/**
+ * Find what still references a set of versions, or a node and its versions
+ * Includes of one target by another are ignored, so a node whose versions
+ * include each other can still be deleted as a whole.
+ */
+export const findContentReferences = (
+  tx: TransactionContext,
+  nodeId: ContentNodeId | null,
+  versionIds: ReadonlyArray<ContentNodeVersionId>,
+): Effect.Effect<ContentReferences, Neo4jError, never> =>
+  Effect.gen(function* () {
+    const includedByQuery = cypher`
+      CALL {
+        UNWIND $versionIds as versionId
+        MATCH (parent:ContentNodeVersion)-[:INCLUDES]->(:ContentNodeVersion {id: versionId})
+        RETURN parent
+        UNION
+        MATCH (parent:ContentNodeVersion)-[:INCLUDES]->(:ContentNode {id: $nodeId})
+        RETURN parent
+      }
+      WITH parent WHERE NOT parent.id IN $versionIds
+      RETURN parent.id as parentId
+      ORDER BY parentId
+    `;
+    const dataPointsQuery = cypher`
+      UNWIND $versionIds as versionId
+      MATCH (dp:DataPoint)-[:USED_CONTENT]->(:ContentNodeVersion {id: versionId})
+      RETURN dp.id as id, collect(versionId) as versionIds
+      ORDER BY id
+    `;
+    const params = yield* queryParams({ nodeId, versionIds }).pipe(
+      Effect.mapError(toNeo4jError),
+    );
+    const includedBy = yield* tx.run<{ parentId: unknown }>(
+      includedByQuery,
+      params,
+    );
+    const dataPoints = yield* tx.run<{ id: unknown }>(dataPointsQuery, params);
+
+    return yield* Schema.decodeUnknown(
+      Schema.Struct({
+        includedBy: Schema.Array(ContentNodeVersionId),
+        dataPoints: Schema.Array(DataPointId),
+      }),
+    )({
+      includedBy: includedBy.map((row) => row.parentId),
+      dataPoints: dataPoints.map((row) => row.id),
     }).pipe(
-      Effect.mapError(
-        (error) =>
-          new Neo4jError({
-            originalMessage: error.message,
-            query: '',
-          }),
-      ),
+      Effect.mapError(toInvalidResult('Invalid references', includedByQuery)),
     );
+  });
 
-    yield* tx.run(createQuery, createParams);
+/**
+ * Hash a stored version's current content and outgoing INCLUDES edges,
+ * without changing the hash stored on it
+ * Returns None if the version does not exist.
+ */
+export const readContentHash = (
+  tx: TransactionContext,
+  versionId: ContentNodeVersionId,
+): Effect.Effect<Option.Option<string>, Neo4jError, never> =>
+  Effect.gen(function* () {
+    const readQuery = cypher`
+      MATCH (v:ContentNodeVersion {id: $versionId})
+      OPTIONAL MATCH (v)-[r:INCLUDES]->(target)
+      OPTIONAL MATCH (target)-[:VERSION_OF]->(owner:ContentNode)
+      RETURN v.content as content,
+        collect(CASE WHEN r IS NULL THEN null ELSE {
+          targetId: target.id,
+          floating: owner IS NULL,
+          properties: properties(r)
+        } END) as edges
+    `;
+    const readParams = yield* queryParams({ versionId }).pipe(
+      Effect.mapError(toNeo4jError),
+    );
+    const readResults = yield* tx.run<{ content: unknown; edges: unknown }>(
+      readQuery,
+      readParams,
+    );
+
+    if (readResults.length === 0) {
+      return Option.none();
+    }
+
+    const { content, edges } = yield* Schema.decodeUnknown(
+      Schema.Struct({
+        content: Schema.NullishOr(Schema.String),
+        edges: Schema.Array(ContentHashEdge),
+      }),
+    )(readResults[0]).pipe(
+      Effect.mapError(toInvalidResult('Invalid edges', readQuery)),
+    );
+    return Option.some(computeContentHash(content ?? undefined, edges));
+  });
+
+/**
+ * Shortest INCLUDES path from any of the start versions to the target,
+ * walked one batched query per level
+ * A floating edge leads to every version of its node, since any of them may
+ * be the one it resolves to.
+ */
+const findInclusionPath = (
+  tx: TransactionContext,
+  startIds: ReadonlyArray<ContentNodeVersionId>,
+  targetId: ContentNodeVersionId,
+): Effect.Effect<Option.Option<ContentNodeVersionId[]>, Neo4jError, never> =>
+  Effect.gen(function* () {
+    const edgesQuery = cypher`
+      UNWIND $frontierIds as fromId
+      MATCH (:ContentNodeVersion {id: fromId})-[:INCLUDES]->(target)
+      OPTIONAL MATCH (target)<-[:VERSION_OF]-(version:ContentNodeVersion)
+      WITH fromId, CASE WHEN target:ContentNode THEN version.id ELSE target.id END as toId
+      WHERE toId IS NOT NULL
+      RETURN DISTINCT fromId, toId
+    `;
+    // Each reached version with the version it was first reached from
+    const reachedFrom = new Map<string, string | null>(
+      startIds.map((id) => [id, null]),
+    );
+    const pathTo = (id: string): ContentNodeVersionId[] => {
+      const path: string[] = [];
+      for (let at: string | null = id; at !== null;) {
+        path.unshift(at);
+        at = reachedFrom.get(at) ?? null;
+      }
+      return path.map((id) => Schema.decodeSync(ContentNodeVersionId)(id));
+    };
+
+    let frontier: string[] = [...startIds];
+    while (frontier.length > 0) {
+      if (frontier.includes(targetId)) {
+        return Option.some(pathTo(targetId));
+      }
+      const params = yield* queryParams({ frontierIds: frontier }).pipe(
+        Effect.mapError(toNeo4jError),
+      );
+      const edges = yield* tx.run<{ fromId: string; toId: string }>(
+        edgesQuery,
+        params,
+      );
+      frontier = [];
+      for (const { fromId, toId } of edges) {
+        if (!reachedFrom.has(toId)) {
+          reachedFrom.set(toId, fromId);
+          frontier.push(toId);
+        }
+      }
+    }
+    return Option.none();
+  });
+
+/**
+ * Find the cycle an INCLUDES edge from parent to child would close.
+ * Returns the version path parent -> child -> ... -> parent when the parent
+ * is already reachable from the child (or when both are the same version),
+ * through floating edges too.
+ */
+export const findInclusionCycle = (
+  tx: TransactionContext,
+  parentId: ContentNodeVersionId,
+  childId: ContentNodeVersionId,
+): Effect.Effect<Option.Option<ContentNodeVersionId[]>, Neo4jError, never> =>
+  findInclusionPath(tx, [childId], parentId).pipe(
+    Effect.map(Option.map((path) => [parentId, ...path])),
+  );
+
+/**
+ * Find the cycle a floating INCLUDES edge from parent to a ContentNode would
+ * close, checking every existing version of the node
+ */
+export const findFloatingInclusionCycle = (
+  tx: TransactionContext,
+  parentId: ContentNodeVersionId,
+  childNodeId: ContentNodeId,
+): Effect.Effect<Option.Option<ContentNodeVersionId[]>, Neo4jError, never> =>
+  Effect.gen(function* () {
+    const versionsQuery = cypher`
+      MATCH (:ContentNode {id: $childNodeId})<-[:VERSION_OF]-(child:ContentNodeVersion)
+      RETURN child.id as id
+    `;
+    const params = yield* queryParams({ childNodeId }).pipe(
+      Effect.mapError(toNeo4jError),
+    );
+    const versions = yield* tx.run<{ id: ContentNodeVersionId }>(
+      versionsQuery,
+      params,
+    );
+    const path = yield* findInclusionPath(
+      tx,
+      versions.map((v) => v.id),
+      parentId,
+    );
+    return Option.map(path, (path) => [parentId, ...path]);
   });
@@ -4,9 +4,12 @@ import {
   NotFoundError,
   PersistenceError,
   Neo4jError,
+  ContentCycleError,
+  ContentInUseError,
 } from '../../domain/types/errors';
 import { cypher, queryParams } from '../../domain/types/database';
 import {
+  ContentHashMatch,
   ContentNodeVersion,
   ContentNodeId,
   ContentNodeVersionId,
@@ -17,12 +20,26 @@ import {
 import {
   generateContentNodeVersion,
   verifyContentNodeExists,
+  findLatestContentNodeVersion,
   findPreviousContentNodeVersion,
   createVersionInNeo4j,
+  findInclusionCycle,
+  findFloatingInclusionCycle,
+  findVersionOfNode,
+  copyOutgoingIncludes,
+  copyEmbedding,
+  readContentHash,
+  findContentReferences,
+  ContentReferences,
 } from './ContentVersionHelpers';
+import { embedContent } from './ContentEmbeddings';
+import { compareConcatenateEdges } from './ContentProcessing';
+import { clearRenderCache } from '../render-cache';
 
 /**
  * Create parent relationships for a ContentNodeVersion
+ * Stops at the first relationship that would close a cycle and fails with
+ * ContentCycleError; nothing is written in that case.
  */
 const createParentRelationships = (
   neo4j: any,
@@ -31,16 +48,41 @@ const createParentRelationships = (
     versionId: ContentNodeVersionId;
     operation: EdgeOperation;
     key?: string;
+    order?: number;
+    separator?: string;
   }>,
-): Effect.Effect<void, PersistenceError, never> =>
+): Effect.Effect<void, PersistenceError | ContentCycleError, never> =>
   neo4j
     .runInTransaction((tx: TransactionContext) =>
       Effect.gen(function* () {
+        // Check every edge before writing any of them
         for (const parent of parents) {
+          const cycle = yield* findInclusionCycle(
+            tx,
+            parent.versionId,
+            version.id,
+          );
+          if (Option.isSome(cycle)) {
+            return cycle;
+          }
+        }
+
+        for (const parent of parents) {
+          // An unchanged push returns the existing version, which may
+          // already have the edge
+          const existingQuery = cypher`
+            MATCH (parent:ContentNodeVersion {id: $parentId})-[r:INCLUDES]->(child:ContentNodeVersion {id: $childId})
+            WHERE r.operation = $operation
+              AND (r.key = $key OR (r.key IS NULL AND $key IS NULL))
+              AND (r.order = $order OR (r.order IS NULL AND $order IS NULL))
+              AND (r.separator = $separator OR (r.separator IS NULL AND $separator IS NULL))
+            RETURN type(r) as type
+            LIMIT 1
+          `;
           const query = cypher`
             MATCH (parent:ContentNodeVersion {id: $parentId})
             MATCH (child:ContentNodeVersion {id: $childId})
-            CREATE (parent)-[:INCLUDES {operation: $operation, key: $key}]->(child)
+            CREATE (parent)-[:INCLUDES {operation: $operation, key: $key, order: $order, separator: $separator}]->(child)
           `;
 
           // Validate edge properties
@@ -48,6 +90,8 @@ const createParentRelationships = (
             {
               operation: parent.operation,
               key: parent.key,
+              order: parent.order,
+              separator: parent.separator,
             },
           ).pipe(
             Effect.mapError(
@@ -64,6 +108,8 @@ const createParentRelationships = (
             childId: version.id,
             operation: edgeProps.operation,
             key: edgeProps.key || null,
+            order: edgeProps.order ?? null,
+            separator: edgeProps.separator ?? null,
           }).pipe(
             Effect.mapError(
               (error) =>
@@ -73,12 +119,17 @@ const createParentRelationships = (
                 }),
             ),
           );
+          const existing = yield* tx.run(existingQuery, params);
+          if (existing.length > 0) {
+            continue;
+          }
           yield* tx.run(query, params);
         }
+        return Option.none<ContentNodeVersionId[]>();
       }),
     )
     .pipe(
-      Effect.mapError((error) => {
+      Effect.mapError((error: unknown) => {
         if (error instanceof Neo4jError) {
           return new PersistenceError({
             originalMessage: error.originalMessage,
@@ -91,10 +142,23 @@ const createParentRelationships = (
           operation: 'connect',
         });
       }),
+      Effect.flatMap(
+        (
+          cycle: Option.Option<ContentNodeVersionId[]>,
+        ): Effect.Effect<void, PersistenceError | ContentCycleError> =>
+          Option.isSome(cycle)
+            ? Effect.fail(new ContentCycleError({ path: cycle.value }))
+            : Effect.void,
+      ),
     );
 
 /**
  * Create a new ContentNodeVersion with optional parent relationships
+ * When the latest version was created with the same content hash (same text
+ * and no outgoing edges) it is returned instead and no version is created,
+ * unless allowDuplicate is set. Children linked to it since do not count. Parents are linked either way, except by an edge
+ * with the same properties that already exists.
+ * The content is embedded when an Embeddings service is provided.
  */
 export const createContentNodeVersion = (
   nodeId: ContentNodeId,
@@ -104,10 +168,13 @@ export const createContentNodeVersion = (
     versionId: ContentNodeVersionId;
     operation: EdgeOperation;
     key?: string;
+    order?: number;
+    separator?: string;
   }>,
+  options: { allowDuplicate?: boolean } = {},
 ): Effect.Effect<
   ContentNodeVersion,
-  NotFoundError | PersistenceError,
+  NotFoundError | PersistenceError | ContentCycleError,
   Neo4jService
 > =>
   Effect.gen(function* () {
@@ -122,20 +189,32 @@ export const createContentNodeVersion = (
 
     // Generate version with proper ID and timestamp
     const version = yield* generateContentNodeVersion(content, commitMessage);
+    const embedding = yield* embedContent(content);
 
     // Create version in Neo4j with proper relationships
-    yield* neo4j
+    const created = yield* neo4j
       .runInTransaction((tx) =>
         Effect.gen(function* () {
           yield* verifyContentNodeExists(tx, nodeId);
 
-          const previousVersionId = yield* findPreviousContentNodeVersion(
+          const latest = yield* findLatestContentNodeVersion(tx, nodeId);
+          if (
+            !options.allowDuplicate &&
+            Option.isSome(latest) &&
+            latest.value.contentHash === version.contentHash
+          ) {
+            return latest.value;
+          }
+
+          // Create version node with relationships
+          yield* createVersionInNeo4j(
             tx,
             nodeId,
+            version,
+            Option.map(latest, (v) => v.id),
+            embedding,
           );
-
-          // Create version node with relationships
-          yield* createVersionInNeo4j(tx, nodeId, version, previousVersionId);
+          return version;
         }),
       )
       .pipe(
@@ -159,14 +238,183 @@ export const createContentNodeVersion = (
         }),
       );
 
+    yield* Effect.annotateCurrentSpan({
+      deduplicated: created.id !== version.id,
+    });
+
     // Create parent relationships if provided
     if (parents && parents.length > 0) {
-      yield* createParentRelationships(neo4j, version, parents);
+      yield* createParentRelationships(neo4j, created, parents);
     }
 
-    return version;
+    yield* clearRenderCache;
+    return created;
   }).pipe(Effect.withSpan('ContentService.createContentNodeVersion'));
 
+/**
+ * Revert a ContentNode to an earlier version without rewriting history
+ * Creates a new latest version with the target's content and outgoing
+ * INCLUDES edges and embedding, chained after the current latest version
+ */
+export const revertContentNode = (
+  nodeId: ContentNodeId,
+  toVersionId: ContentNodeVersionId,
+  commitMessage: string,
+): Effect.Effect<
+  ContentNodeVersion,
+  NotFoundError | PersistenceError,
+  Neo4jService
+> =>
+  Effect.gen(function* () {
+    const neo4j = yield* Neo4jService;
+
+    yield* Effect.annotateCurrentSpan({ nodeId, toVersionId });
+
+    const reverted = yield* neo4j
+      .runInTransaction((tx) =>
+        Effect.gen(function* () {
+          yield* verifyContentNodeExists(tx, nodeId);
+
+          const target = yield* findVersionOfNode(tx, nodeId, toVersionId);
+          if (Option.isNone(target)) {
+            return Option.none<ContentNodeVersion>();
+          }
+
+          // Hashed with the edges it is created with, the target's
+          const contentHash = yield* readContentHash(tx, toVersionId);
+          const generated = yield* generateContentNodeVersion(
+            target.value.content,
+            commitMessage,
+          ).pipe(
+            Effect.mapError(
+              (error) =>
+                new Neo4jError({
+                  originalMessage: error.originalMessage,
+                  query: '',
+                }),
+            ),
+          );
+          const previousVersionId = yield* findPreviousContentNodeVersion(
+            tx,
+            nodeId,
+          );
+          const version = {
+            ...generated,
+            contentHash: Option.getOrElse(
+              contentHash,
+              () => generated.contentHash,
+            ),
+          };
+          yield* createVersionInNeo4j(tx, nodeId, version, previousVersionId);
+          yield* copyOutgoingIncludes(tx, toVersionId, version.id);
+          yield* copyEmbedding(tx, toVersionId, version.id);
+          return Option.some(version);
+        }),
+      )
+      .pipe(
+        Effect.mapError((error) => {
+          if (error.originalMessage.includes('not found')) {
+            return new NotFoundError({
+              entityType: 'content node',
+              id: nodeId,
+            });
+          }
+          return new PersistenceError({
+            originalMessage: String(error),
+            operation: 'create',
+          });
+        }),
+      );
+
+    if (Option.isNone(reverted)) {
+      return yield* Effect.fail(
+        new NotFoundError({ entityType: 'content node', id: toVersionId }),
+      );
+    }
+    yield* clearRenderCache;
+    return reverted.value;
+  }).pipe(Effect.withSpan('ContentService.revertContentNode'));
+
+/**
+ * Permanently delete a ContentNodeVersion and its outgoing edges
+ * The PREVIOUS_VERSION chain is relinked around it. Refused with
+ * ContentInUseError while another version includes it or a DataPoint used
+ * it; nothing is deleted in that case.
+ */
+export const deleteContentNodeVersion = (
+  versionId: ContentNodeVersionId,
+): Effect.Effect<
+  void,
+  NotFoundError | PersistenceError | ContentInUseError,
+  Neo4jService
+> =>
+  Effect.gen(function* () {
+    const neo4j = yield* Neo4jService;
+
+    yield* Effect.annotateCurrentSpan({ versionId });
+
+    const existsQuery = cypher`
+      MATCH (v:ContentNodeVersion {id: $versionId})
+      RETURN v.id as existingId
+    `;
+    const deleteQuery = cypher`
+      MATCH (v:ContentNodeVersion {id: $versionId})
+      OPTIONAL MATCH (next:ContentNodeVersion)-[:PREVIOUS_VERSION]->(v)
+      OPTIONAL MATCH (v)-[:PREVIOUS_VERSION]->(prev:ContentNodeVersion)
+      FOREACH (_ IN CASE WHEN next IS NULL OR prev IS NULL THEN [] ELSE [1] END |
+        CREATE (next)-[:PREVIOUS_VERSION]->(prev)
+      )
+      DETACH DELETE v
+    `;
+    const params = yield* queryParams({ versionId });
+
+    const references = yield* neo4j.runInTransaction((tx) =>
+      Effect.gen(function* () {
+        const found = yield* tx.run(existsQuery, params);
+        if (found.length === 0) {
+          return Option.none<ContentReferences>();
+        }
+        const references = yield* findContentReferences(tx, null, [versionId]);
+        if (
+          references.includedBy.length === 0 &&
+          references.dataPoints.length === 0
+        ) {
+          yield* tx.run(deleteQuery, params);
+        }
+        return Option.some(references);
+      }),
+    );
+
+    if (Option.isNone(references)) {
+      return yield* Effect.fail(
+        new NotFoundError({ entityType: 'content node', id: versionId }),
+      );
+    }
+    const { includedBy, dataPoints } = references.value;
+    if (includedBy.length > 0 || dataPoints.length > 0) {
+      return yield* Effect.fail(
+        new ContentInUseError({ id: versionId, includedBy, dataPoints }),
+      );
+    }
+    yield* clearRenderCache;
+  })
+    .pipe(
+      Effect.mapError((error) => {
+        if (
+          error instanceof PersistenceError ||
+          error instanceof NotFoundError ||
+          error instanceof ContentInUseError
+        ) {
+          return error;
+        }
+        return new PersistenceError({
+          originalMessage: String(error),
+          operation: 'delete',
+        });
+      }),
+    )
+    .pipe(Effect.withSpan('ContentService.deleteContentNodeVersion'));
+
 /**
  * Get the latest version of a ContentNode
  */
@@ -221,6 +469,38 @@ export const getLatestContentNodeVersion = (
     return Option.some(version);
   }).pipe(Effect.withSpan('ContentService.getLatestContentNodeVersion'));
 
+/**
+ * Find every version whose content hash matches, oldest first
+ * Hash text with computeContentHash to find identical content stored in
+ * different nodes.
+ */
+export const findVersionsByContentHash = (
+  contentHash: string,
+): Effect.Effect<readonly ContentHashMatch[], PersistenceError, Neo4jService> =>
+  Effect.gen(function* () {
+    const neo4j = yield* Neo4jService;
+    const query = cypher`
+      MATCH (v:ContentNodeVersion {contentHash: $contentHash})-[:VERSION_OF]->(p:ContentNode)
+      RETURN v as version, p.id as nodeId, p.name as nodeName
+      ORDER BY v.createdAt
+    `;
+    const params = yield* queryParams({ contentHash });
+    const results = yield* neo4j.runQuery<unknown>(query, params);
+    return yield* Schema.decodeUnknown(Schema.Array(ContentHashMatch))(results);
+  })
+    .pipe(
+      Effect.mapError((error) => {
+        if (error instanceof PersistenceError) {
+          return error;
+        }
+        return new PersistenceError({
+          originalMessage: String(error),
+          operation: 'read',
+        });
+      }),
+    )
+    .pipe(Effect.withSpan('ContentService.findVersionsByContentHash'));
+
 /**
  * Get children of a ContentNodeVersion
  */
@@ -268,12 +548,13 @@ export const getChildren = (
 
 /**
  * Type-safe link creation between ContentNodeVersions
+ * Fails with ContentCycleError if the child already includes the parent
  */
 export const linkNodes = (
   parentId: ContentNodeVersionId,
   childId: ContentNodeVersionId,
   props: IncludesEdgeProperties,
-): Effect.Effect<void, PersistenceError, Neo4jService> =>
+): Effect.Effect<void, PersistenceError | ContentCycleError, Neo4jService> =>
   Effect.gen(function* () {
     const neo4j = yield* Neo4jService;
 
@@ -285,7 +566,7 @@ export const linkNodes = (
     const query = cypher`
       MATCH (parent:ContentNodeVersion {id: $parentId})
       MATCH (child:ContentNodeVersion {id: $childId})
-      CREATE (parent)-[:INCLUDES {operation: $operation, key: $key}]->(child)
+      CREATE (parent)-[:INCLUDES {operation: $operation, key: $key, order: $order, separator: $separator}]->(child)
     `;
 
     const params = yield* queryParams({
@@ -293,13 +574,33 @@ export const linkNodes = (
       childId,
       operation: validProps.operation,
       key: validProps.key || null,
+      order: validProps.order ?? null,
+      separator: validProps.separator ?? null,
     });
 
-    yield* neo4j.runQuery(query, params);
+    // Check and create in one transaction so a concurrent link cannot
+    // slip a cycle in between
+    const cycle = yield* neo4j.runInTransaction((tx) =>
+      Effect.gen(function* () {
+        const cycle = yield* findInclusionCycle(tx, parentId, childId);
+        if (Option.isNone(cycle)) {
+          yield* tx.run(query, params);
+        }
+        return cycle;
+      }),
+    );
+
+    if (Option.isSome(cycle)) {
+      return yield* Effect.fail(new ContentCycleError({ path: cycle.value }));
+    }
+    yield* clearRenderCache;
   })
     .pipe(
       Effect.mapError((error) => {
-        if (error instanceof PersistenceError) {
+        if (
+          error instanceof PersistenceError ||
+          error instanceof ContentCycleError
+        ) {
           return error;
         }
         return new PersistenceError({
@@ -309,3 +610,175 @@ export const linkNodes = (
       }),
     )
     .pipe(Effect.withSpan('ContentService.linkNodes'));
+
+/**
+ * Link a version to a ContentNode with a floating reference
+ * Rendering resolves the edge to the node's latest version (or the latest as
+ * of ProcessingOptions.resolveAsOf) instead of a fixed version
+ */
+export const linkFloatingNode = (
+  parentId: ContentNodeVersionId,
+  childNodeId: ContentNodeId,
+  props: IncludesEdgeProperties,
+): Effect.Effect<void, PersistenceError | ContentCycleError, Neo4jService> =>
+  Effect.gen(function* () {
+    const neo4j = yield* Neo4jService;
+
+    // Validate properties
+    const validProps = yield* Schema.decodeUnknown(IncludesEdgeProperties)(
+      props,
+    );
+
+    const query = cypher`
+      MATCH (parent:ContentNodeVersion {id: $parentId})
+      MATCH (child:ContentNode {id: $childNodeId})
+      CREATE (parent)-[:INCLUDES {operation: $operation, key: $key, order: $order, separator: $separator}]->(child)
+    `;
+
+    const params = yield* queryParams({
+      parentId,
+      childNodeId,
+      operation: validProps.operation,
+      key: validProps.key || null,
+      order: validProps.order ?? null,
+      separator: validProps.separator ?? null,
+    });
+
+    const cycle = yield* neo4j.runInTransaction((tx) =>
+      Effect.gen(function* () {
+        const cycle = yield* findFloatingInclusionCycle(
+          tx,
+          parentId,
+          childNodeId,
+        );
+        if (Option.isNone(cycle)) {
+          yield* tx.run(query, params);
+        }
+        return cycle;
+      }),
+    );
+
+    if (Option.isSome(cycle)) {
+      return yield* Effect.fail(new ContentCycleError({ path: cycle.value }));
+    }
+    yield* clearRenderCache;
+  })
+    .pipe(
+      Effect.mapError((error) => {
+        if (
+          error instanceof PersistenceError ||
+          error instanceof ContentCycleError
+        ) {
+          return error;
+        }
+        return new PersistenceError({
+          originalMessage: String(error),
+          operation: 'connect',
+        });
+      }),
+    )
+    .pipe(Effect.withSpan('ContentService.linkFloatingNode'));
+
+/**
+ * Set the concatenate order of a parent's children to the given sequence
+ * Children are identified by version id, or by node id for floating edges.
+ * Concatenated children left out are numbered after the listed ones, in the
+ * order they rendered in before. Fails with NotFoundError if an id is not a
+ * child of the parent, in which case nothing is changed.
+ */
+export const reorderChildren = (
+  parentId: ContentNodeVersionId,
+  childIds: ReadonlyArray<ContentNodeVersionId | ContentNodeId>,
+): Effect.Effect<void, PersistenceError | NotFoundError, Neo4jService> =>
+  Effect.gen(function* () {
+    const neo4j = yield* Neo4jService;
+
+    yield* Effect.annotateCurrentSpan({
+      parentId,
+      childCount: childIds.length,
+    });
+
+    const childrenQuery = cypher`
+      MATCH (parent:ContentNodeVersion {id: $parentId})-[r:INCLUDES]->(child)
+      OPTIONAL MATCH (child)-[:VERSION_OF]->(owner:ContentNode)
+      RETURN child.id as childId, r.operation as operation, r.order as order,
+        coalesce(owner.name, child.name) as nodeName
+    `;
+    const reorderQuery = cypher`
+      UNWIND $children as entry
+      MATCH (parent:ContentNodeVersion {id: $parentId})-[r:INCLUDES]->(child {id: entry.id})
+      SET r.order = entry.order
+    `;
+
+    const childrenParams = yield* queryParams({ parentId });
+
+    const missing = yield* neo4j.runInTransaction((tx) =>
+      Effect.gen(function* () {
+        const existing = yield* tx.run<{
+          childId: string;
+          operation: EdgeOperation;
+          order: number | null;
+          nodeName: string;
+        }>(childrenQuery, childrenParams);
+        const known = new Set(existing.map((row) => row.childId));
+        const missing = Option.fromNullable(
+          childIds.find((id) => !known.has(id)),
+        );
+        if (Option.isSome(missing)) {
+          return missing;
+        }
+
+        // Omitted children keep their render order, after the listed ones
+        const listed = new Set<string>(childIds);
+        const omitted = existing
+          .filter(
+            (row) =>
+              row.operation === 'concatenate' && !listed.has(row.childId),
+          )
+          .map((row) => ({
+            childId: row.childId,
+            nodeName: row.nodeName,
+            edge: { operation: row.operation, order: row.order ?? undefined },
+          }))
+          .sort(compareConcatenateEdges);
+        const reorderParams = yield* queryParams({
+          parentId,
+          children: [...childIds, ...omitted.map((row) => row.childId)].map(
+            (id, order) => ({ id, order }),
+          ),
+        }).pipe(
+          Effect.mapError(
+            (error) =>
+              new Neo4jError({
+                originalMessage: error.message,
+                query: '',
+              }),
+          ),
+        );
+        yield* tx.run(reorderQuery, reorderParams);
+        return missing;
+      }),
+    );
+
+    if (Option.isSome(missing)) {
+      return yield* Effect.fail(
+        new NotFoundError({ entityType: 'content node', id: missing.value }),
+      );
+    }
+    yield* clearRenderCache;
+  })
+    .pipe(
+      Effect.mapError((error) => {
+        if (
+          error instanceof PersistenceError ||
+          error instanceof NotFoundError
+        ) {
+          return error;
+        }
+        return new PersistenceError({
+          originalMessage: String(error),
+          operation: 'update',
+        });
+      }),
+    )
+    .pipe(Effect.withSpan('ContentService.reorderChildren'));
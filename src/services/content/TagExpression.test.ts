@@ -0,0 +1,144 @@
+import { describe, it, expect } from '@effect/vitest';
+import { Either, Option, Schema } from 'effect';
+import {
+  compileTagExpression,
+  evaluateTagExpression,
+  parseTagExpression,
+  slotTagExpression,
+} from './TagExpression';
+import { TagExpressionParseError } from '../../domain/types/errors';
+import { TagExpression } from '../../domain/types/testCase';
+import { Slug } from '../../domain/types/branded';
+
+const parse = (source: string): TagExpression => {
+  const expression = parseTagExpression(source);
+  if (Either.isLeft(expression)) {
+    throw new Error(expression.left.reason);
+  }
+  return expression.right;
+};
+
+const parseIssue = (source: string) => {
+  const expression = parseTagExpression(source);
+  return Either.isLeft(expression) ? expression.left : undefined;
+};
+
+const matches = (source: string, tags: string[]) =>
+  evaluateTagExpression(parse(source), (tag) => tags.includes(tag));
+
+describe('TagExpression', () => {
+  describe('parseTagExpression', () => {
+    it('should bind NOT tighter than AND and AND tighter than OR', () => {
+      expect(parse('a OR b AND NOT c')).toEqual({
+        _tag: 'Or',
+        operands: [
+          { _tag: 'Tag', name: 'a' },
+          {
+            _tag: 'And',
+            operands: [
+              { _tag: 'Tag', name: 'b' },
+              { _tag: 'Not', operand: { _tag: 'Tag', name: 'c' } },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should group with parentheses and ignore keyword case', () => {
+      expect(parse('(a or b) and not (c)')).toEqual({
+        _tag: 'And',
+        operands: [
+          {
+            _tag: 'Or',
+            operands: [
+              { _tag: 'Tag', name: 'a' },
+              { _tag: 'Tag', name: 'b' },
+            ],
+          },
+          { _tag: 'Not', operand: { _tag: 'Tag', name: 'c' } },
+        ],
+      });
+    });
+
+    it('should report syntax errors with their offset', () => {
+      const issue = parseIssue('formal AND');
+      expect(issue).toBeInstanceOf(TagExpressionParseError);
+      expect(issue).toMatchObject({
+        expression: 'formal AND',
+        position: 10,
+        reason: 'Unexpected end of expression',
+      });
+      expect(parseIssue('(a OR b')?.reason).toBe("Missing ')'");
+      expect(parseIssue('a b')).toMatchObject({
+        position: 2,
+        reason: "Unexpected 'b'",
+      });
+      expect(parseIssue('OR a')?.reason).toBe("Unexpected 'OR'");
+      expect(parseIssue('Formal')?.reason).toBe("Invalid tag name 'Formal'");
+      expect(parseIssue('')?.reason).toBe('Unexpected end of expression');
+    });
+  });
+
+  describe('evaluateTagExpression', () => {
+    it('should evaluate against a node tags', () => {
+      const source =
+        '((persona AND formal) OR legacy-formal) AND NOT deprecated';
+      expect(matches(source, ['persona', 'formal'])).toBe(true);
+      expect(matches(source, ['legacy-formal'])).toBe(true);
+      expect(matches(source, ['persona'])).toBe(false);
+      expect(matches(source, ['legacy-formal', 'deprecated'])).toBe(false);
+    });
+  });
+
+  describe('slotTagExpression', () => {
+    it('should AND the tags shorthand with the expression', () => {
+      const tagExpression = parse('a OR b');
+      expect(
+        slotTagExpression({
+          role: 'system',
+          tags: [Schema.decodeSync(Slug)('c')],
+          tagExpression,
+          sequence: 0,
+        }),
+      ).toEqual(
+        Option.some({
+          _tag: 'And',
+          operands: [{ _tag: 'Tag', name: 'c' }, tagExpression],
+        }),
+      );
+      expect(slotTagExpression({ role: 'system', sequence: 0 })).toEqual(
+        Option.none(),
+      );
+    });
+  });
+
+  describe('compileTagExpression', () => {
+    it('should pass every tag name as a parameter', () => {
+      expect(compileTagExpression(parse('a AND NOT (b OR a)'))).toEqual({
+        clause:
+          '(EXISTS { MATCH (n)-[:HAS_TAG]->(:Tag {name: $tagExpr0}) } AND NOT (EXISTS { MATCH (n)-[:HAS_TAG]->(:Tag {name: $tagExpr1}) } OR EXISTS { MATCH (n)-[:HAS_TAG]->(:Tag {name: $tagExpr2}) }))',
+        params: { tagExpr0: 'a', tagExpr1: 'b', tagExpr2: 'a' },
+      });
+    });
+
+    it('should follow CHILD_OF links when matching descendants', () => {
+      expect(
+        compileTagExpression(parse('tone'), {
+          nodeVariable: 'owner',
+          matchDescendants: true,
+        }).clause,
+      ).toBe(
+        'EXISTS { MATCH (owner)-[:HAS_TAG]->(:Tag)-[:CHILD_OF*0..]->(:Tag {name: $tagExpr0}) }',
+      );
+    });
+
+    it('should compile empty groups to constants', () => {
+      expect(
+        compileTagExpression({
+          _tag: 'Not',
+          operand: { _tag: 'Or', operands: [] },
+        }).clause,
+      ).toBe('NOT false');
+    });
+  });
+});
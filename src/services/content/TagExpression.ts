@@ -0,0 +1,192 @@
+import { Either, Option, Schema } from 'effect';
+import { TagExpressionParseError } from '../../domain/types/errors';
+import {
+  MessageSlot,
+  SlotParameterReference,
+  TagExpression,
+  TestCaseTagName,
+} from '../../domain/types/testCase';
+
+/**
+ * Tag expression language for message slots
+ *
+ * - `formal` selects content tagged formal; `{{persona}}` the tag named by
+ *   the slot's persona parameter
+ * - `NOT a`, `a AND b` and `a OR b`, binding in that order
+ * - parentheses group; keywords are case-insensitive
+ *
+ * e.g. `((persona AND formal) OR legacy-formal) AND NOT deprecated`
+ */
+
+type Token = { readonly text: string; readonly position: number };
+
+const TOKEN = /\(|\)|[^\s()]+/g;
+
+const isKeyword = (token: Token | undefined, keyword: string) =>
+  token?.text.toUpperCase() === keyword;
+
+/**
+ * Parse the text form of a tag expression
+ */
+export const parseTagExpression = (
+  source: string,
+): Either.Either<TagExpression, TagExpressionParseError> => {
+  const tokens: Token[] = [...source.matchAll(TOKEN)].map((match) => ({
+    text: match[0],
+    position: match.index,
+  }));
+  let i = 0;
+
+  const fail = (position: number, reason: string) =>
+    Either.left(
+      new TagExpressionParseError({ expression: source, position, reason }),
+    );
+  const unexpected = (token: Token | undefined) =>
+    token
+      ? fail(token.position, `Unexpected '${token.text}'`)
+      : fail(source.length, 'Unexpected end of expression');
+
+  const parseUnary = (): Either.Either<
+    TagExpression,
+    TagExpressionParseError
+  > =>
+    Either.gen(function* () {
+      const token = tokens[i];
+      if (!token || token.text === ')') {
+        return yield* unexpected(token);
+      }
+      i++;
+      if (isKeyword(token, 'NOT')) {
+        return { _tag: 'Not', operand: yield* parseUnary() } as const;
+      }
+      if (token.text === '(') {
+        const inner = yield* parseOr();
+        if (tokens[i]?.text !== ')') {
+          return yield* tokens[i]
+            ? unexpected(tokens[i])
+            : fail(source.length, "Missing ')'");
+        }
+        i++;
+        return inner;
+      }
+      if (isKeyword(token, 'AND') || isKeyword(token, 'OR')) {
+        return yield* unexpected(token);
+      }
+      const name = Schema.decodeUnknownOption(
+        Schema.Union(TestCaseTagName, SlotParameterReference),
+      )(token.text);
+      if (Option.isNone(name)) {
+        return yield* fail(token.position, `Invalid tag name '${token.text}'`);
+      }
+      return { _tag: 'Tag', name: name.value } as const;
+    });
+
+  const parseAnd = (): Either.Either<TagExpression, TagExpressionParseError> =>
+    Either.gen(function* () {
+      const operands = [yield* parseUnary()];
+      while (isKeyword(tokens[i], 'AND')) {
+        i++;
+        operands.push(yield* parseUnary());
+      }
+      return operands.length === 1
+        ? operands[0]
+        : ({ _tag: 'And', operands } as const);
+    });
+
+  const parseOr = (): Either.Either<TagExpression, TagExpressionParseError> =>
+    Either.gen(function* () {
+      const operands = [yield* parseAnd()];
+      while (isKeyword(tokens[i], 'OR')) {
+        i++;
+        operands.push(yield* parseAnd());
+      }
+      return operands.length === 1
+        ? operands[0]
+        : ({ _tag: 'Or', operands } as const);
+    });
+
+  return Either.gen(function* () {
+    const expression = yield* parseOr();
+    if (i < tokens.length) {
+      return yield* unexpected(tokens[i]);
+    }
+    return expression;
+  });
+};
+
+/**
+ * The tag expression a slot selects by: its tags ANDed with its
+ * tagExpression, or none when it has neither
+ */
+export const slotTagExpression = (
+  slot: MessageSlot,
+): Option.Option<TagExpression> => {
+  const operands: TagExpression[] = [
+    ...(slot.tags ?? []).map((name) => ({ _tag: 'Tag', name }) as const),
+    ...(slot.tagExpression ? [slot.tagExpression] : []),
+  ];
+  if (operands.length === 0) {
+    return Option.none();
+  }
+  return Option.some(
+    operands.length === 1 ? operands[0] : { _tag: 'And', operands },
+  );
+};
+
+/**
+ * Whether a node with the given tags satisfies an expression
+ */
+export const evaluateTagExpression = (
+  expression: TagExpression,
+  hasTag: (name: string) => boolean,
+): boolean => {
+  switch (expression._tag) {
+    case 'Tag':
+      return hasTag(expression.name);
+    case 'Not':
+      return !evaluateTagExpression(expression.operand, hasTag);
+    case 'And':
+      return expression.operands.every((e) => evaluateTagExpression(e, hasTag));
+    case 'Or':
+      return expression.operands.some((e) => evaluateTagExpression(e, hasTag));
+  }
+};
+
+/**
+ * Cypher condition on a content node for a tag expression, with its
+ * parameters; tag names are always passed as parameters
+ * With matchDescendants a tag also matches through the CHILD_OF taxonomy.
+ */
+export const compileTagExpression = (
+  expression: TagExpression,
+  options: { nodeVariable?: string; matchDescendants?: boolean } = {},
+): { clause: string; params: Record<string, string> } => {
+  const node = options.nodeVariable ?? 'n';
+  const params: Record<string, string> = {};
+
+  const compile = (e: TagExpression): string => {
+    switch (e._tag) {
+      case 'Tag': {
+        const param = `tagExpr${Object.keys(params).length}`;
+        params[param] = e.name;
+        return options.matchDescendants
+          ? `EXISTS { MATCH (${node})-[:HAS_TAG]->(:Tag)-[:CHILD_OF*0..]->(:Tag {name: $${param}}) }`
+          : `EXISTS { MATCH (${node})-[:HAS_TAG]->(:Tag {name: $${param}}) }`;
+      }
+      case 'Not':
+        return `NOT ${compile(e.operand)}`;
+      case 'And':
+      case 'Or': {
+        if (e.operands.length === 0) {
+          return e._tag === 'And' ? 'true' : 'false';
+        }
+        const operands = e.operands.map(compile);
+        return operands.length === 1
+          ? operands[0]
+          : `(${operands.join(e._tag === 'And' ? ' AND ' : ' OR ')})`;
+      }
+    }
+  };
+
+  return { clause: compile(expression), params };
+};
@@ -1,9 +1,15 @@
 import { describe, it, expect } from '@effect/vitest';
-import { Effect, Schema, HashMap, Chunk } from 'effect';
+import { Effect, Either, Schema, HashMap, Chunk, Layer } from 'effect';
 import * as ContentService from './index';
+import { Neo4jService } from '../neo4j';
 import { Slug, ContentNodeId } from '../../domain/types/branded';
 import { InsertKey, InsertValue } from '../../domain/types/contentNode';
-import { TestCase, LLMModel } from '../../domain/types/testCase';
+import {
+  Neo4jError,
+  ParameterValidationError,
+  SlotParameterError,
+} from '../../domain/types/errors';
+import { TestCase, LLMModel, MessageSlot } from '../../domain/types/testCase';
 import {
   ContentTestWithData,
   ContentTestWithEmptyData,
@@ -312,5 +318,699 @@ describe('TestCaseBuilder', () => {
         }
       }).pipe(Effect.provide(ContentTestWithEmptyData())),
     );
+
+    it.effect('should load the content of each slot once', () => {
+      const queries: string[] = [];
+      return Effect.gen(function* () {
+        const testCase: TestCase = {
+          id: Schema.decodeSync(Schema.String.pipe(Schema.brand('TestCaseId')))(
+            '423e4567-e89b-12d3-a456-426614174002',
+          ),
+          name: 'Two slots',
+          description: 'Declarations and render share a load',
+          createdAt: Schema.decodeSync(Schema.DateTimeUtc)(
+            '2024-01-01T00:00:00Z',
+          ),
+          llmModel: Schema.decodeSync(LLMModel)('gpt-4'),
+          messageSlots: [
+            { role: 'system', tags: ['instruction'], sequence: 0 },
+            { role: 'user', tags: ['greeting'], sequence: 1 },
+          ],
+          parameters: HashMap.empty(),
+        };
+
+        yield* ContentService.buildConversationFromTestCase(testCase);
+
+        const rootLoads = queries.filter((q) =>
+          q.includes('owner.parameters as parameters'),
+        );
+        expect(rootLoads).toHaveLength(2);
+      }).pipe(Effect.provide(ContentTestWithData(undefined, queries)));
+    });
+  });
+
+  describe('findContentForSlot', () => {
+    it.effect('should match descendant tags only when asked', () =>
+      Effect.gen(function* () {
+        const instructions = yield* ContentService.findContentForSlot(
+          { role: 'system', tags: ['instruction'], sequence: 0 },
+          HashMap.empty(),
+        );
+        const byParent = yield* ContentService.findContentForSlot(
+          { role: 'system', tags: ['guidance'], sequence: 0 },
+          HashMap.empty(),
+        );
+        const byDescendants = yield* ContentService.findContentForSlot(
+          {
+            role: 'system',
+            tags: ['guidance'],
+            matchDescendantTags: true,
+            sequence: 0,
+          },
+          HashMap.empty(),
+        );
+
+        expect(instructions.length).toBeGreaterThan(0);
+        expect(byParent).toEqual([]);
+        expect(byDescendants).toEqual(instructions);
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    it.effect('should select by a tag expression', () =>
+      Effect.gen(function* () {
+        const tagExpression = Either.getOrThrow(
+          ContentService.parseTagExpression(
+            '(instruction AND NOT behavior) OR parameter',
+          ),
+        );
+
+        const selected = yield* ContentService.findContentForSlot(
+          { role: 'user', tagExpression, sequence: 0 },
+          HashMap.empty(),
+        );
+        expect(selected.map((v) => v.nodeName)).toEqual([
+          'be-concise',
+          'user-name',
+        ]);
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    it.effect('should apply node filters with a tag expression', () =>
+      Effect.gen(function* () {
+        const tagExpression = Either.getOrThrow(
+          ContentService.parseTagExpression(
+            '(instruction AND NOT behavior) OR parameter',
+          ),
+        );
+        const names = (slot: Partial<MessageSlot>) =>
+          ContentService.findContentForSlot(
+            { role: 'user', tagExpression, sequence: 0, ...slot },
+            HashMap.empty(),
+          ).pipe(Effect.map((selected) => selected.map((v) => v.nodeName)));
+
+        expect(
+          yield* names({
+            includeNodes: [Schema.decodeSync(Slug)('user-name')],
+          }),
+        ).toEqual(['user-name']);
+        expect(
+          yield* names({
+            excludeNodes: [Schema.decodeSync(Slug)('user-name')],
+          }),
+        ).toEqual(['be-concise']);
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    it.effect('should query with the compiled tag condition', () => {
+      const queries: Array<{ query: string; params: unknown }> = [];
+      const run = <T>(query: string, params: unknown = {}) => {
+        queries.push({ query, params });
+        return Effect.succeed([] as T[]);
+      };
+      const capturing = Layer.succeed(
+        Neo4jService,
+        Neo4jService.of({
+          runQuery: run,
+          runInTransaction: (operations) => operations({ run }),
+          runBatch: (batch) =>
+            Effect.forEach(batch, ({ query, params }) => run(query, params)),
+          withSession: () =>
+            Effect.fail(
+              new Neo4jError({
+                query: '',
+                originalMessage: 'withSession not implemented in test layer',
+              }),
+            ),
+        }),
+      );
+      return Effect.gen(function* () {
+        yield* ContentService.findContentForSlot(
+          {
+            role: 'user',
+            tags: [Schema.decodeSync(Slug)('instruction')],
+            tagExpression: Either.getOrThrow(
+              ContentService.parseTagExpression('NOT (behavior OR parameter)'),
+            ),
+            excludeNodes: [Schema.decodeSync(Slug)('be-concise')],
+            matchDescendantTags: true,
+            sequence: 0,
+          },
+          HashMap.empty(),
+        );
+
+        const tagged = (param: string) =>
+          `EXISTS { MATCH (n)-[:HAS_TAG]->(:Tag)-[:CHILD_OF*0..]->(:Tag {name: $${param}}) }`;
+        const slotQuery = queries.find(({ query }) =>
+          query.includes('v as version'),
+        );
+        expect(slotQuery?.query).toContain(
+          `WHERE n.archivedAt IS NULL AND (${tagged('tagExpr0')} AND NOT (${tagged('tagExpr1')} OR ${tagged('tagExpr2')})) AND NOT n.id IN $excludeIds AND NOT n.name IN $excludeNames`,
+        );
+        expect(slotQuery?.params).toEqual({
+          tagExpr0: 'instruction',
+          tagExpr1: 'behavior',
+          tagExpr2: 'parameter',
+          excludeIds: [],
+          excludeNames: ['be-concise'],
+          includeIds: [],
+          includeNames: [],
+        });
+      }).pipe(Effect.provide(capturing));
+    });
+  });
+
+  describe('buildTracedConversationFromTestCase', () => {
+    it.effect('should attribute each span of a message to its version', () =>
+      Effect.gen(function* () {
+        const testCase: TestCase = {
+          id: Schema.decodeSync(Schema.String.pipe(Schema.brand('TestCaseId')))(
+            '423e4567-e89b-12d3-a456-426614174001',
+          ),
+          name: 'Traced greeting',
+          description: 'Greeting with provenance',
+          createdAt: Schema.decodeSync(Schema.DateTimeUtc)(
+            '2024-01-01T00:00:00Z',
+          ),
+          llmModel: Schema.decodeSync(LLMModel)('gpt-4'),
+          messageSlots: [{ role: 'user', tags: ['greeting'], sequence: 0 }],
+          parameters: HashMap.empty(),
+        };
+
+        const conversation =
+          yield* ContentService.buildTracedConversationFromTestCase(testCase);
+        const [message] = Chunk.toReadonlyArray(conversation);
+
+        expect(message.content).toBe('Hello Alice, welcome to our service!');
+        expect(
+          message.segments.map(({ start, end, nodeName, operation, key }) => ({
+            text: message.content.slice(start, end),
+            nodeName,
+            operation,
+            key,
+          })),
+        ).toEqual([
+          {
+            text: 'Hello ',
+            nodeName: 'greeting-template',
+            operation: 'root',
+            key: undefined,
+          },
+          {
+            text: 'Alice',
+            nodeName: 'user-name',
+            operation: 'insert',
+            key: 'name',
+          },
+          {
+            text: ', welcome to our service!',
+            nodeName: 'greeting-template',
+            operation: 'root',
+            key: undefined,
+          },
+        ]);
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+  });
+
+  describe('slot parameters', () => {
+    const param = (key: string, value: string) =>
+      [
+        Schema.decodeSync(InsertKey)(key),
+        Schema.decodeSync(InsertValue)(value),
+      ] as const;
+    const testCaseWith = (
+      messageSlots: TestCase['messageSlots'],
+      parameters: TestCase['parameters'] = HashMap.empty(),
+    ): TestCase => ({
+      id: Schema.decodeSync(Schema.String.pipe(Schema.brand('TestCaseId')))(
+        '623e4567-e89b-12d3-a456-426614174005',
+      ),
+      name: 'Slot parameters',
+      description: 'Per-slot parameters and separators',
+      createdAt: Schema.decodeSync(Schema.DateTimeUtc)('2024-01-01T00:00:00Z'),
+      llmModel: Schema.decodeSync(LLMModel)('gpt-4'),
+      messageSlots,
+      parameters,
+    });
+
+    it.effect('should let slot parameters choose the tags to select', () =>
+      Effect.gen(function* () {
+        const selected = yield* ContentService.findContentForSlot(
+          {
+            role: 'system',
+            tags: ['{{kind}}'],
+            parameters: HashMap.make(param('kind', 'instruction')),
+            sequence: 0,
+          },
+          HashMap.make(param('kind', 'greeting')),
+        );
+        expect(selected.map((v) => v.nodeName)).toEqual([
+          'be-helpful',
+          'be-concise',
+        ]);
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    it('should resolve references in expressions and node lists', () => {
+      const resolved = ContentService.resolveSlotParameters(
+        {
+          role: 'user',
+          tagExpression: Either.getOrThrow(
+            ContentService.parseTagExpression('{{persona}} AND NOT legacy'),
+          ),
+          excludeNodes: ['{{skip}}', 'be-concise'],
+          sequence: 1,
+        },
+        HashMap.make(param('persona', 'formal'), param('skip', 'be-helpful')),
+      );
+      expect(Either.getOrThrow(resolved)).toMatchObject({
+        tagExpression: {
+          _tag: 'And',
+          operands: [
+            { _tag: 'Tag', name: 'formal' },
+            { _tag: 'Not', operand: { _tag: 'Tag', name: 'legacy' } },
+          ],
+        },
+        excludeNodes: ['be-helpful', 'be-concise'],
+      });
+    });
+
+    it.effect('should fail for missing or invalid parameter values', () =>
+      Effect.gen(function* () {
+        const missing = yield* Effect.flip(
+          ContentService.findContentForSlot(
+            { role: 'system', tags: ['{{kind}}'], sequence: 2 },
+            HashMap.empty(),
+          ),
+        );
+        expect(missing).toBeInstanceOf(SlotParameterError);
+        expect(missing).toMatchObject({
+          sequence: 2,
+          reference: '{{kind}}',
+          reason: 'no such parameter',
+        });
+
+        const invalid = yield* Effect.flip(
+          ContentService.findContentForSlot(
+            { role: 'system', includeNodes: ['{{node}}'], sequence: 0 },
+            HashMap.make(param('node', 'Be Concise')),
+          ),
+        );
+        expect(invalid).toMatchObject({
+          reason: '"Be Concise" is not a valid content node id or name',
+        });
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    it.effect(
+      'should render with slot parameters and join by the separator',
+      () =>
+        Effect.gen(function* () {
+          const node = yield* ContentService.createContentNode(
+            Schema.decodeSync(Slug)('topic-line'),
+            'Names the topic',
+          );
+          yield* ContentService.createContentNodeVersion(
+            node.id,
+            'About {{topic}}',
+            'Topic',
+          );
+          yield* ContentService.tagContent(node.id, [
+            Schema.decodeSync(Slug)('topic'),
+          ]);
+
+          const conversation =
+            yield* ContentService.buildConversationFromTestCase(
+              testCaseWith(
+                [
+                  {
+                    role: 'system',
+                    tags: ['instruction'],
+                    separator: ' | ',
+                    sequence: 0,
+                  },
+                  { role: 'user', tags: ['topic'], sequence: 1 },
+                  {
+                    role: 'user',
+                    tags: ['topic'],
+                    parameters: HashMap.make(param('topic', 'Effect')),
+                    sequence: 2,
+                  },
+                ],
+                HashMap.make(param('topic', 'TypeScript')),
+              ),
+            );
+          expect(
+            Chunk.toReadonlyArray(conversation).map((m) => m.content),
+          ).toEqual([
+            'Be helpful and supportive | Be concise and direct in your responses',
+            'About TypeScript',
+            'About Effect',
+          ]);
+        }).pipe(Effect.provide(ContentTestWithData())),
+    );
+  });
+
+  describe('typed parameters', () => {
+    const testCaseWith = (
+      parameters: Record<string, InsertValue>,
+    ): TestCase => ({
+      id: Schema.decodeSync(Schema.String.pipe(Schema.brand('TestCaseId')))(
+        '723e4567-e89b-12d3-a456-426614174006',
+      ),
+      name: 'Typed parameters',
+      description: 'Numbers and lists checked against declarations',
+      createdAt: Schema.decodeSync(Schema.DateTimeUtc)('2024-01-01T00:00:00Z'),
+      llmModel: Schema.decodeSync(LLMModel)('gpt-4'),
+      messageSlots: [{ role: 'system', tags: ['summary'], sequence: 0 }],
+      parameters: HashMap.fromIterable(
+        Object.entries(parameters).map(([key, value]) => [
+          Schema.decodeSync(InsertKey)(key),
+          value,
+        ]),
+      ),
+    });
+    const withSummaryNode = Effect.gen(function* () {
+      const node = yield* ContentService.createContentNode(
+        Schema.decodeSync(Slug)('summary-rules'),
+        'How to summarize',
+      );
+      const version = yield* ContentService.createContentNodeVersion(
+        node.id,
+        'Summarize {{topic}} in {{length}} sentences: {{#each points}}[{{this}}]{{/each}}',
+        'Summary rules',
+      );
+      yield* ContentService.tagContent(node.id, [
+        Schema.decodeSync(Slug)('summary'),
+      ]);
+      yield* ContentService.setContentParameters(node.name, [
+        {
+          name: Schema.decodeSync(InsertKey)('topic'),
+          type: 'string',
+          required: true,
+        },
+        {
+          name: Schema.decodeSync(InsertKey)('length'),
+          type: 'number',
+          default: 3,
+        },
+        { name: Schema.decodeSync(InsertKey)('points'), type: 'list' },
+      ]);
+      return version;
+    });
+
+    it.effect('should render numbers and lists and fill in defaults', () =>
+      Effect.gen(function* () {
+        yield* withSummaryNode;
+
+        const conversation =
+          yield* ContentService.buildConversationFromTestCase(
+            testCaseWith({ topic: 'Effect', points: ['errors', 'layers'] }),
+          );
+        expect(Chunk.toReadonlyArray(conversation)[0].content).toBe(
+          'Summarize Effect in 3 sentences: [errors][layers]',
+        );
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    it.effect('should fail for wrong types and missing required values', () =>
+      Effect.gen(function* () {
+        yield* withSummaryNode;
+
+        const error = yield* Effect.flip(
+          ContentService.buildConversationFromTestCase(
+            testCaseWith({ length: '5', points: 'errors' }),
+          ),
+        );
+        expect(error).toBeInstanceOf(ParameterValidationError);
+        expect(error.message).toBe(
+          'Invalid parameters for summary-rules: topic is required; length must be a number, not a string; points must be a list, not a string',
+        );
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    it.effect('should check declarations on included content', () =>
+      Effect.gen(function* () {
+        const summary = yield* withSummaryNode;
+        const tone = yield* ContentService.createContentNode(
+          Schema.decodeSync(Slug)('tone-snippet'),
+          'Shared tone line',
+        );
+        yield* ContentService.createContentNodeVersion(
+          tone.id,
+          'Tone: {{tone}}',
+          'Tone',
+          [{ versionId: summary.id, operation: 'concatenate' }],
+        );
+        yield* ContentService.setContentParameters(tone.name, [
+          {
+            name: Schema.decodeSync(InsertKey)('tone'),
+            type: 'string',
+            default: 'neutral',
+          },
+        ]);
+
+        const conversation =
+          yield* ContentService.buildConversationFromTestCase(
+            testCaseWith({ topic: 'Effect', points: [] }),
+          );
+        expect(Chunk.toReadonlyArray(conversation)[0].content).toBe(
+          'Summarize Effect in 3 sentences: \nTone: neutral',
+        );
+
+        const error = yield* Effect.flip(
+          ContentService.buildConversationFromTestCase(
+            testCaseWith({ topic: 'Effect', tone: ['calm'] }),
+          ),
+        );
+        expect(error).toMatchObject({
+          nodeName: 'tone-snippet',
+          issues: [
+            { parameter: 'tone', reason: 'must be a string, not a list' },
+          ],
+        });
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+  });
+
+  describe('slot selection', () => {
+    const conciseId = Schema.decodeSync(ContentNodeId)(
+      '550e8400-e29b-41d4-a716-446655440003',
+    );
+    const select = (selection?: MessageSlot['selection']) =>
+      ContentService.findContentForSlot(
+        {
+          role: 'system',
+          tags: ['instruction'],
+          sequence: 0,
+          ...(selection ? { selection } : {}),
+        },
+        HashMap.empty(),
+      );
+
+    it.effect('should use only the latest version of a node by default', () =>
+      Effect.gen(function* () {
+        const latest = yield* ContentService.createContentNodeVersion(
+          conciseId,
+          'Be brief',
+          'Shorter',
+        );
+
+        const selected = yield* select();
+        expect(selected.map((v) => v.versionId)).toEqual([
+          latest.id,
+          '650e8400-e29b-41d4-a716-446655440004',
+        ]);
+        const all = yield* select({ _tag: 'All' });
+        expect(all.map((v) => v.versionId)).toEqual([
+          latest.id,
+          '650e8400-e29b-41d4-a716-446655440004',
+          '650e8400-e29b-41d4-a716-446655440003',
+        ]);
+
+        const [message] = Chunk.toReadonlyArray(
+          yield* ContentService.buildTracedConversationFromTestCase({
+            id: Schema.decodeSync(
+              Schema.String.pipe(Schema.brand('TestCaseId')),
+            )('523e4567-e89b-12d3-a456-426614174004'),
+            name: 'Latest instructions',
+            description: 'One version per node',
+            createdAt: Schema.decodeSync(Schema.DateTimeUtc)(
+              '2024-01-01T00:00:00Z',
+            ),
+            llmModel: Schema.decodeSync(LLMModel)('gpt-4'),
+            messageSlots: [
+              { role: 'system', tags: ['instruction'], sequence: 0 },
+            ],
+          }),
+        );
+        expect(message.content).toBe('Be brief\nBe helpful and supportive');
+        expect(message.versions).toEqual(selected);
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    it.effect('should pin versions as of a timestamp', () =>
+      Effect.gen(function* () {
+        yield* ContentService.createContentNodeVersion(
+          conciseId,
+          'Be brief',
+          'Shorter',
+        );
+
+        const selected = yield* select({
+          _tag: 'AsOf',
+          asOf: Schema.decodeSync(Schema.DateTimeUtc)('2024-01-03T12:00:00Z'),
+        });
+        expect(selected.map((v) => v.versionId)).toEqual([
+          '650e8400-e29b-41d4-a716-446655440003',
+        ]);
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    it.effect('should take the first nodes in the given order', () =>
+      Effect.gen(function* () {
+        const byName = yield* select({
+          _tag: 'First',
+          count: 1,
+          orderBy: 'name',
+        });
+        expect(byName.map((v) => v.nodeName)).toEqual(['be-concise']);
+
+        const newest = yield* select({
+          _tag: 'First',
+          count: 1,
+          orderBy: 'createdAt',
+          descending: true,
+        });
+        expect(newest.map((v) => v.nodeName)).toEqual(['be-helpful']);
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+
+    it.effect('should draw the same sample for the same seed', () =>
+      Effect.gen(function* () {
+        const sample = (seed: number) =>
+          ContentService.findContentForSlot(
+            {
+              role: 'user',
+              tagExpression: Either.getOrThrow(
+                ContentService.parseTagExpression(
+                  'instruction OR tone OR parameter',
+                ),
+              ),
+              selection: { _tag: 'Sample', count: 2, seed },
+              sequence: 0,
+            },
+            HashMap.empty(),
+          ).pipe(Effect.map((versions) => versions.map((v) => v.nodeName)));
+
+        const first = yield* sample(7);
+        expect(first).toHaveLength(2);
+        expect(new Set(first).size).toBe(2);
+        expect(yield* sample(7)).toEqual(first);
+
+        const draws = new Set<string>();
+        for (let seed = 0; seed < 20; seed++) {
+          draws.add((yield* sample(seed)).join());
+        }
+        expect(draws.size).toBeGreaterThan(1);
+      }).pipe(Effect.provide(ContentTestWithData())),
+    );
+  });
+
+  describe('slotSelectsNode', () => {
+    const node = {
+      id: '550e8400-e29b-41d4-a716-446655440003',
+      name: 'be-concise',
+    };
+    const tags = ['instruction', 'tone'];
+
+    it('should require every slot tag', () => {
+      expect(
+        ContentService.slotSelectsNode(
+          { role: 'system', tags: ['instruction'], sequence: 0 },
+          node,
+          tags,
+        ),
+      ).toBe(true);
+      expect(
+        ContentService.slotSelectsNode(
+          { role: 'system', tags: ['instruction', 'greeting'], sequence: 0 },
+          node,
+          tags,
+        ),
+      ).toBe(false);
+    });
+
+    it('should honor include and exclude lists by id or name', () => {
+      expect(
+        ContentService.slotSelectsNode(
+          { role: 'system', includeNodes: ['be-helpful'], sequence: 0 },
+          node,
+          tags,
+        ),
+      ).toBe(false);
+      expect(
+        ContentService.slotSelectsNode(
+          { role: 'system', includeNodes: ['be-concise'], sequence: 0 },
+          node,
+          tags,
+        ),
+      ).toBe(true);
+      expect(
+        ContentService.slotSelectsNode(
+          { role: 'system', excludeNodes: [node.id], sequence: 0 },
+          node,
+          tags,
+        ),
+      ).toBe(false);
+    });
+
+    it('should match ancestor tags only with matchDescendantTags', () => {
+      const slot = { role: 'system' as const, tags: ['guidance'], sequence: 0 };
+      expect(
+        ContentService.slotSelectsNode(slot, node, tags, ['guidance']),
+      ).toBe(false);
+      expect(
+        ContentService.slotSelectsNode(
+          { ...slot, matchDescendantTags: true },
+          node,
+          tags,
+          ['guidance'],
+        ),
+      ).toBe(true);
+    });
+
+    it('should combine tags with the tag expression', () => {
+      const slot = {
+        role: 'system' as const,
+        tags: ['instruction'],
+        tagExpression: Either.getOrThrow(
+          ContentService.parseTagExpression('NOT tone OR legacy'),
+        ),
+        sequence: 0,
+      };
+      expect(ContentService.slotSelectsNode(slot, node, tags)).toBe(false);
+      expect(
+        ContentService.slotSelectsNode(slot, node, [...tags, 'legacy']),
+      ).toBe(true);
+    });
+
+    it('should match a renamed node by its former names', () => {
+      const renamed = { ...node, name: 'be-terse', aliases: ['be-concise'] };
+      expect(
+        ContentService.slotSelectsNode(
+          { role: 'system', includeNodes: ['be-concise'], sequence: 0 },
+          renamed,
+          tags,
+        ),
+      ).toBe(true);
+      expect(
+        ContentService.slotSelectsNode(
+          { role: 'system', excludeNodes: ['be-concise'], sequence: 0 },
+          renamed,
+          tags,
+        ),
+      ).toBe(false);
+    });
   });
 });
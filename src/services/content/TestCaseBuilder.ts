@@ -1,42 +1,266 @@
-import { Effect, HashMap, Chunk } from 'effect';
+import {
+  Effect,
+  Either,
+  HashMap,
+  Chunk,
+  DateTime,
+  Option,
+  Schema,
+} from 'effect';
 import { Neo4jService } from '../neo4j';
-import { PersistenceError } from '../../domain/types/errors';
+import {
+  ParameterValidationError,
+  PersistenceError,
+  SlotParameterError,
+} from '../../domain/types/errors';
 import { cypher, queryParams } from '../../domain/types/database';
 import {
+  ContentNodeId,
+  ContentNodeVersion,
   ContentNodeVersionId,
   InsertHashMap,
   InsertKey,
-  InsertValue,
+  RenderSegment,
 } from '../../domain/types/contentNode';
 import {
   TestCase,
   MessageSlot,
   Message,
   Conversation,
+  TracedMessage,
+  TracedConversation,
+  SelectedVersion,
+  SlotParameterReference,
+  SlotSelection,
+  TagExpression,
 } from '../../domain/types/testCase';
-import { processContentFromId } from './ContentProcessing';
+import { Slug, TagId } from '../../domain/types/branded';
+import { processContentBatchWithPreparedTrace } from './ContentProcessing';
+import { ContentSubtree } from './ContentSubtree';
+import { resolveContentNodeAliases } from './ContentNodeOperations';
+import { applyParameterDeclarations } from './ContentParameters';
+import {
+  compileTagExpression,
+  evaluateTagExpression,
+  slotTagExpression,
+} from './TagExpression';
 
 /**
- * Find content matching message slot criteria
+ * Whether a message slot would select a content node, by the same rules
+ * findContentForSlot applies in Cypher, archived or not
+ * Former names of a renamed node still select it, and with
+ * matchDescendantTags so does a tag the node only has through ancestorTags,
+ * the tags its own tags are CHILD_OF. Parameter references in the slot's
+ * filters are not resolved and match nothing; see resolveSlotParameters.
  */
-export const findContentForSlot = (
+export const slotSelectsNode = (
+  slot: MessageSlot,
+  node: {
+    readonly id: string;
+    readonly name: string;
+    readonly aliases?: ReadonlyArray<string> | undefined;
+  },
+  nodeTags: ReadonlyArray<string>,
+  ancestorTags: ReadonlyArray<string> = [],
+): boolean => {
+  const tags = slot.matchDescendantTags
+    ? [...nodeTags, ...ancestorTags]
+    : nodeTags;
+  const names = (nodes: ReadonlyArray<string> | undefined) =>
+    nodes?.some(
+      (n) => n === node.id || n === node.name || !!node.aliases?.includes(n),
+    ) ?? false;
+  return (
+    Option.match(slotTagExpression(slot), {
+      onNone: () => true,
+      onSome: (expression) =>
+        evaluateTagExpression(expression, (tag) => tags.includes(tag)),
+    }) &&
+    !names(slot.excludeNodes) &&
+    (!slot.includeNodes?.length || names(slot.includeNodes))
+  );
+};
+
+/**
+ * Deterministic pseudo-random numbers in [0, 1) from an integer seed
+ */
+const seededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Apply the counting strategies to one version per node
+ */
+const applySelection = (
+  candidates: ReadonlyArray<SelectedVersion>,
+  selection: SlotSelection,
+): ReadonlyArray<SelectedVersion> => {
+  switch (selection._tag) {
+    case 'First': {
+      const sign = selection.descending ? -1 : 1;
+      return [...candidates]
+        .sort(
+          (a, b) =>
+            sign *
+            (selection.orderBy === 'name'
+              ? a.nodeName.localeCompare(b.nodeName)
+              : DateTime.toEpochMillis(a.createdAt) -
+                DateTime.toEpochMillis(b.createdAt)),
+        )
+        .slice(0, selection.count);
+    }
+    case 'Sample': {
+      // Shuffle from a fixed order so the draw depends only on the seed
+      const random = seededRandom(selection.seed);
+      const pool = [...candidates].sort((a, b) =>
+        a.nodeId.localeCompare(b.nodeId),
+      );
+      for (let i = 0; i < Math.min(selection.count, pool.length); i++) {
+        const j = i + Math.floor(random() * (pool.length - i));
+        [pool[i], pool[j]] = [pool[j], pool[i]];
+      }
+      return pool.slice(0, selection.count);
+    }
+    default:
+      return candidates;
+  }
+};
+
+/**
+ * A slot's parameters: the test case's, overridden by the slot's own
+ */
+export const withSlotParameters = (
+  parameters: InsertHashMap,
+  slot: MessageSlot,
+): InsertHashMap =>
+  slot.parameters ? HashMap.union(parameters, slot.parameters) : parameters;
+
+/**
+ * Replace the parameter references in a slot's tag and node filters, such as
+ * "{{persona}}", with the parameters' values
+ * Fails when a parameter is missing or its value is not a valid name.
+ */
+export const resolveSlotParameters = (
   slot: MessageSlot,
-  _parameters: InsertHashMap,
-): Effect.Effect<ContentNodeVersionId[], PersistenceError, Neo4jService> =>
+  parameters: InsertHashMap,
+): Either.Either<MessageSlot, SlotParameterError> => {
+  const isReference = Schema.is(SlotParameterReference);
+  const resolve =
+    <A extends string>(isName: (value: unknown) => value is A, kind: string) =>
+    (
+      name: A | SlotParameterReference,
+    ): Either.Either<A, SlotParameterError> => {
+      if (!isReference(name)) {
+        return Either.right(name);
+      }
+      const fail = (reason: string) =>
+        Either.left(
+          new SlotParameterError({
+            sequence: slot.sequence,
+            reference: name,
+            reason,
+          }),
+        );
+      const value = HashMap.get(
+        parameters,
+        Schema.decodeSync(InsertKey)(name.slice(2, -2)),
+      );
+      if (Option.isNone(value)) {
+        return fail('no such parameter');
+      }
+      return isName(value.value)
+        ? Either.right(value.value)
+        : fail(`${JSON.stringify(value.value)} is not a valid ${kind}`);
+    };
+  const resolveTag = resolve(Schema.is(Schema.Union(TagId, Slug)), 'tag name');
+  const resolveNode = resolve(
+    Schema.is(Schema.Union(ContentNodeId, Slug)),
+    'content node id or name',
+  );
+  const resolveExpression = (
+    expression: TagExpression,
+  ): Either.Either<TagExpression, SlotParameterError> => {
+    switch (expression._tag) {
+      case 'Tag':
+        return Either.map(resolveTag(expression.name), (name) => ({
+          _tag: 'Tag',
+          name,
+        }));
+      case 'Not':
+        return Either.map(resolveExpression(expression.operand), (operand) => ({
+          _tag: 'Not',
+          operand,
+        }));
+      case 'And':
+      case 'Or':
+        return Either.map(
+          Either.all(expression.operands.map(resolveExpression)),
+          (operands) => ({ _tag: expression._tag, operands }),
+        );
+    }
+  };
+
+  return Either.gen(function* () {
+    return {
+      ...slot,
+      ...(slot.tags
+        ? { tags: yield* Either.all(slot.tags.map(resolveTag)) }
+        : {}),
+      ...(slot.tagExpression
+        ? { tagExpression: yield* resolveExpression(slot.tagExpression) }
+        : {}),
+      ...(slot.excludeNodes
+        ? {
+            excludeNodes: yield* Either.all(slot.excludeNodes.map(resolveNode)),
+          }
+        : {}),
+      ...(slot.includeNodes
+        ? {
+            includeNodes: yield* Either.all(slot.includeNodes.map(resolveNode)),
+          }
+        : {}),
+    };
+  });
+};
+
+/**
+ * Query the versions a slot without parameter references selects
+ */
+const selectSlotContent = (
+  slot: MessageSlot,
+): Effect.Effect<
+  ReadonlyArray<SelectedVersion>,
+  PersistenceError,
+  Neo4jService
+> =>
   Effect.gen(function* () {
     const neo4j = yield* Neo4jService;
+    const selection: SlotSelection = slot.selection ?? { _tag: 'Latest' };
+
+    yield* Effect.annotateCurrentSpan({ selection: selection._tag });
 
     // Build query based on slot configuration
     const queryParts: string[] = [
       'MATCH (n:ContentNode)-[:VERSION_OF]-(v:ContentNodeVersion)',
     ];
-    const whereConditions: string[] = [];
+    // Archived nodes are never selected for new conversations
+    const whereConditions: string[] = ['n.archivedAt IS NULL'];
 
     // Add tag filtering if specified
-    if (slot.tags && slot.tags.length > 0) {
-      whereConditions.push(
-        'ALL(tag IN $tags WHERE (n)-[:HAS_TAG]->(:Tag {name: tag}))',
-      );
+    const tagFilter = Option.map(slotTagExpression(slot), (expression) =>
+      compileTagExpression(expression, {
+        matchDescendants: !!slot.matchDescendantTags,
+      }),
+    );
+    if (Option.isSome(tagFilter)) {
+      whereConditions.push(tagFilter.value.clause);
     }
 
     // Add exclusions
@@ -51,48 +275,158 @@ export const findContentForSlot = (
       whereConditions.push('(n.id IN $includeIds OR n.name IN $includeNames)');
     }
 
-    if (whereConditions.length > 0) {
-      queryParts.push('WHERE ' + whereConditions.join(' AND '));
+    // Versions created after the pinned time do not exist yet
+    if (selection._tag === 'AsOf') {
+      whereConditions.push('v.createdAt <= $asOf');
+    }
+
+    queryParts.push('WHERE ' + whereConditions.join(' AND '));
+
+    // Every strategy but All works on one version per node
+    if (selection._tag !== 'All') {
+      queryParts.push('WITH n, v ORDER BY v.createdAt DESC');
+      queryParts.push('WITH n, collect(v)[0] as v');
     }
 
-    queryParts.push('RETURN v.id as versionId');
-    queryParts.push('ORDER BY v.createdAt DESC');
+    queryParts.push('RETURN n.id as nodeId, n.name as nodeName, v as version');
+    queryParts.push('ORDER BY version.createdAt DESC');
 
     const query = cypher`${queryParts.join(' ')}`;
 
+    // Names from before a rename are matched by the node's current name
+    const isId = Schema.is(ContentNodeId);
+    const slotNames = [
+      ...(slot.excludeNodes ?? []),
+      ...(slot.includeNodes ?? []),
+    ].filter((n) => !isId(n));
+    const renamed = yield* resolveContentNodeAliases(slotNames);
+    const ids = (nodes: ReadonlyArray<string> | undefined) =>
+      nodes?.filter(isId) ?? [];
+    const names = (nodes: ReadonlyArray<string> | undefined) =>
+      nodes?.filter((n) => !isId(n)).map((n) => renamed.get(n) ?? n) ?? [];
+
     const params = yield* queryParams({
-      tags: slot.tags || [],
-      excludeIds: slot.excludeNodes?.filter((n) => n.includes('-')) || [],
-      excludeNames: slot.excludeNodes?.filter((n) => !n.includes('-')) || [],
-      includeIds: slot.includeNodes?.filter((n) => n.includes('-')) || [],
-      includeNames: slot.includeNodes?.filter((n) => !n.includes('-')) || [],
+      ...Option.match(tagFilter, {
+        onNone: () => ({}),
+        onSome: (filter) => filter.params,
+      }),
+      excludeIds: ids(slot.excludeNodes),
+      excludeNames: names(slot.excludeNodes),
+      includeIds: ids(slot.includeNodes),
+      includeNames: names(slot.includeNodes),
+      ...(selection._tag === 'AsOf'
+        ? { asOf: DateTime.formatIso(selection.asOf) }
+        : {}),
     });
 
-    const results = yield* neo4j.runQuery<{ versionId: ContentNodeVersionId }>(
-      query,
-      params,
-    );
-    return results.map((r) => r.versionId);
-  })
-    .pipe(
-      Effect.mapError((error) => {
-        if (error instanceof PersistenceError) {
-          return error;
-        }
-        return new PersistenceError({
-          originalMessage: String(error),
-          operation: 'read',
-        });
+    const results = yield* neo4j.runQuery<{
+      nodeId: unknown;
+      nodeName: unknown;
+      version: unknown;
+    }>(query, params);
+    const candidates = yield* Effect.forEach(results, (row) =>
+      Effect.gen(function* () {
+        const version = yield* Schema.decodeUnknown(ContentNodeVersion)(
+          row.version,
+        );
+        return {
+          nodeId: yield* Schema.decodeUnknown(ContentNodeId)(row.nodeId),
+          nodeName: yield* Schema.decodeUnknown(Slug)(row.nodeName),
+          versionId: version.id,
+          createdAt: version.createdAt,
+        } satisfies SelectedVersion;
       }),
-    )
-    .pipe(Effect.withSpan('ContentService.findContentForSlot'));
+    );
+    return applySelection(candidates, selection);
+  }).pipe(
+    Effect.mapError((error) => {
+      if (error instanceof PersistenceError) {
+        return error;
+      }
+      return new PersistenceError({
+        originalMessage: String(error),
+        operation: 'read',
+      });
+    }),
+  );
 
 /**
- * Build conversation from TestCase
+ * Find the content versions a message slot selects, in message order
+ * Parameter references in the slot's filters are resolved first, from the
+ * slot's parameters over the given ones. The slot's selection strategy
+ * decides which versions of the matching nodes are used; by default it is
+ * the latest version of each, newest first.
  */
-export const buildConversationFromTestCase = (
+export const findContentForSlot = (
+  slot: MessageSlot,
+  parameters: InsertHashMap,
+): Effect.Effect<
+  ReadonlyArray<SelectedVersion>,
+  PersistenceError | SlotParameterError,
+  Neo4jService
+> =>
+  Effect.gen(function* () {
+    const resolved = yield* resolveSlotParameters(
+      slot,
+      withSlotParameters(parameters, slot),
+    );
+    return yield* selectSlotContent(resolved);
+  }).pipe(Effect.withSpan('ContentService.findContentForSlot'));
+
+/**
+ * Check a slot's parameters against the declarations of every node its
+ * content renders, included ones too, and add their defaults
+ * Selected nodes come first, then included ones level by level; the first
+ * node to declare a default wins. A required parameter that an insert edge
+ * in the subtree provides need not be supplied.
+ */
+const applySlotDeclarations =
+  (rootIds: ReadonlyArray<ContentNodeVersionId>, parameters: InsertHashMap) =>
+  (
+    subtree: ContentSubtree,
+  ): Either.Either<InsertHashMap, ParameterValidationError> => {
+    const inserted = new Set(
+      [...subtree.children.values()].flatMap((children) =>
+        children.flatMap(({ edge }) =>
+          edge.operation === 'insert' && edge.key ? [edge.key] : [],
+        ),
+      ),
+    );
+    const declaring = [
+      ...rootIds.flatMap((id) => subtree.versions.get(id) ?? []),
+      ...subtree.versions.values(),
+    ].filter(
+      (v, i, all) =>
+        v.parameters.length > 0 &&
+        all.findIndex((other) => other.nodeName === v.nodeName) === i,
+    );
+
+    return declaring.reduce(
+      (acc, { nodeName, parameters: declarations }) =>
+        Either.flatMap(acc, (current) =>
+          applyParameterDeclarations(
+            nodeName,
+            declarations.map((d) =>
+              d.required && inserted.has(d.name)
+                ? { ...d, required: false }
+                : d,
+            ),
+            current,
+          ),
+        ),
+      Either.right(parameters) as Either.Either<
+        InsertHashMap,
+        ParameterValidationError
+      >,
+    );
+  };
+
+/**
+ * Render every slot of a TestCase, keeping the provenance of each message
+ */
+const buildTracedMessages = (
   testCase: TestCase,
-): Effect.Effect<Conversation, Error | PersistenceError, Neo4jService> =>
+): Effect.Effect<TracedMessage[], Error | PersistenceError, Neo4jService> =>
   Effect.gen(function* () {
     // Annotate span with test case info
     yield* Effect.annotateCurrentSpan({
@@ -108,34 +442,92 @@ export const buildConversationFromTestCase = (
     );
 
     // Process each slot
-    const messages = yield* Effect.forEach(sortedSlots, (slot) =>
+    return yield* Effect.forEach(sortedSlots, (slot) =>
       Effect.gen(function* () {
         // Find content matching slot criteria
-        const versionIds = yield* findContentForSlot(
+        const versions = yield* findContentForSlot(
           slot,
           testCase.parameters || HashMap.empty(),
         );
+        const separator = slot.separator ?? '\n';
 
-        if (versionIds.length === 0) {
+        if (versions.length === 0) {
           return yield* Effect.fail(
             new Error(`No content found for slot with role ${slot.role}`),
           );
         }
 
-        // Process all matching content and concatenate
-        const contents = yield* Effect.forEach(versionIds, (versionId) =>
-          processContentFromId(
-            versionId,
-            testCase.parameters || HashMap.empty(),
-            { includeTags: slot.tags },
+        // Process all matching content together and concatenate; declared
+        // defaults fill in what the test case leaves out
+        const rootIds = versions.map((v) => v.versionId);
+        const traces = yield* processContentBatchWithPreparedTrace(
+          rootIds,
+          applySlotDeclarations(
+            rootIds,
+            withSlotParameters(testCase.parameters || HashMap.empty(), slot),
           ),
         );
 
-        const combinedContent = contents.filter(Boolean).join('\n');
-        return { role: slot.role, content: combinedContent } satisfies Message;
+        // Shift each trace's segments past the content joined before it
+        const joined = traces
+          .filter((trace) => trace.text)
+          .reduce(
+            (acc, trace) => {
+              const offset = acc.content
+                ? acc.content.length + separator.length
+                : 0;
+              return {
+                content: acc.content
+                  ? acc.content + separator + trace.text
+                  : trace.text,
+                segments: [
+                  ...acc.segments,
+                  ...trace.segments.map((segment) => ({
+                    ...segment,
+                    start: segment.start + offset,
+                    end: segment.end + offset,
+                  })),
+                ],
+              };
+            },
+            { content: '', segments: [] as RenderSegment[] },
+          );
+
+        return {
+          role: slot.role,
+          ...joined,
+          versions,
+        } satisfies TracedMessage;
       }),
     );
+  });
 
+/**
+ * Build conversation from TestCase
+ */
+export const buildConversationFromTestCase = (
+  testCase: TestCase,
+): Effect.Effect<Conversation, Error | PersistenceError, Neo4jService> =>
+  buildTracedMessages(testCase).pipe(
     // Convert array to Chunk for Conversation type
-    return Chunk.fromIterable(messages);
-  }).pipe(Effect.withSpan('ContentService.buildConversationFromTestCase'));
+    Effect.map((messages) =>
+      Chunk.fromIterable(
+        messages.map(
+          ({ role, content }) => ({ role, content }) satisfies Message,
+        ),
+      ),
+    ),
+    Effect.withSpan('ContentService.buildConversationFromTestCase'),
+  );
+
+/**
+ * Build conversation from TestCase with the content version behind each span
+ * of every message
+ */
+export const buildTracedConversationFromTestCase = (
+  testCase: TestCase,
+): Effect.Effect<TracedConversation, Error | PersistenceError, Neo4jService> =>
+  buildTracedMessages(testCase).pipe(
+    Effect.map((messages) => Chunk.fromIterable(messages)),
+    Effect.withSpan('ContentService.buildTracedConversationFromTestCase'),
+  );
@@ -0,0 +1,34 @@
+import { Effect, Schema } from 'effect';
+import { Neo4jService } from '../neo4j';
+import { PersistenceError } from '../../domain/types/errors';
+import { cypher, queryParams } from '../../domain/types/database';
+import { StoredTestCase, TestCase } from '../../domain/types/testCase';
+
+/**
+ * Store a new TestCase
+ * Message slots and parameters are written as JSON text, the StoredTestCase
+ * form that findDependents reads back.
+ */
+export const createTestCase = (
+  testCase: TestCase,
+): Effect.Effect<TestCase, PersistenceError, Neo4jService> =>
+  Effect.gen(function* () {
+    const neo4j = yield* Neo4jService;
+    const props = yield* Schema.encode(StoredTestCase)(testCase);
+    const query = cypher`CREATE (t:TestCase $props) RETURN t`;
+    const params = yield* queryParams({ props });
+    yield* neo4j.runQuery(query, params);
+    yield* Effect.annotateCurrentSpan({ testCaseId: testCase.id });
+    return testCase;
+  }).pipe(
+    Effect.mapError((error) => {
+      if (error instanceof PersistenceError) {
+        return error;
+      }
+      return new PersistenceError({
+        originalMessage: String(error),
+        operation: 'create',
+      });
+    }),
+    Effect.withSpan('ContentService.createTestCase'),
+  );
@@ -4,6 +4,11 @@ export {
   findContentNodeByName,
   mustFindContentNodeByName,
   listContentNodes,
+  renameContentNode,
+  archiveContentNode,
+  unarchiveContentNode,
+  setContentParameters,
+  deleteContentNode,
   tagContent,
   getNodeTags,
 } from './ContentNodeOperations';
@@ -11,17 +16,60 @@ export {
 export {
   createContentNodeVersion,
   getLatestContentNodeVersion,
+  revertContentNode,
+  deleteContentNodeVersion,
   getChildren,
   linkNodes,
+  linkFloatingNode,
+  reorderChildren,
+  findVersionsByContentHash,
 } from './ContentVersionOperations';
 
+export { computeContentHash } from './ContentVersionHelpers';
+
 export {
   processContentFromId,
+  processContentWithReport,
+  processContentWithTrace,
+  processContentBatchWithTrace,
   getContentTree,
   type ContentTreeNode,
+  type ContentProcessingError,
 } from './ContentProcessing';
 
+export { getVersionHistory, diffContentNodeVersions } from './ContentHistory';
+
+export {
+  parameterTypeOf,
+  validateParameterDeclarations,
+  applyParameterDeclarations,
+} from './ContentParameters';
+
+export { findDependents } from './ContentDependents';
+
+export { createTestCase } from './TestCaseOperations';
+
+export { lintContent } from './ContentLint';
+
+export { searchContent, CONTENT_SEARCH_INDEX } from './ContentSearch';
+
+export {
+  semanticSearch,
+  backfillEmbeddings,
+  CONTENT_EMBEDDING_INDEX,
+} from './ContentEmbeddings';
+
 export {
   findContentForSlot,
+  resolveSlotParameters,
+  slotSelectsNode,
   buildConversationFromTestCase,
+  buildTracedConversationFromTestCase,
 } from './TestCaseBuilder';
+
+export {
+  parseTagExpression,
+  compileTagExpression,
+  evaluateTagExpression,
+  slotTagExpression,
+} from './TagExpression';
@@ -0,0 +1,46 @@
+import { Context, Effect } from 'effect';
+import { EmbeddingError } from '../../domain/types/errors';
+
+/**
+ * A vector with the model that produced it
+ * Vectors from different models are not comparable.
+ */
+export interface Embedding {
+  readonly model: string;
+  readonly vector: ReadonlyArray<number>;
+}
+
+/**
+ * Embeddings turns text into vectors whose cosine similarity reflects how
+ * similar the texts are
+ *
+ * @example
+ * ```ts
+ * const embeddings = yield* Embeddings
+ * const [vector] = yield* embeddings.embed(['Be concise'])
+ * ```
+ */
+export interface EmbeddingsImpl {
+  /**
+   * Identifies the vector space; stored next to every embedding so that
+   * switching implementations can re-embed stale vectors
+   */
+  readonly model: string;
+
+  /**
+   * Length of every vector this implementation returns
+   */
+  readonly dimensions: number;
+
+  /**
+   * Embed texts, returning one vector per text in the same order
+   */
+  readonly embed: (
+    texts: ReadonlyArray<string>,
+  ) => Effect.Effect<ReadonlyArray<ReadonlyArray<number>>, EmbeddingError>;
+}
+
+export class Embeddings extends Context.Tag('Embeddings')<
+  Embeddings,
+  EmbeddingsImpl
+>() {}
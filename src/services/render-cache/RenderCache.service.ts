@@ -0,0 +1,136 @@
+import { Context, DateTime, Effect, HashMap, Option } from 'effect';
+import * as crypto from 'crypto';
+import {
+  ContentNodeVersionId,
+  InsertHashMap,
+  ProcessingOptions,
+  RenderTrace,
+  UnresolvedPlaceholder,
+} from '../../domain/types/contentNode';
+
+/**
+ * Counters for one RenderCache instance
+ */
+export interface RenderCacheStats {
+  readonly hits: number;
+  readonly misses: number;
+  readonly evictions: number;
+  readonly size: number;
+  readonly capacity: number;
+}
+
+/**
+ * A cached render: the trace plus what it found out about its parameters
+ */
+export interface CachedRender {
+  readonly trace: RenderTrace;
+  readonly unresolved: ReadonlyArray<UnresolvedPlaceholder>;
+  // Parameter names a template looked up that no insert edge provided
+  readonly usedParameters: ReadonlyArray<string>;
+}
+
+/**
+ * RenderCache keeps rendered traces so that rendering a version again with
+ * the same parameters and options skips the database entirely, and a
+ * subtree shared by several renders is rendered once per distinct value of
+ * the parameters it uses
+ *
+ * @example
+ * ```ts
+ * const fingerprint = renderFingerprint(parameters, options)
+ * const cached = yield* cache.get(versionId, fingerprint)
+ * ```
+ */
+export interface RenderCacheImpl {
+  /**
+   * Look up a render; counts a hit or a miss
+   * @param versionId The rendered version
+   * @param fingerprint renderFingerprint of the parameters and options
+   */
+  readonly get: (
+    versionId: ContentNodeVersionId,
+    fingerprint: string,
+  ) => Effect.Effect<Option.Option<CachedRender>>;
+
+  /**
+   * Store a render, evicting the least recently used entry when full
+   */
+  readonly set: (
+    versionId: ContentNodeVersionId,
+    fingerprint: string,
+    render: CachedRender,
+  ) => Effect.Effect<void>;
+
+  /**
+   * Drop every entry; content writes call this through clearRenderCache
+   */
+  readonly clear: Effect.Effect<void>;
+
+  readonly stats: Effect.Effect<RenderCacheStats>;
+}
+
+export class RenderCache extends Context.Tag('RenderCache')<
+  RenderCache,
+  RenderCacheImpl
+>() {}
+
+const sorted = (values: ReadonlyArray<string> | undefined) =>
+  [...(values ?? [])].sort();
+
+/**
+ * JSON with the keys of every object sorted, so equal values serialize alike
+ */
+const canonicalJson = (value: unknown): string =>
+  JSON.stringify(value, (_key, nested: unknown) =>
+    nested && typeof nested === 'object' && !Array.isArray(nested)
+      ? Object.fromEntries(
+          Object.entries(nested).sort(([a], [b]) => (a < b ? -1 : 1)),
+        )
+      : nested,
+  );
+
+/**
+ * Stable hash of render parameters and options
+ * Parameter order, key order inside object values and the order of tag and
+ * version lists do not matter; options left at their defaults hash the same
+ * as the defaults spelled out. `scope` is anything else the render depends
+ * on, such as how a subtree was included.
+ */
+export const renderFingerprint = (
+  parameters: InsertHashMap,
+  options: ProcessingOptions,
+  scope?: unknown,
+): string =>
+  crypto
+    .createHash('sha256')
+    .update(
+      canonicalJson({
+        parameters: [...HashMap.entries(parameters)].sort(([a], [b]) =>
+          a.localeCompare(b),
+        ),
+        includeTags: sorted(options.includeTags),
+        excludeTags: sorted(options.excludeTags),
+        tagFilterScope: options.tagFilterScope ?? 'concatenate',
+        excludeVersionIds: sorted(options.excludeVersionIds),
+        resolveAsOf: options.resolveAsOf
+          ? DateTime.formatIso(options.resolveAsOf)
+          : null,
+        strict: options.strict ?? false,
+        scope: scope ?? null,
+      }),
+    )
+    .digest('hex');
+
+/**
+ * Clear the RenderCache if one is provided; a no-op otherwise
+ */
+export const clearRenderCache: Effect.Effect<void> = Effect.serviceOption(
+  RenderCache,
+).pipe(
+  Effect.flatMap(
+    Option.match({
+      onNone: () => Effect.void,
+      onSome: (cache) => cache.clear,
+    }),
+  ),
+);
@@ -0,0 +1,598 @@
+import { Effect, Either, Option, Schema } from 'effect';
+import { Neo4jService } from '../neo4j';
+import {
+  Neo4jError,
+  NotFoundError,
+  PersistenceError,
+  SlugInUseError,
+  TagCycleError,
+} from '../../domain/types/errors';
+import { cypher, queryParams } from '../../domain/types/database';
+import { Tag, TagTree } from '../../domain/types/tag';
+import { ContentNode } from '../../domain/types/contentNode';
+import { ContentNodeId, Slug, TagId } from '../../domain/types/branded';
+import {
+  MessageSlot,
+  StoredTestCase,
+  TagExpression,
+  TestCaseTagName,
+} from '../../domain/types/testCase';
+import {
+  createNamedEntity,
+  findEntityByName,
+  listAll,
+  mustFindByName,
+} from '../persistence/GenericPersistence';
+import { clearRenderCache } from '../render-cache';
+
+/**
+ * Create a new Tag
+ */
+export const createTag = (
+  name: Slug,
+  description: string,
+): Effect.Effect<Tag, PersistenceError, Neo4jService> =>
+  createNamedEntity('Tag', Tag, { name, description }).pipe(
+    Effect.withSpan('TagService.createTag'),
+  );
+
+/**
+ * Find a Tag by name
+ */
+export const findTagByName = (
+  name: Slug,
+): Effect.Effect<Option.Option<Tag>, PersistenceError, Neo4jService> =>
+  findEntityByName('Tag', Tag, name).pipe(
+    Effect.withSpan('TagService.findTagByName'),
+  );
+
+/**
+ * Get a Tag by name (fails if not found)
+ */
+export const mustFindTagByName = (
+  name: Slug,
+): Effect.Effect<Tag, NotFoundError | PersistenceError, Neo4jService> =>
+  mustFindByName('Tag', 'tag', Tag, name).pipe(
+    Effect.withSpan('TagService.mustFindTagByName'),
+  );
+
+/**
+ * List the tag taxonomy: tags without a parent, each with its children,
+ * by name at every level
+ */
+export const listTags = (): Effect.Effect<
+  ReadonlyArray<TagTree>,
+  PersistenceError,
+  Neo4jService
+> =>
+  Effect.gen(function* () {
+    const neo4j = yield* Neo4jService;
+    const tags = yield* listAll('Tag', Tag);
+    const edgesQuery = cypher`
+      MATCH (child:Tag)-[:CHILD_OF]->(parent:Tag)
+      RETURN child.id as childId, parent.id as parentId
+    `;
+    const edges = yield* neo4j.runQuery<{ childId: TagId; parentId: TagId }>(
+      edgesQuery,
+    );
+
+    const childIds = new Map<string, Set<string>>();
+    for (const { childId, parentId } of edges) {
+      childIds.set(
+        parentId,
+        (childIds.get(parentId) ?? new Set()).add(childId),
+      );
+    }
+    const hasParent = new Set(edges.map((edge) => edge.childId));
+    // Links are acyclic, but a tree is never built through its own tag
+    const buildTree = (tag: Tag, path: ReadonlySet<string>): TagTree => ({
+      tag,
+      children: tags
+        .filter((t) => childIds.get(tag.id)?.has(t.id) && !path.has(t.id))
+        .map((t) => buildTree(t, new Set(path).add(t.id))),
+    });
+    return tags
+      .filter((tag) => !hasParent.has(tag.id))
+      .map((tag) => buildTree(tag, new Set([tag.id])));
+  })
+    .pipe(
+      Effect.mapError((error) => {
+        if (error instanceof PersistenceError) {
+          return error;
+        }
+        return new PersistenceError({
+          originalMessage: String(error),
+          operation: 'read',
+        });
+      }),
+    )
+    .pipe(Effect.withSpan('TagService.listTags'));
+
+/**
+ * Make a tag CHILD_OF another; a tag may have several parents
+ * Fails with TagCycleError when the parent is the tag itself or one of its
+ * descendants.
+ */
+export const setTagParent = (
+  tagName: Slug,
+  parentName: Slug,
+): Effect.Effect<
+  void,
+  NotFoundError | PersistenceError | TagCycleError,
+  Neo4jService
+> =>
+  Effect.gen(function* () {
+    const neo4j = yield* Neo4jService;
+    const tag = yield* mustFindTagByName(tagName);
+    const parent = yield* mustFindTagByName(parentName);
+
+    yield* Effect.annotateCurrentSpan({ tagId: tag.id, parentId: parent.id });
+
+    const descendantQuery = cypher`
+      MATCH path = (:Tag {id: $parentId})-[:CHILD_OF*0..]->(:Tag {id: $tagId})
+      RETURN [t IN nodes(path) | t.name] as names
+      LIMIT 1
+    `;
+    const linkQuery = cypher`
+      MATCH (tag:Tag {id: $tagId})
+      MATCH (parent:Tag {id: $parentId})
+      MERGE (tag)-[:CHILD_OF]->(parent)
+    `;
+    const params = yield* queryParams({ tagId: tag.id, parentId: parent.id });
+
+    // Checked in the same transaction so concurrent links cannot close a cycle
+    const linked = yield* neo4j.runInTransaction((tx) =>
+      Effect.gen(function* () {
+        const paths = yield* tx.run<{ names: string[] }>(
+          descendantQuery,
+          params,
+        );
+        if (paths.length > 0) {
+          return Either.left(paths[0].names);
+        }
+        yield* tx.run(linkQuery, params);
+        return Either.right(undefined);
+      }),
+    );
+
+    if (Either.isLeft(linked)) {
+      const path = yield* Schema.decodeUnknown(Schema.Array(Slug))(linked.left);
+      return yield* Effect.fail(
+        new TagCycleError({ path: [tagName, ...path] }),
+      );
+    }
+    // Slots matching descendant tags may now select more nodes
+    yield* clearRenderCache;
+  })
+    .pipe(
+      Effect.mapError((error) => {
+        if (
+          error instanceof PersistenceError ||
+          error instanceof NotFoundError ||
+          error instanceof TagCycleError
+        ) {
+          return error;
+        }
+        return new PersistenceError({
+          originalMessage: String(error),
+          operation: 'update',
+        });
+      }),
+    )
+    .pipe(Effect.withSpan('TagService.setTagParent'));
+
+/**
+ * Remove a CHILD_OF link between two tags; a missing link is ignored
+ */
+export const removeTagParent = (
+  tagName: Slug,
+  parentName: Slug,
+): Effect.Effect<void, NotFoundError | PersistenceError, Neo4jService> =>
+  Effect.gen(function* () {
+    const neo4j = yield* Neo4jService;
+    const tag = yield* mustFindTagByName(tagName);
+    const parent = yield* mustFindTagByName(parentName);
+
+    const query = cypher`
+      MATCH (:Tag {id: $tagId})-[r:CHILD_OF]->(:Tag {id: $parentId})
+      DELETE r
+    `;
+    const params = yield* queryParams({ tagId: tag.id, parentId: parent.id });
+    yield* neo4j.runQuery(query, params);
+
+    yield* clearRenderCache;
+  })
+    .pipe(
+      Effect.mapError((error) => {
+        if (
+          error instanceof PersistenceError ||
+          error instanceof NotFoundError
+        ) {
+          return error;
+        }
+        return new PersistenceError({
+          originalMessage: String(error),
+          operation: 'delete',
+        });
+      }),
+    )
+    .pipe(Effect.withSpan('TagService.removeTagParent'));
+
+/**
+ * Tags whose name or description contains the query, ignoring case
+ */
+export const searchTags = (
+  query: string,
+): Effect.Effect<readonly Tag[], PersistenceError, Neo4jService> =>
+  Effect.gen(function* () {
+    const neo4j = yield* Neo4jService;
+    const searchQuery = cypher`
+      MATCH (t:Tag)
+      WHERE toLower(t.name) CONTAINS $query
+        OR toLower(t.description) CONTAINS $query
+      RETURN t ORDER BY t.name
+    `;
+    const params = yield* queryParams({ query: query.trim().toLowerCase() });
+    const results = yield* neo4j.runQuery<{ t: unknown }>(searchQuery, params);
+    return yield* Schema.decodeUnknown(Schema.Array(Tag))(
+      results.map((result) => result.t),
+    );
+  })
+    .pipe(
+      Effect.mapError((error) => {
+        if (error instanceof PersistenceError) {
+          return error;
+        }
+        return new PersistenceError({
+          originalMessage: String(error),
+          operation: 'read',
+        });
+      }),
+    )
+    .pipe(Effect.withSpan('TagService.searchTags'));
+
+// The parts of a stored TestCase that refer to tags by name
+const TestCaseSlots = StoredTestCase.pipe(Schema.pick('id', 'messageSlots'));
+
+/**
+ * A message slot with every reference to a tag name replaced, or none when
+ * the slot does not name the tag
+ * Tag ids and parameter references are left alone.
+ */
+const renameSlotTag = (
+  slot: MessageSlot,
+  oldName: Slug,
+  newName: Slug,
+): Option.Option<MessageSlot> => {
+  let named = false;
+  const rename = <A>(name: A): A | Slug => {
+    if (name !== oldName) {
+      return name;
+    }
+    named = true;
+    return newName;
+  };
+  const renameExpression = (expression: TagExpression): TagExpression => {
+    switch (expression._tag) {
+      case 'Tag':
+        return { _tag: 'Tag', name: rename(expression.name) };
+      case 'Not':
+        return { _tag: 'Not', operand: renameExpression(expression.operand) };
+      case 'And':
+      case 'Or':
+        return {
+          _tag: expression._tag,
+          operands: expression.operands.map(renameExpression),
+        };
+    }
+  };
+  const renamed = {
+    ...slot,
+    ...(slot.tags ? { tags: slot.tags.map(rename) } : {}),
+    ...(slot.tagExpression
+      ? { tagExpression: renameExpression(slot.tagExpression) }
+      : {}),
+  };
+  return named ? Option.some(renamed) : Option.none();
+};
+
+/**
+ * Rename a Tag
+ * Test case slots that name the tag in their tags or tag expression are
+ * rewritten to the new name in the same transaction; parameter values that
+ * name it are not. Fails with SlugInUseError when another tag has the name.
+ */
+export const renameTag = (
+  oldName: Slug,
+  newName: Slug,
+): Effect.Effect<
+  Tag,
+  NotFoundError | PersistenceError | SlugInUseError,
+  Neo4jService
+> =>
+  Effect.gen(function* () {
+    const neo4j = yield* Neo4jService;
+    const tag = yield* mustFindTagByName(oldName);
+
+    yield* Effect.annotateCurrentSpan({ tagId: tag.id, oldName, newName });
+
+    if (oldName === newName) {
+      return tag;
+    }
+
+    const conflictQuery = cypher`
+      MATCH (other:Tag {name: $newName})
+      WHERE other.id <> $tagId
+      RETURN other.id as id
+      LIMIT 1
+    `;
+    const renameQuery = cypher`
+      MATCH (t:Tag {id: $tagId})
+      SET t.name = $newName
+      RETURN t
+    `;
+    const testCasesQuery = cypher`
+      MATCH (t:TestCase)
+      RETURN t.id as id, t.messageSlots as messageSlots
+    `;
+    const updateTestCasesQuery = cypher`
+      UNWIND $testCases as testCase
+      MATCH (t:TestCase {id: testCase.id})
+      SET t.messageSlots = testCase.messageSlots
+    `;
+    const params = yield* queryParams({ tagId: tag.id, newName });
+
+    const renamed = yield* neo4j.runInTransaction((tx) =>
+      Effect.gen(function* () {
+        const conflicts = yield* tx.run<{ id: TagId }>(conflictQuery, params);
+        if (conflicts.length > 0) {
+          return Either.left(conflicts[0].id);
+        }
+        const results = yield* tx.run<{ t: unknown }>(renameQuery, params);
+
+        // Test cases that do not decode are left as they are
+        const rows = yield* tx.run<unknown>(testCasesQuery);
+        const testCases = rows.flatMap((row) => {
+          const decoded = Schema.decodeUnknownEither(TestCaseSlots)(row);
+          if (Either.isLeft(decoded)) {
+            return [];
+          }
+          const slots = decoded.right.messageSlots.map((slot) =>
+            renameSlotTag(slot, oldName, newName),
+          );
+          if (!slots.some(Option.isSome)) {
+            return [];
+          }
+          const messageSlots = slots.map((slot, i) =>
+            Option.getOrElse(slot, () => decoded.right.messageSlots[i]),
+          );
+          return Either.match(
+            Schema.encodeEither(TestCaseSlots)({
+              ...decoded.right,
+              messageSlots,
+            }),
+            { onLeft: () => [], onRight: (encoded) => [encoded] },
+          );
+        });
+        if (testCases.length > 0) {
+          const testCasesParams = yield* queryParams({ testCases }).pipe(
+            Effect.mapError(
+              (error) =>
+                new Neo4jError({
+                  originalMessage: error.message,
+                  query: updateTestCasesQuery,
+                }),
+            ),
+          );
+          yield* tx.run(updateTestCasesQuery, testCasesParams);
+        }
+        return Either.right(results[0]?.t);
+      }),
+    );
+
+    if (Either.isLeft(renamed)) {
+      return yield* Effect.fail(
+        new SlugInUseError({ slug: newName, existingId: renamed.left }),
+      );
+    }
+    // Tag filters match by name
+    yield* clearRenderCache;
+    return yield* Schema.decodeUnknown(Tag)(renamed.right);
+  })
+    .pipe(
+      Effect.mapError((error) => {
+        if (
+          error instanceof PersistenceError ||
+          error instanceof NotFoundError ||
+          error instanceof SlugInUseError
+        ) {
+          return error;
+        }
+        return new PersistenceError({
+          originalMessage: String(error),
+          operation: 'update',
+        });
+      }),
+    )
+    .pipe(Effect.withSpan('TagService.renameTag'));
+
+/**
+ * Move every node tagged with source onto target and delete source
+ * The source's parents and children become the target's, except where the
+ * link would make the taxonomy cyclic.
+ */
+export const mergeTags = (
+  sourceName: Slug,
+  targetName: Slug,
+): Effect.Effect<Tag, NotFoundError | PersistenceError, Neo4jService> =>
+  Effect.gen(function* () {
+    const neo4j = yield* Neo4jService;
+    const source = yield* mustFindTagByName(sourceName);
+    const target = yield* mustFindTagByName(targetName);
+
+    yield* Effect.annotateCurrentSpan({
+      sourceId: source.id,
+      targetId: target.id,
+    });
+
+    if (source.id === target.id) {
+      return target;
+    }
+
+    const relinkQuery = cypher`
+      MATCH (n:ContentNode)-[:HAS_TAG]->(:Tag {id: $sourceId})
+      MATCH (target:Tag {id: $targetId})
+      MERGE (n)-[:HAS_TAG]->(target)
+    `;
+    const childrenQuery = cypher`
+      MATCH (child:Tag)-[:CHILD_OF]->(:Tag {id: $sourceId})
+      MATCH (target:Tag {id: $targetId})
+      WHERE child <> target AND NOT EXISTS { MATCH (target)-[:CHILD_OF*]->(child) }
+      MERGE (child)-[:CHILD_OF]->(target)
+    `;
+    const parentsQuery = cypher`
+      MATCH (:Tag {id: $sourceId})-[:CHILD_OF]->(parent:Tag)
+      MATCH (target:Tag {id: $targetId})
+      WHERE parent <> target AND NOT EXISTS { MATCH (parent)-[:CHILD_OF*]->(target) }
+      MERGE (target)-[:CHILD_OF]->(parent)
+    `;
+    const deleteQuery = cypher`
+      MATCH (source:Tag {id: $sourceId})
+      DETACH DELETE source
+    `;
+    const params = yield* queryParams({
+      sourceId: source.id,
+      targetId: target.id,
+    });
+    yield* neo4j.runInTransaction((tx) =>
+      Effect.gen(function* () {
+        yield* tx.run(relinkQuery, params);
+        yield* tx.run(childrenQuery, params);
+        yield* tx.run(parentsQuery, params);
+        yield* tx.run(deleteQuery, params);
+      }),
+    );
+
+    yield* clearRenderCache;
+    return target;
+  })
+    .pipe(
+      Effect.mapError((error) => {
+        if (
+          error instanceof PersistenceError ||
+          error instanceof NotFoundError
+        ) {
+          return error;
+        }
+        return new PersistenceError({
+          originalMessage: String(error),
+          operation: 'update',
+        });
+      }),
+    )
+    .pipe(Effect.withSpan('TagService.mergeTags'));
+
+/**
+ * Remove tags from a content node; tags it does not have are ignored
+ */
+export const untagContent = (
+  nodeId: ContentNodeId,
+  tagNames: TestCaseTagName[],
+): Effect.Effect<void, PersistenceError, Neo4jService> =>
+  Effect.gen(function* () {
+    const neo4j = yield* Neo4jService;
+    const query = cypher`
+      MATCH (n:ContentNode {id: $nodeId})-[r:HAS_TAG]->(t:Tag)
+      WHERE t.name IN $tagNames
+      DELETE r
+    `;
+    const params = yield* queryParams({ nodeId, tagNames });
+    yield* neo4j.runQuery(query, params);
+
+    // Tag filters may now keep or drop this node differently
+    yield* clearRenderCache;
+  })
+    .pipe(
+      Effect.mapError((error) => {
+        if (error instanceof PersistenceError) {
+          return error;
+        }
+        return new PersistenceError({
+          originalMessage: String(error),
+          operation: 'delete',
+        });
+      }),
+    )
+    .pipe(Effect.withSpan('TagService.untagContent'));
+
+/**
+ * Content nodes with a tag, by name; archived nodes only with includeArchived
+ */
+export const getNodesByTag = (
+  tagName: Slug,
+  options: { includeArchived?: boolean } = {},
+): Effect.Effect<readonly ContentNode[], PersistenceError, Neo4jService> =>
+  Effect.gen(function* () {
+    const neo4j = yield* Neo4jService;
+    const query = cypher`
+      MATCH (n:ContentNode)-[:HAS_TAG]->(:Tag {name: $tagName})
+      WHERE $includeArchived OR n.archivedAt IS NULL
+      RETURN n ORDER BY n.name
+    `;
+    const params = yield* queryParams({
+      tagName,
+      includeArchived: !!options.includeArchived,
+    });
+    const results = yield* neo4j.runQuery<{ n: unknown }>(query, params);
+    return yield* Schema.decodeUnknown(Schema.Array(ContentNode))(
+      results.map((result) => result.n),
+    );
+  })
+    .pipe(
+      Effect.mapError((error) => {
+        if (error instanceof PersistenceError) {
+          return error;
+        }
+        return new PersistenceError({
+          originalMessage: String(error),
+          operation: 'read',
+        });
+      }),
+    )
+    .pipe(Effect.withSpan('TagService.getNodesByTag'));
+
+/**
+ * Give tags created by name only an id and an empty description, so they
+ * decode as Tag; returns how many were repaired
+ */
+export const backfillTagIds = (): Effect.Effect<
+  number,
+  PersistenceError,
+  Neo4jService
+> =>
+  Effect.gen(function* () {
+    const neo4j = yield* Neo4jService;
+    const query = cypher`
+      MATCH (t:Tag)
+      WHERE t.id IS NULL
+      SET t.id = randomUUID(), t.description = coalesce(t.description, '')
+      RETURN t.id as id
+    `;
+    const results = yield* neo4j.runQuery<{ id: unknown }>(query);
+    const ids = yield* Schema.decodeUnknown(Schema.Array(TagId))(
+      results.map((result) => result.id),
+    );
+    return ids.length;
+  })
+    .pipe(
+      Effect.mapError((error) => {
+        if (error instanceof PersistenceError) {
+          return error;
+        }
+        return new PersistenceError({
+          originalMessage: String(error),
+          operation: 'update',
+        });
+      }),
+    )
+    .pipe(Effect.withSpan('TagService.backfillTagIds'));
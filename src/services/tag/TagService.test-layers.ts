@@ -0,0 +1,328 @@
+import { Effect, Layer, Match, Schema } from 'effect';
+import { Neo4jService } from '../neo4j';
+import { ContentNode } from '../../domain/types/contentNode';
+import { ContentNodeId, Slug, TagId } from '../../domain/types/branded';
+import { Neo4jError } from '../../domain/types/errors';
+
+/**
+ * Test data structure for tag testing
+ */
+export interface TagTestData {
+  // Tags created by name alone have no id or description
+  tags: Array<{ id?: string; name: string; description?: string }>;
+  nodes: ContentNode[];
+  // HAS_TAG relationships by tag name
+  links: Array<{ nodeId: ContentNodeId; tagName: string }>;
+  // CHILD_OF relationships by tag name
+  parents?: Array<{ tagName: string; parentName: string }>;
+  // Test cases as stored, with message slots as JSON text
+  testCases?: Array<{ id: string; messageSlots: string }>;
+}
+
+/**
+ * Generate test content node data
+ */
+export const generateTestNode = (id: string, name: string): ContentNode => ({
+  id: Schema.decodeSync(ContentNodeId)(id),
+  name: Schema.decodeSync(Slug)(name),
+  description: `${name} description`,
+});
+
+/**
+ * Default test data
+ */
+const defaultTestData: TagTestData = {
+  tags: [
+    {
+      id: Schema.decodeSync(TagId)('850e8400-e29b-41d4-a716-446655440001'),
+      name: 'formal',
+      description: 'Formal register',
+    },
+    {
+      id: Schema.decodeSync(TagId)('850e8400-e29b-41d4-a716-446655440002'),
+      name: 'polite',
+      description: 'Courteous wording',
+    },
+    {
+      id: Schema.decodeSync(TagId)('850e8400-e29b-41d4-a716-446655440003'),
+      name: 'instruction',
+      description: 'System prompt instructions',
+    },
+  ],
+  nodes: [
+    generateTestNode('550e8400-e29b-41d4-a716-446655440001', 'greeting'),
+    generateTestNode('550e8400-e29b-41d4-a716-446655440002', 'farewell'),
+    generateTestNode('550e8400-e29b-41d4-a716-446655440003', 'be-concise'),
+  ],
+  links: [
+    {
+      nodeId: Schema.decodeSync(ContentNodeId)(
+        '550e8400-e29b-41d4-a716-446655440001',
+      ),
+      tagName: 'formal',
+    },
+    {
+      nodeId: Schema.decodeSync(ContentNodeId)(
+        '550e8400-e29b-41d4-a716-446655440002',
+      ),
+      tagName: 'polite',
+    },
+    {
+      nodeId: Schema.decodeSync(ContentNodeId)(
+        '550e8400-e29b-41d4-a716-446655440002',
+      ),
+      tagName: 'formal',
+    },
+    {
+      nodeId: Schema.decodeSync(ContentNodeId)(
+        '550e8400-e29b-41d4-a716-446655440003',
+      ),
+      tagName: 'instruction',
+    },
+  ],
+  parents: [{ tagName: 'polite', parentName: 'formal' }],
+};
+
+/**
+ * Create Neo4j test layer with tag data
+ */
+export const TagTestWithData = (initialData: TagTestData = defaultTestData) => {
+  // Copy to avoid cross-test pollution
+  const testData: TagTestData = {
+    tags: initialData.tags.map((t) => ({ ...t })),
+    nodes: [...initialData.nodes],
+    links: initialData.links.map((l) => ({ ...l })),
+    parents: (initialData.parents ?? []).map((p) => ({ ...p })),
+    testCases: (initialData.testCases ?? []).map((t) => ({ ...t })),
+  };
+  const parents = () => testData.parents ?? [];
+
+  const queryContains =
+    (...patterns: string[]) =>
+    (query: string) =>
+      patterns.every((pattern) => query.includes(pattern));
+
+  const byName = <T extends { name: string }>(items: T[]) =>
+    [...items].sort((a, b) => a.name.localeCompare(b.name));
+
+  const tagName = (id: unknown) => testData.tags.find((t) => t.id === id)?.name;
+
+  const isChildOf = (tagName?: string, parentName?: string) =>
+    parents().some((p) => p.tagName === tagName && p.parentName === parentName);
+
+  // Tag names from one tag up its CHILD_OF links to another, both included
+  const pathUp = (from: string, to: string): string[] | undefined => {
+    const paths: string[][] = [[from]];
+    for (const path of paths) {
+      const last = path[path.length - 1];
+      if (last === to) return path;
+      for (const p of parents().filter((p) => p.tagName === last)) {
+        if (!path.includes(p.parentName)) paths.push([...path, p.parentName]);
+      }
+    }
+    return undefined;
+  };
+
+  const addParent = (tagName?: string, parentName?: string) => {
+    if (tagName && parentName && !isChildOf(tagName, parentName)) {
+      testData.parents?.push({ tagName, parentName });
+    }
+  };
+
+  const runMockQuery = (query: string, params: any = {}): unknown[] =>
+    Match.value(query).pipe(
+      // Find tag by name
+      Match.when(queryContains('MATCH (n:Tag {name: $name}) RETURN n'), () =>
+        testData.tags.filter((t) => t.name === params.name).map((n) => ({ n })),
+      ),
+      // Create tag
+      Match.when(queryContains('CREATE (n:Tag $props) RETURN n'), () => {
+        testData.tags.push(params.props);
+        return [{ n: params.props }];
+      }),
+      // List tags
+      Match.when(queryContains('MATCH (n:Tag) RETURN n ORDER BY n.name'), () =>
+        byName(testData.tags).map((n) => ({ n })),
+      ),
+      // CHILD_OF links
+      Match.when(queryContains('RETURN child.id as childId'), () =>
+        parents().map((p) => ({
+          childId: testData.tags.find((t) => t.name === p.tagName)?.id,
+          parentId: testData.tags.find((t) => t.name === p.parentName)?.id,
+        })),
+      ),
+      // Path from a would-be parent down to the tag
+      Match.when(queryContains('MATCH path = (:Tag {id: $parentId})'), () => {
+        const names = pathUp(
+          tagName(params.parentId) ?? '',
+          tagName(params.tagId) ?? '',
+        );
+        return names ? [{ names }] : [];
+      }),
+      // Link a tag to a parent
+      Match.when(queryContains('MERGE (tag)-[:CHILD_OF]->(parent)'), () => {
+        addParent(tagName(params.tagId), tagName(params.parentId));
+        return [];
+      }),
+      // Unlink a tag from a parent
+      Match.when(queryContains('[r:CHILD_OF]', 'DELETE r'), () => {
+        const child = tagName(params.tagId);
+        const parent = tagName(params.parentId);
+        testData.parents = parents().filter(
+          (p) => p.tagName !== child || p.parentName !== parent,
+        );
+        return [];
+      }),
+      // Move source children onto target where no cycle results
+      Match.when(queryContains('MERGE (child)-[:CHILD_OF]->(target)'), () => {
+        const source = tagName(params.sourceId);
+        const target = tagName(params.targetId) ?? '';
+        for (const p of parents().filter((p) => p.parentName === source)) {
+          if (p.tagName !== target && !pathUp(target, p.tagName)) {
+            addParent(p.tagName, target);
+          }
+        }
+        return [];
+      }),
+      // Move source parents onto target where no cycle results
+      Match.when(queryContains('MERGE (target)-[:CHILD_OF]->(parent)'), () => {
+        const source = tagName(params.sourceId);
+        const target = tagName(params.targetId) ?? '';
+        for (const p of parents().filter((p) => p.tagName === source)) {
+          if (p.parentName !== target && !pathUp(p.parentName, target)) {
+            addParent(target, p.parentName);
+          }
+        }
+        return [];
+      }),
+      // Search tags
+      Match.when(queryContains('toLower(t.name) CONTAINS $query'), () =>
+        byName(testData.tags)
+          .filter(
+            (t) =>
+              t.name.toLowerCase().includes(params.query) ||
+              (t.description ?? '').toLowerCase().includes(params.query),
+          )
+          .map((t) => ({ t })),
+      ),
+      // Another tag with the new name
+      Match.when(queryContains('MATCH (other:Tag {name: $newName})'), () =>
+        testData.tags
+          .filter((t) => t.name === params.newName && t.id !== params.tagId)
+          .map((t) => ({ id: t.id })),
+      ),
+      // Stored test cases
+      Match.when(queryContains('MATCH (t:TestCase)', 'RETURN t.id'), () =>
+        (testData.testCases ?? []).map((t) => ({ ...t })),
+      ),
+      // Rewrite test case slots
+      Match.when(queryContains('SET t.messageSlots'), () => {
+        for (const update of params.testCases) {
+          const testCase = testData.testCases?.find((t) => t.id === update.id);
+          if (testCase) testCase.messageSlots = update.messageSlots;
+        }
+        return [];
+      }),
+      // Rename tag; links follow the tag
+      Match.when(queryContains('SET t.name = $newName'), () => {
+        const tag = testData.tags.find((t) => t.id === params.tagId);
+        if (!tag) return [];
+        testData.links = testData.links.map((l) =>
+          l.tagName === tag.name ? { ...l, tagName: params.newName } : l,
+        );
+        testData.parents = parents().map((p) => ({
+          tagName: p.tagName === tag.name ? params.newName : p.tagName,
+          parentName: p.parentName === tag.name ? params.newName : p.parentName,
+        }));
+        tag.name = params.newName;
+        return [{ t: tag }];
+      }),
+      // Copy source tag links onto target
+      Match.when(queryContains('MERGE (n)-[:HAS_TAG]->(target)'), () => {
+        const source = tagName(params.sourceId);
+        const target = tagName(params.targetId);
+        for (const link of testData.links.filter((l) => l.tagName === source)) {
+          if (
+            target &&
+            !testData.links.some(
+              (l) => l.nodeId === link.nodeId && l.tagName === target,
+            )
+          ) {
+            testData.links.push({ nodeId: link.nodeId, tagName: target });
+          }
+        }
+        return [];
+      }),
+      // Delete source tag
+      Match.when(queryContains('DETACH DELETE source'), () => {
+        const source = tagName(params.sourceId);
+        testData.tags = testData.tags.filter((t) => t.id !== params.sourceId);
+        testData.links = testData.links.filter((l) => l.tagName !== source);
+        testData.parents = parents().filter(
+          (p) => p.tagName !== source && p.parentName !== source,
+        );
+        return [];
+      }),
+      // Untag a node
+      Match.when(queryContains('WHERE t.name IN $tagNames', 'DELETE r'), () => {
+        testData.links = testData.links.filter(
+          (l) =>
+            l.nodeId !== params.nodeId || !params.tagNames.includes(l.tagName),
+        );
+        return [];
+      }),
+      // Nodes with a tag
+      Match.when(
+        queryContains(
+          'MATCH (n:ContentNode)-[:HAS_TAG]->(:Tag {name: $tagName})',
+        ),
+        () =>
+          byName(
+            testData.nodes.filter(
+              (n) =>
+                (params.includeArchived || !n.archivedAt) &&
+                testData.links.some(
+                  (l) => l.nodeId === n.id && l.tagName === params.tagName,
+                ),
+            ),
+          ).map((n) => ({ n })),
+      ),
+      // Give tags without an id one
+      Match.when(queryContains('WHERE t.id IS NULL'), () =>
+        testData.tags
+          .filter((t) => t.id === undefined)
+          .map((t) => {
+            t.id = crypto.randomUUID();
+            t.description = t.description ?? '';
+            return { id: t.id };
+          }),
+      ),
+      Match.orElse(() => []),
+    );
+
+  return Layer.succeed(
+    Neo4jService,
+    Neo4jService.of({
+      runQuery: <T = unknown>(query: any, params: any = {}) =>
+        Effect.succeed(runMockQuery(query, params) as T[]),
+      runInTransaction: (operations: any) =>
+        operations({
+          run: <T = unknown>(query: any, params: any = {}) =>
+            Effect.succeed(runMockQuery(query, params) as T[]),
+        }),
+      runBatch: <T = unknown>(queries: any) =>
+        Effect.succeed(
+          queries.map(({ query, params }: any) =>
+            runMockQuery(query, params),
+          ) as T[][],
+        ),
+      withSession: () =>
+        Effect.fail(
+          new Neo4jError({
+            query: '',
+            originalMessage: 'withSession not implemented in test layer',
+          }),
+        ),
+    }),
+  );
+};
@@ -0,0 +1,309 @@
+import { describe, it, expect } from '@effect/vitest';
+import { Effect, Schema } from 'effect';
+import * as TagService from './index';
+import { ContentNodeId, Slug } from '../../domain/types/branded';
+import {
+  NotFoundError,
+  PersistenceError,
+  SlugInUseError,
+  TagCycleError,
+} from '../../domain/types/errors';
+import { TagTree } from '../../domain/types/tag';
+import { cypher } from '../../domain/types/database';
+import { Neo4jService } from '../neo4j';
+import { TagTestWithData, generateTestNode } from './TagService.test-layers';
+
+const slug = Schema.decodeSync(Slug);
+const nodeNames = (tagName: string) =>
+  TagService.getNodesByTag(slug(tagName)).pipe(
+    Effect.map((nodes) => nodes.map((n) => n.name)),
+  );
+// Tag names, with children keyed by their parent's name
+const outline = (trees: ReadonlyArray<TagTree>): unknown[] =>
+  trees.map(({ tag, children }) =>
+    children.length > 0 ? { [tag.name]: outline(children) } : tag.name,
+  );
+const tagOutline = TagService.listTags().pipe(Effect.map(outline));
+
+describe('TagService', () => {
+  describe('createTag', () => {
+    it.effect('should create a tag with an id and description', () =>
+      Effect.gen(function* () {
+        const tag = yield* TagService.createTag(slug('casual'), 'Relaxed tone');
+
+        expect(tag.id).toMatch(/^[0-9a-f-]{36}$/);
+        expect(tag.description).toBe('Relaxed tone');
+        expect(yield* tagOutline).toEqual([
+          'casual',
+          { formal: ['polite'] },
+          'instruction',
+        ]);
+      }).pipe(Effect.provide(TagTestWithData())),
+    );
+
+    it.effect('should fail on duplicate name', () =>
+      Effect.gen(function* () {
+        const error = yield* Effect.flip(
+          TagService.createTag(slug('formal'), 'Again'),
+        );
+        expect(error).toBeInstanceOf(PersistenceError);
+      }).pipe(Effect.provide(TagTestWithData())),
+    );
+  });
+
+  describe('searchTags', () => {
+    it.effect('should match names and descriptions ignoring case', () =>
+      Effect.gen(function* () {
+        const byDescription = yield* TagService.searchTags('COURTEOUS');
+        expect(byDescription.map((t) => t.name)).toEqual(['polite']);
+
+        const byName = yield* TagService.searchTags('instr');
+        expect(byName.map((t) => t.name)).toEqual(['instruction']);
+      }).pipe(Effect.provide(TagTestWithData())),
+    );
+  });
+
+  describe('renameTag', () => {
+    it.effect('should rename a tag and keep its nodes', () =>
+      Effect.gen(function* () {
+        const renamed = yield* TagService.renameTag(
+          slug('formal'),
+          slug('ceremonial'),
+        );
+
+        expect(renamed.id).toBe('850e8400-e29b-41d4-a716-446655440001');
+        expect(renamed.name).toBe('ceremonial');
+        expect(yield* nodeNames('ceremonial')).toEqual([
+          'farewell',
+          'greeting',
+        ]);
+      }).pipe(Effect.provide(TagTestWithData())),
+    );
+
+    it.effect('should rewrite test case slots that name the tag', () => {
+      const slots = (...messageSlots: unknown[]) =>
+        JSON.stringify(messageSlots);
+      const tag = (name: string) => ({ _tag: 'Tag', name });
+      return Effect.gen(function* () {
+        yield* TagService.renameTag(slug('formal'), slug('ceremonial'));
+
+        const neo4j = yield* Neo4jService;
+        const stored = yield* neo4j.runQuery<{
+          id: string;
+          messageSlots: string;
+        }>(
+          cypher`MATCH (t:TestCase) RETURN t.id as id, t.messageSlots as messageSlots`,
+        );
+        expect(stored.map((t) => JSON.parse(t.messageSlots))).toMatchObject([
+          [{ tags: ['ceremonial'] }, { tags: ['instruction'] }],
+          [
+            {
+              tagExpression: {
+                _tag: 'And',
+                operands: [
+                  tag('instruction'),
+                  { _tag: 'Not', operand: tag('ceremonial') },
+                ],
+              },
+            },
+          ],
+          [{ tags: ['{{tone}}'] }],
+        ]);
+      }).pipe(
+        Effect.provide(
+          TagTestWithData({
+            tags: [
+              {
+                id: '850e8400-e29b-41d4-a716-446655440001',
+                name: 'formal',
+                description: 'Formal register',
+              },
+              {
+                id: '850e8400-e29b-41d4-a716-446655440003',
+                name: 'instruction',
+                description: 'System prompt instructions',
+              },
+            ],
+            nodes: [],
+            links: [],
+            testCases: [
+              {
+                id: '950e8400-e29b-41d4-a716-446655440001',
+                messageSlots: slots(
+                  { role: 'system', tags: ['formal'], sequence: 0 },
+                  { role: 'user', tags: ['instruction'], sequence: 1 },
+                ),
+              },
+              {
+                id: '950e8400-e29b-41d4-a716-446655440002',
+                messageSlots: slots({
+                  role: 'user',
+                  tagExpression: {
+                    _tag: 'And',
+                    operands: [
+                      tag('instruction'),
+                      { _tag: 'Not', operand: tag('formal') },
+                    ],
+                  },
+                  sequence: 0,
+                }),
+              },
+              {
+                id: '950e8400-e29b-41d4-a716-446655440003',
+                messageSlots: slots({
+                  role: 'user',
+                  tags: ['{{tone}}'],
+                  sequence: 0,
+                }),
+              },
+            ],
+          }),
+        ),
+      );
+    });
+
+    it.effect('should refuse a name another tag has', () =>
+      Effect.gen(function* () {
+        const error = yield* Effect.flip(
+          TagService.renameTag(slug('formal'), slug('polite')),
+        );
+        expect(error).toBeInstanceOf(SlugInUseError);
+        expect(error).toMatchObject({
+          slug: 'polite',
+          existingId: '850e8400-e29b-41d4-a716-446655440002',
+        });
+      }).pipe(Effect.provide(TagTestWithData())),
+    );
+
+    it.effect('should fail for a missing tag', () =>
+      Effect.gen(function* () {
+        const error = yield* Effect.flip(
+          TagService.renameTag(slug('missing'), slug('found')),
+        );
+        expect(error).toBeInstanceOf(NotFoundError);
+      }).pipe(Effect.provide(TagTestWithData())),
+    );
+  });
+
+  describe('mergeTags', () => {
+    it.effect('should move nodes onto the target and delete the source', () =>
+      Effect.gen(function* () {
+        const target = yield* TagService.mergeTags(
+          slug('polite'),
+          slug('formal'),
+        );
+
+        expect(target.name).toBe('formal');
+        expect(yield* nodeNames('formal')).toEqual(['farewell', 'greeting']);
+        expect(yield* tagOutline).toEqual(['formal', 'instruction']);
+      }).pipe(Effect.provide(TagTestWithData())),
+    );
+
+    it.effect('should give the target the source children', () =>
+      Effect.gen(function* () {
+        yield* TagService.mergeTags(slug('formal'), slug('instruction'));
+
+        expect(yield* tagOutline).toEqual([{ instruction: ['polite'] }]);
+      }).pipe(Effect.provide(TagTestWithData())),
+    );
+
+    it.effect(
+      'should drop links that would make the target its own parent',
+      () =>
+        Effect.gen(function* () {
+          yield* TagService.mergeTags(slug('formal'), slug('polite'));
+
+          expect(yield* tagOutline).toEqual(['instruction', 'polite']);
+        }).pipe(Effect.provide(TagTestWithData())),
+    );
+  });
+
+  describe('setTagParent', () => {
+    it.effect('should list a tag under each of its parents', () =>
+      Effect.gen(function* () {
+        yield* TagService.setTagParent(slug('polite'), slug('instruction'));
+        yield* TagService.setTagParent(slug('polite'), slug('instruction'));
+
+        expect(yield* tagOutline).toEqual([
+          { formal: ['polite'] },
+          { instruction: ['polite'] },
+        ]);
+      }).pipe(Effect.provide(TagTestWithData())),
+    );
+
+    it.effect('should refuse a descendant as parent', () =>
+      Effect.gen(function* () {
+        yield* TagService.setTagParent(slug('instruction'), slug('polite'));
+        const error = yield* Effect.flip(
+          TagService.setTagParent(slug('formal'), slug('instruction')),
+        );
+
+        expect(error).toBeInstanceOf(TagCycleError);
+        expect(error).toMatchObject({
+          path: ['formal', 'instruction', 'polite', 'formal'],
+        });
+        expect(yield* tagOutline).toEqual([
+          { formal: [{ polite: ['instruction'] }] },
+        ]);
+      }).pipe(Effect.provide(TagTestWithData())),
+    );
+
+    it.effect('should refuse the tag itself as parent', () =>
+      Effect.gen(function* () {
+        const error = yield* Effect.flip(
+          TagService.setTagParent(slug('formal'), slug('formal')),
+        );
+        expect(error).toMatchObject({ path: ['formal', 'formal'] });
+      }).pipe(Effect.provide(TagTestWithData())),
+    );
+  });
+
+  describe('removeTagParent', () => {
+    it.effect('should make an only child a root again', () =>
+      Effect.gen(function* () {
+        yield* TagService.removeTagParent(slug('polite'), slug('formal'));
+
+        expect(yield* tagOutline).toEqual(['formal', 'instruction', 'polite']);
+      }).pipe(Effect.provide(TagTestWithData())),
+    );
+  });
+
+  describe('untagContent', () => {
+    it.effect('should remove only the named tags', () =>
+      Effect.gen(function* () {
+        yield* TagService.untagContent(
+          Schema.decodeSync(ContentNodeId)(
+            '550e8400-e29b-41d4-a716-446655440002',
+          ),
+          [slug('formal'), slug('unknown')],
+        );
+
+        expect(yield* nodeNames('formal')).toEqual(['greeting']);
+        expect(yield* nodeNames('polite')).toEqual(['farewell']);
+      }).pipe(Effect.provide(TagTestWithData())),
+    );
+  });
+
+  describe('backfillTagIds', () => {
+    it.effect('should make tags created by name decodable', () =>
+      Effect.gen(function* () {
+        expect(yield* TagService.backfillTagIds()).toBe(1);
+        expect(yield* TagService.backfillTagIds()).toBe(0);
+
+        const [{ tag }] = yield* TagService.listTags();
+        expect(tag.name).toBe('legacy');
+        expect(tag.description).toBe('');
+      }).pipe(
+        Effect.provide(
+          TagTestWithData({
+            tags: [{ name: 'legacy' }],
+            nodes: [
+              generateTestNode('550e8400-e29b-41d4-a716-446655440001', 'old'),
+            ],
+            links: [],
+          }),
+        ),
+      ),
+    );
+  });
+});
@@ -0,0 +1,14 @@
+export {
+  createTag,
+  findTagByName,
+  mustFindTagByName,
+  listTags,
+  setTagParent,
+  removeTagParent,
+  searchTags,
+  renameTag,
+  mergeTags,
+  untagContent,
+  getNodesByTag,
+  backfillTagIds,
+} from './TagOperations';